@@ -0,0 +1,98 @@
+// Local stand-in for an LLM scene backend.
+//   npm run mock:scenes
+//   VITE_SCENE_ENDPOINT=http://localhost:8787/api/scenes npm run dev
+// Query flags: ?delay=ms (per scene), ?fail=500 (status to answer with), ?format=json (array instead of NDJSON).
+import http from "node:http";
+
+const PORT = Number(process.env.PORT) || 8787;
+
+function deckFor(eventName) {
+  const name = eventName || "an untold event";
+  // Invented scenes: they cite nothing, so the validator reports them as unsourced.
+  return [
+    {
+      title: `Eve of ${name}`,
+      timePeriod: "",
+      location: "",
+      oneLine: "Lanterns burn late in every window.",
+      narration: "Messengers ride through the dark. Nobody sleeps; everyone listens for the first sound of morning.",
+      visualKeywords: ["crowd", "torch", "banners"],
+      palette: ["#0b1020", "#e2e8f0", "#f59e0b", "#ffffff"],
+      environment: "city",
+      cameraStyle: "dolly-in",
+      historicity: "speculative",
+      anachronisms: [],
+    },
+    {
+      title: `Heart of ${name}`,
+      timePeriod: "",
+      location: "",
+      oneLine: "The crowd surges toward the square.",
+      narration: "Voices rise together. Dust, drums and flags fill the air as the moment finally breaks open.",
+      visualKeywords: ["flags", "smoke", "structures"],
+      palette: ["#1c1917", "#fbbf24", "#60a5fa", "#fca5a5"],
+      environment: "battlefield",
+      cameraStyle: "push-pull",
+      historicity: "speculative",
+      anachronisms: [],
+      questions: [{ prompt: "What filled the air as the moment broke open?", choices: ["Snow and silence", "Dust, drums and flags", "Rain and thunder"], answer: 1 }],
+    },
+    {
+      title: `After ${name}`,
+      timePeriod: "",
+      location: "",
+      oneLine: "Quiet settles over changed streets.",
+      narration: "Paper drifts across the cobbles. Someone sweeps, someone sings, and the city remembers.",
+      visualKeywords: ["empty street", "paper debris", "sunset"],
+      palette: ["#111827", "#e5e7eb", "#f97316", "#ef4444"],
+      environment: "city",
+      cameraStyle: "crane-up",
+      historicity: "speculative",
+      anachronisms: [],
+    },
+  ];
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(data || "{}"));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  if (req.method === "OPTIONS") return res.writeHead(204).end();
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method !== "POST" || url.pathname !== "/api/scenes") return res.writeHead(404).end();
+
+  const { eventName } = await readBody(req);
+  const fail = Number(url.searchParams.get("fail"));
+  if (fail) return res.writeHead(fail, { "Content-Type": "text/plain" }).end("mock failure");
+
+  const deck = deckFor(eventName);
+  if (url.searchParams.get("format") === "json") {
+    return res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(deck));
+  }
+
+  const delay = Number(url.searchParams.get("delay") ?? 1200);
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  for (const scene of deck) {
+    if (res.destroyed) return;
+    await new Promise((r) => setTimeout(r, delay));
+    res.write(JSON.stringify(scene) + "\n");
+  }
+  res.end();
+});
+
+server.listen(PORT, () => console.log(`mock scene backend on http://localhost:${PORT}/api/scenes`));
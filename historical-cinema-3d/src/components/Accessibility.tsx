@@ -0,0 +1,89 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+
+/** Whether the stage should hold still: no handheld shake, film grain or surface distortion. */
+export const ReducedMotionContext = createContext(false);
+
+export function useReducedMotion(): boolean {
+  return useContext(ReducedMotionContext);
+}
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/** The system's prefers-reduced-motion setting, kept live. */
+export function usePrefersReducedMotion(): boolean {
+  const [reduce, setReduce] = useState(() => typeof matchMedia === "function" && matchMedia(REDUCED_MOTION_QUERY).matches);
+  useEffect(() => {
+    if (typeof matchMedia !== "function") return;
+    const query = matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setReduce(query.matches);
+    onChange();
+    query.addEventListener("change", onChange);
+    return () => query.removeEventListener("change", onChange);
+  }, []);
+  return reduce;
+}
+
+export interface PlayerShortcuts {
+  togglePlay(): void;
+  previous(): void;
+  next(): void;
+  first(): void;
+  last(): void;
+  toggleNarration(): void;
+  toggleExplore(): void;
+  /** Escape: backs out of explore mode, note first; false when there was nothing to leave. */
+  leave(): boolean;
+}
+
+/** Keys as listed for aria-keyshortcuts. */
+export const SHORTCUT_KEYS = { togglePlay: "Space", previous: "ArrowLeft", next: "ArrowRight", first: "Home", last: "End", toggleNarration: "N", toggleExplore: "E", leave: "Escape" } as const;
+
+// Widgets that use these keys themselves; shortcuts stay out of their way.
+const KEY_CONSUMERS = 'input, textarea, select, [contenteditable=""], [contenteditable="true"], [role="combobox"], [role="listbox"], [role="slider"], [role="textbox"]';
+const ACTIVATABLE = 'button, a[href], summary, [role="button"], [role="option"]';
+
+/**
+ * Document-wide player keys: Space plays/pauses, ←/→ step scenes (mirrored in right-to-left layouts),
+ * Home/End jump to the ends, N toggles narration, E explore mode and Escape backs out of it. Ignored while
+ * typing or when another control owns the key.
+ */
+export function usePlayerShortcuts(shortcuts: PlayerShortcuts, { enabled = true, dir = "ltr" }: { enabled?: boolean; dir?: "ltr" | "rtl" } = {}) {
+  const latest = useRef(shortcuts);
+  latest.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || e.isComposing) return;
+      const target = e.target instanceof Element ? e.target : null;
+      if (target?.closest(KEY_CONSUMERS)) return;
+      if ((e.key === " " || e.key === "Enter") && target?.closest(ACTIVATABLE)) return;
+      const s = latest.current;
+      const back = dir === "rtl" ? "ArrowRight" : "ArrowLeft";
+      const forward = dir === "rtl" ? "ArrowLeft" : "ArrowRight";
+      if (e.key === " ") s.togglePlay();
+      else if (e.key === back) s.previous();
+      else if (e.key === forward) s.next();
+      else if (e.key === "Home") s.first();
+      else if (e.key === "End") s.last();
+      else if (e.key.toLowerCase() === "n" && !e.shiftKey) s.toggleNarration();
+      else if (e.key.toLowerCase() === "e" && !e.shiftKey) s.toggleExplore();
+      else if (e.key === "Escape") {
+        if (!s.leave()) return;
+      }
+      else return;
+      e.preventDefault();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [enabled, dir]);
+}
+
+/** Visually hidden polite live region; screen readers read `message` whenever it changes. */
+export function LiveAnnouncer({ message }: { message: string }) {
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  );
+}
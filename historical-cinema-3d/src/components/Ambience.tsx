@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Scene } from "@/lib/scene";
+import { createRandom } from "@/lib/random";
+import { AMBIENCE_CROSSFADE, DUCKING_DEFAULTS, LAYER_VOICES, fillCrackle, fillNoise, planAmbience, type AmbienceLayer, type LayerVoice } from "@/lib/ambience";
+
+interface AmbienceOptions {
+  scene: Pick<Scene, "environment" | "visualKeywords"> | undefined;
+  /** The soundscape only runs while the show plays. */
+  playing: boolean;
+  /** Narration is audible; the ambience ducks under it. */
+  speaking: boolean;
+  /** Linear gains (see volumeGain in lib/ambience). */
+  master: number;
+  ambience: number;
+}
+
+interface LayerSet {
+  gain: GainNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+interface Engine {
+  ctx: AudioContext;
+  /** scene set → duck → ambience → master → speakers */
+  duck: GainNode;
+  ambience: GainNode;
+  master: GainNode;
+  buffers: Map<LayerVoice["source"], AudioBuffer>;
+  current: LayerSet | null;
+}
+
+const BUFFER_SECONDS = 6;
+// How quickly volume changes and pausing are eased in, in seconds; keeps the sliders from zipping.
+const SMOOTHING = 0.08;
+
+function createEngine(): Engine | null {
+  if (typeof AudioContext === "undefined") return null;
+  try {
+    const ctx = new AudioContext();
+    const duck = ctx.createGain();
+    const ambience = ctx.createGain();
+    const master = ctx.createGain();
+    master.gain.value = 0;
+    duck.connect(ambience).connect(master).connect(ctx.destination);
+    return { ctx, duck, ambience, master, buffers: new Map(), current: null };
+  } catch {
+    return null;
+  }
+}
+
+function sourceBuffer(engine: Engine, source: LayerVoice["source"]): AudioBuffer {
+  let buffer = engine.buffers.get(source);
+  if (!buffer) {
+    const { sampleRate } = engine.ctx;
+    buffer = engine.ctx.createBuffer(1, sampleRate * BUFFER_SECONDS, sampleRate);
+    const rng = createRandom(source);
+    if (source === "crackle") fillCrackle(buffer.getChannelData(0), sampleRate, rng);
+    else fillNoise(buffer.getChannelData(0), source, rng);
+    engine.buffers.set(source, buffer);
+  }
+  return buffer;
+}
+
+function startLayer(engine: Engine, layer: AmbienceLayer, out: AudioNode): AudioScheduledSourceNode[] {
+  const { ctx } = engine;
+  const voice = LAYER_VOICES[layer.kind];
+  const noise = ctx.createBufferSource();
+  noise.buffer = sourceBuffer(engine, voice.source);
+  noise.loop = true;
+  const filter = ctx.createBiquadFilter();
+  filter.type = voice.filter.type;
+  filter.frequency.value = voice.filter.frequency;
+  filter.Q.value = voice.filter.q;
+  const gain = ctx.createGain();
+  gain.gain.value = layer.gain;
+  noise.connect(filter).connect(gain).connect(out);
+  const sources: AudioScheduledSourceNode[] = [noise];
+
+  if (voice.swell) {
+    // The gain swings between (1 - depth) and 1 of the layer's level.
+    const lfo = ctx.createOscillator();
+    lfo.frequency.value = voice.swell.rate;
+    const depth = ctx.createGain();
+    depth.gain.value = (layer.gain * voice.swell.depth) / 2;
+    gain.gain.value = layer.gain * (1 - voice.swell.depth / 2);
+    lfo.connect(depth).connect(gain.gain);
+    sources.push(lfo);
+  }
+  if (voice.tone) {
+    const { low, high, rate, level } = voice.tone;
+    const tone = ctx.createOscillator();
+    tone.type = "triangle";
+    tone.frequency.value = (low + high) / 2;
+    const sweep = ctx.createOscillator();
+    sweep.frequency.value = rate;
+    const sweepDepth = ctx.createGain();
+    sweepDepth.gain.value = (high - low) / 2;
+    sweep.connect(sweepDepth).connect(tone.frequency);
+    const toneGain = ctx.createGain();
+    toneGain.gain.value = layer.gain * level;
+    tone.connect(toneGain).connect(out);
+    sources.push(tone, sweep);
+  }
+
+  // Layers sharing a buffer start at different points so they don't comb-filter each other.
+  noise.start(0, Math.random() * BUFFER_SECONDS);
+  sources.slice(1).forEach((s) => s.start());
+  return sources;
+}
+
+/** Fades the playing layers out and `plan`'s layers in over AMBIENCE_CROSSFADE. */
+function crossfade(engine: Engine, plan: readonly AmbienceLayer[]) {
+  const { ctx } = engine;
+  const now = ctx.currentTime;
+  const end = now + AMBIENCE_CROSSFADE;
+  const old = engine.current;
+  if (old) {
+    old.gain.gain.cancelScheduledValues(now);
+    old.gain.gain.setValueAtTime(old.gain.gain.value, now);
+    old.gain.gain.linearRampToValueAtTime(0, end);
+    old.sources.forEach((s) => s.stop(end + 0.05));
+    if (old.sources[0]) old.sources[0].onended = () => old.gain.disconnect();
+    else old.gain.disconnect();
+  }
+  if (!plan.length) {
+    engine.current = null;
+    return;
+  }
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, now);
+  gain.gain.linearRampToValueAtTime(1, end);
+  gain.connect(engine.duck);
+  engine.current = { gain, sources: plan.flatMap((layer) => startLayer(engine, layer, gain)) };
+}
+
+/**
+ * Procedural ambience for the scene on stage (see lib/ambience for what plays where). The AudioContext is
+ * created the first time the show plays, right after the click or key press that started it, so autoplay
+ * policies let it run. Pausing fades out and suspends it; scene changes crossfade.
+ */
+export function useAmbience({ scene, playing, speaking, master, ambience }: AmbienceOptions) {
+  const [engine, setEngine] = useState<Engine | null>(null);
+  const plan = useMemo(() => (scene ? planAmbience(scene) : []), [scene]);
+  const planKey = plan.map((l) => `${l.kind}:${l.gain}`).join(",");
+
+  useEffect(() => {
+    if (playing && !engine) setEngine(createEngine());
+  }, [playing, engine]);
+
+  useEffect(() => {
+    if (!engine) return;
+    engine.master.gain.setTargetAtTime(playing ? master : 0, engine.ctx.currentTime, SMOOTHING);
+    if (playing) {
+      engine.ctx.resume().catch(() => {});
+      return;
+    }
+    const timer = window.setTimeout(() => engine.ctx.suspend().catch(() => {}), SMOOTHING * 5000);
+    return () => window.clearTimeout(timer);
+  }, [engine, playing, master]);
+
+  useEffect(() => {
+    engine?.ambience.gain.setTargetAtTime(ambience, engine.ctx.currentTime, SMOOTHING);
+  }, [engine, ambience]);
+
+  useEffect(() => {
+    if (!engine) return;
+    const { depth, attack, release } = DUCKING_DEFAULTS;
+    engine.duck.gain.setTargetAtTime(speaking ? depth : 1, engine.ctx.currentTime, speaking ? attack : release);
+  }, [engine, speaking]);
+
+  useEffect(() => {
+    if (engine) crossfade(engine, plan);
+  }, [engine, planKey]);
+
+  useEffect(() => {
+    if (!engine) return;
+    return () => {
+      engine.ctx.close().catch(() => {});
+      setEngine(null);
+    };
+  }, [engine]);
+}
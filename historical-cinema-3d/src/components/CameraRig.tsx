@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+import { blendPose, copyPose, createPose, type Shot } from "@/lib/camera";
+
+interface CameraRigProps {
+  shot: Shot;
+  flyIn?: number;
+  /** Leaves the camera to someone else (explore mode); the shot's clock stops meanwhile. */
+  hold?: boolean;
+  /** Seconds to fly from wherever the camera was left back into the shot once `hold` ends. */
+  returnIn?: number;
+}
+
+/**
+ * Drives the default camera along `shot`, restarting from t = 0 whenever the shot changes. With `flyIn`
+ * (seconds), a new shot starts from wherever the previous one left the camera and flies into its path.
+ */
+export function CameraRig({ shot, flyIn = 0, hold = false, returnIn = 0 }: CameraRigProps) {
+  const start = useRef<number | null>(null);
+  const pose = useMemo(createPose, []);
+  const from = useMemo(createPose, []);
+  const left = useMemo(createPose, []);
+  const look = useMemo(() => new THREE.Vector3(), []);
+  const blend = useRef(0);
+  const sampled = useRef(false);
+  // Shot time when the camera was handed over, and when (clock time) it started flying back.
+  const heldAt = useRef<number | null>(null);
+  const returning = useRef<number | null>(null);
+  useEffect(() => {
+    start.current = null;
+    heldAt.current = null;
+    blend.current = sampled.current ? flyIn : 0;
+    if (blend.current > 0) copyPose(pose, from);
+  }, [shot]);
+  useFrame((state) => {
+    const now = state.clock.elapsedTime;
+    const cam = state.camera as THREE.PerspectiveCamera;
+    if (start.current === null) start.current = now;
+    if (hold) {
+      if (heldAt.current === null) heldAt.current = now - start.current;
+      returning.current = null;
+      return;
+    }
+    if (heldAt.current !== null) {
+      // Pick the shot up where it stopped, starting from the camera as the viewer left it.
+      start.current = now - heldAt.current;
+      heldAt.current = null;
+      blend.current = 0;
+      left.position.copy(cam.position);
+      left.target.copy(cam.getWorldDirection(look).multiplyScalar(pose.position.distanceTo(pose.target)).add(cam.position));
+      left.roll = 0;
+      left.fov = cam.fov;
+      returning.current = returnIn > 0 ? now : null;
+    }
+    const t = now - start.current;
+    shot.sample(t, pose);
+    if (t < blend.current) blendPose(from, pose, t / blend.current);
+    if (returning.current !== null) {
+      const u = (now - returning.current) / returnIn;
+      if (u < 1) blendPose(left, pose, u, 0);
+      else returning.current = null;
+    }
+    sampled.current = true;
+    cam.position.copy(pose.position);
+    cam.up.set(0, 1, 0);
+    cam.lookAt(pose.target);
+    if (pose.roll) cam.rotateZ(pose.roll);
+    if (cam.isPerspectiveCamera && cam.fov !== pose.fov) {
+      cam.fov = pose.fov;
+      cam.updateProjectionMatrix();
+    }
+  });
+  return null;
+}
@@ -0,0 +1,419 @@
+import React, { useLayoutEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { MeshDistortMaterial } from "@react-three/drei";
+import type { EnvName, Scene } from "@/lib/scene";
+import { createRandom, hashString } from "@/lib/random";
+import { createNoise2D, fbm } from "@/lib/noise";
+import { useReducedMotion } from "@/components/Accessibility";
+import { useRenderBudget } from "@/components/Performance";
+import { SeededStars } from "@/components/Particles";
+
+type Vec3 = [number, number, number];
+
+interface Placement {
+  position: Vec3;
+  rotation?: number;
+  scale: Vec3;
+}
+
+interface SetProps {
+  seed: number;
+}
+
+/** Radius around the focal point kept flat and clear so props sit on y = 0. */
+const CLEARING = 5;
+
+const smoothstep = (a: number, b: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - a) / (b - a)));
+  return t * t * (3 - 2 * t);
+};
+
+export function Ground({ color = "#111", roughness = 0.9 }: { color?: string; roughness?: number }) {
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+      <planeGeometry args={[150, 150, 1, 1]} />
+      <meshStandardMaterial color={color} roughness={roughness} />
+    </mesh>
+  );
+}
+
+function Terrain({
+  height,
+  color,
+  size = 150,
+  segments = 160,
+  roughness = 0.95,
+  flatShading = false,
+}: {
+  height: (x: number, z: number) => number;
+  color: string;
+  size?: number;
+  segments?: number;
+  roughness?: number;
+  flatShading?: boolean;
+}) {
+  const geometry = useMemo(() => {
+    const g = new THREE.PlaneGeometry(size, size, segments, segments);
+    g.rotateX(-Math.PI / 2);
+    const pos = g.attributes.position as THREE.BufferAttribute;
+    for (let i = 0; i < pos.count; i++) pos.setY(i, height(pos.getX(i), pos.getZ(i)));
+    g.computeVertexNormals();
+    return g;
+  }, [height, size, segments]);
+  useLayoutEffect(() => () => geometry.dispose(), [geometry]);
+  return (
+    <mesh geometry={geometry} receiveShadow>
+      <meshStandardMaterial color={color} roughness={roughness} flatShading={flatShading} />
+    </mesh>
+  );
+}
+
+/** One InstancedMesh per part; `children` supplies geometry and material, `tilt` orients the geometry before the yaw. */
+function Scatter({ items, children, castShadow = true, tilt }: { items: Placement[]; children: React.ReactNode; castShadow?: boolean; tilt?: Vec3 }) {
+  const ref = useRef<THREE.InstancedMesh>(null);
+  useLayoutEffect(() => {
+    const mesh = ref.current;
+    if (!mesh) return;
+    const m = new THREE.Matrix4();
+    const q = new THREE.Quaternion();
+    const base = new THREE.Quaternion().setFromEuler(new THREE.Euler(...(tilt ?? [0, 0, 0])));
+    const up = new THREE.Vector3(0, 1, 0);
+    items.forEach((it, i) => {
+      q.setFromAxisAngle(up, it.rotation ?? 0).multiply(base);
+      m.compose(new THREE.Vector3(...it.position), q, new THREE.Vector3(...it.scale));
+      mesh.setMatrixAt(i, m);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [items, tilt]);
+  return (
+    <instancedMesh key={items.length} ref={ref} args={[undefined, undefined, items.length]} castShadow={castShadow} receiveShadow>
+      {children}
+    </instancedMesh>
+  );
+}
+
+/** Seeded points outside the clearing, within `maxRadius`. */
+function scatterPoints(seed: number, count: number, maxRadius: number, minRadius = CLEARING + 1) {
+  const rng = createRandom(seed);
+  return Array.from({ length: count }, () => {
+    const angle = rng.range(0, Math.PI * 2);
+    const r = Math.sqrt(rng.range(minRadius ** 2, maxRadius ** 2));
+    return { x: Math.cos(angle) * r, z: Math.sin(angle) * r, rng };
+  });
+}
+
+export function WaterPlane({ color = "#184c45", distortion = 0.12, speed = 0.35 }: { color?: string; distortion?: number; speed?: number }) {
+  const still = useReducedMotion();
+  const { waterSegments } = useRenderBudget();
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+      <planeGeometry args={[200, 200, waterSegments, waterSegments]} />
+      <MeshDistortMaterial color={color} distort={still ? 0 : distortion} speed={still ? 0 : speed} />
+    </mesh>
+  );
+}
+
+export function Starscape({ seed }: { seed: number }) {
+  const { starDensity } = useRenderBudget();
+  return <SeededStars seed={seed} radius={120} depth={50} count={Math.round(8000 * starDensity)} factor={3} fade speed={0.6} />;
+}
+
+const CRATER_TILT: Vec3 = [-Math.PI / 2, 0, 0];
+
+function SpaceSet({ seed }: SetProps) {
+  const craters = useMemo(
+    () =>
+      scatterPoints(seed, 40, 30, 3).map(({ x, z, rng }) => {
+        const r = rng.range(0.4, 1.8);
+        return { position: [x, 0.01, z] as Vec3, scale: [r, r, r] as Vec3 };
+      }),
+    [seed]
+  );
+  return (
+    <group>
+      <Starscape seed={seed} />
+      {/* A huge sphere whose crown is the ground: flat underfoot, curving away at the horizon. */}
+      <mesh position={[0, -60, 0]} receiveShadow>
+        <sphereGeometry args={[60, 128, 64]} />
+        <meshStandardMaterial color="#8f8f8f" roughness={1} metalness={0} />
+      </mesh>
+      <Scatter items={craters} castShadow={false} tilt={CRATER_TILT}>
+        <torusGeometry args={[1, 0.16, 6, 24]} />
+        <meshStandardMaterial color="#777" roughness={1} />
+      </Scatter>
+    </group>
+  );
+}
+
+function DesertSet({ seed }: SetProps) {
+  const height = useMemo(() => {
+    const noise = createNoise2D(seed);
+    return (x: number, z: number) => {
+      const dunes = Math.sin(x * 0.12 + fbm(noise, x * 0.03, z * 0.03, 2) * 3) * 1.6 + fbm(noise, x * 0.05, z * 0.05, 3) * 1.5;
+      return dunes * smoothstep(CLEARING, CLEARING * 3, Math.hypot(x, z));
+    };
+  }, [seed]);
+  return <Terrain height={height} color="#b48a55" />;
+}
+
+function SeaSet({ seed }: SetProps) {
+  const rocks = useMemo(
+    () =>
+      scatterPoints(seed, 6, 30, 12).map(({ x, z, rng }) => ({
+        position: [x, -0.2, z] as Vec3,
+        rotation: rng.range(0, Math.PI),
+        scale: [rng.range(0.6, 2), rng.range(0.4, 1.2), rng.range(0.6, 2)] as Vec3,
+      })),
+    [seed]
+  );
+  return (
+    <group>
+      <WaterPlane color="#0b3d3a" />
+      <Scatter items={rocks}>
+        <dodecahedronGeometry args={[1, 0]} />
+        <meshStandardMaterial color="#3b3b38" roughness={1} flatShading />
+      </Scatter>
+    </group>
+  );
+}
+
+function ForestSet({ seed }: SetProps) {
+  const trees = useMemo(
+    () =>
+      scatterPoints(seed, 140, 45).map(({ x, z, rng }) => {
+        const s = rng.range(0.8, 1.6);
+        return { position: [x, 0, z] as Vec3, rotation: rng.range(0, Math.PI * 2), scale: [s, s * rng.range(0.9, 1.4), s] as Vec3 };
+      }),
+    [seed]
+  );
+  const crowns = useMemo(() => trees.map((t) => ({ ...t, position: [t.position[0], 2.2 * t.scale[1], t.position[2]] as Vec3 })), [trees]);
+  const trunks = useMemo(() => trees.map((t) => ({ ...t, position: [t.position[0], 0.6 * t.scale[1], t.position[2]] as Vec3 })), [trees]);
+  return (
+    <group>
+      <Ground color="#1f2d1f" roughness={1} />
+      <Scatter items={trunks}>
+        <cylinderGeometry args={[0.12, 0.18, 1.2, 6]} />
+        <meshStandardMaterial color="#4a3423" roughness={1} />
+      </Scatter>
+      <Scatter items={crowns}>
+        <coneGeometry args={[0.9, 2.4, 7]} />
+        <meshStandardMaterial color="#254d2a" roughness={0.9} flatShading />
+      </Scatter>
+    </group>
+  );
+}
+
+function CitySet({ seed }: SetProps) {
+  const blocks = useMemo(() => {
+    const rng = createRandom(seed);
+    const out: Placement[] = [];
+    for (let gx = -5; gx <= 5; gx++) {
+      for (let gz = -6; gz <= 2; gz++) {
+        const x = gx * 4.5;
+        const z = gz * 4.5;
+        // Leave the avenue the camera looks down, and the plaza around the focal point.
+        if (Math.abs(x) < 3 || Math.hypot(x, z) < CLEARING + 1.5 || rng.next() < 0.15) continue;
+        const w = rng.range(2.4, 3.6);
+        const h = rng.range(2, 9) * (1 + Math.abs(gz) * 0.08);
+        out.push({ position: [x, h / 2, z], rotation: 0, scale: [w, h, rng.range(2.4, 3.6)] });
+      }
+    }
+    return out;
+  }, [seed]);
+  const roofs = useMemo(() => {
+    const rng = createRandom(seed + 1);
+    return blocks
+      .filter(() => rng.next() < 0.45)
+      .map((b) => ({ position: [b.position[0], b.scale[1] + 0.5, b.position[2]] as Vec3, rotation: Math.PI / 4, scale: [b.scale[0] * 0.72, 1, b.scale[2] * 0.72] as Vec3 }));
+  }, [blocks, seed]);
+  return (
+    <group>
+      <Ground color="#222" />
+      <Scatter items={blocks}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#3a3a40" roughness={0.85} />
+      </Scatter>
+      <Scatter items={roofs}>
+        <coneGeometry args={[1, 1, 4]} />
+        <meshStandardMaterial color="#2a2a2e" roughness={0.9} />
+      </Scatter>
+    </group>
+  );
+}
+
+function TundraSet({ seed }: SetProps) {
+  const height = useMemo(() => {
+    const noise = createNoise2D(seed);
+    return (x: number, z: number) => fbm(noise, x * 0.04, z * 0.04, 4) * 2.2 * smoothstep(CLEARING, CLEARING * 3, Math.hypot(x, z));
+  }, [seed]);
+  const ice = useMemo(
+    () =>
+      scatterPoints(seed + 7, 30, 35).map(({ x, z, rng }) => ({
+        position: [x, height(x, z), z] as Vec3,
+        rotation: rng.range(0, Math.PI),
+        scale: [rng.range(0.3, 1.2), rng.range(0.3, 1.6), rng.range(0.3, 1.2)] as Vec3,
+      })),
+    [seed, height]
+  );
+  return (
+    <group>
+      <Terrain height={height} color="#dfe6ef" roughness={0.7} />
+      <Scatter items={ice}>
+        <octahedronGeometry args={[1, 0]} />
+        <meshStandardMaterial color="#b9d3e6" roughness={0.3} flatShading />
+      </Scatter>
+    </group>
+  );
+}
+
+function MountainSet({ seed }: SetProps) {
+  const height = useMemo(() => {
+    const noise = createNoise2D(seed);
+    return (x: number, z: number) => {
+      const d = Math.hypot(x, z);
+      const ridges = 1 - Math.abs(fbm(noise, x * 0.025, z * 0.025, 5));
+      return ridges * ridges * 22 * smoothstep(CLEARING + 2, 45, d) + fbm(noise, x * 0.2, z * 0.2, 2) * 0.3 * smoothstep(CLEARING, CLEARING + 3, d);
+    };
+  }, [seed]);
+  return <Terrain height={height} color="#4a4f5c" segments={200} flatShading />;
+}
+
+function InteriorSet({ seed }: SetProps) {
+  const width = useMemo(() => createRandom(seed).range(9, 13), [seed]);
+  const height = 4.5;
+  const depth = 14;
+  const columns = useMemo(
+    () =>
+      [-1, 1].flatMap((side) =>
+        [0, 1, 2].map((i) => ({ position: [side * (width / 2 - 1), height / 2, -2 - i * 4] as Vec3, scale: [1, 1, 1] as Vec3 }))
+      ),
+    [width]
+  );
+  return (
+    <group>
+      <Ground color="#2a2420" roughness={0.8} />
+      <mesh position={[0, height / 2, -depth / 2 - 2]} receiveShadow>
+        <boxGeometry args={[width, height, 0.3]} />
+        <meshStandardMaterial color="#3d342b" roughness={1} />
+      </mesh>
+      {[-1, 1].map((side) => (
+        <mesh key={side} position={[side * width / 2, height / 2, -2]} receiveShadow>
+          <boxGeometry args={[0.3, height, depth + 4]} />
+          <meshStandardMaterial color="#352d25" roughness={1} />
+        </mesh>
+      ))}
+      <mesh position={[0, height, -2]} rotation={[Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[width, depth + 4]} />
+        <meshStandardMaterial color="#1e1a16" roughness={1} side={THREE.DoubleSide} />
+      </mesh>
+      <Scatter items={columns}>
+        <cylinderGeometry args={[0.35, 0.4, height, 12]} />
+        <meshStandardMaterial color="#4b4036" roughness={0.9} />
+      </Scatter>
+    </group>
+  );
+}
+
+function CeremonialSet({ seed }: SetProps) {
+  const pillars = useMemo(() => {
+    const rng = createRandom(seed);
+    const count = rng.int(8, 12);
+    return Array.from({ length: count }, (_, i) => {
+      const a = (i / count) * Math.PI * 2;
+      const h = rng.range(3, 4.5);
+      return { position: [Math.cos(a) * 8, h / 2, Math.sin(a) * 8 - 1] as Vec3, scale: [1, h, 1] as Vec3 };
+    });
+  }, [seed]);
+  return (
+    <group>
+      <Ground color="#33221b" />
+      <mesh position={[0, 0.05, -1]} receiveShadow>
+        <cylinderGeometry args={[9, 9.4, 0.1, 64]} />
+        <meshStandardMaterial color="#6b5a48" roughness={0.9} />
+      </mesh>
+      {[0, 1, 2].map((i) => (
+        <mesh key={i} position={[0, 0.1 + i * 0.12, -4.5 + i * 0.35]} receiveShadow castShadow>
+          <boxGeometry args={[5 - i * 0.8, 0.12, 2.2 - i * 0.5]} />
+          <meshStandardMaterial color="#7a6a58" roughness={0.9} />
+        </mesh>
+      ))}
+      <Scatter items={pillars}>
+        <boxGeometry args={[0.6, 1, 0.6]} />
+        <meshStandardMaterial color="#8c7b66" roughness={0.85} />
+      </Scatter>
+    </group>
+  );
+}
+
+function BattlefieldSet({ seed }: SetProps) {
+  const height = useMemo(() => {
+    const noise = createNoise2D(seed);
+    const rng = createRandom(seed);
+    const craters = Array.from({ length: 26 }, () => {
+      const a = rng.range(0, Math.PI * 2);
+      const r = rng.range(1.2, 3.5);
+      const d = rng.range(CLEARING + r * 1.4, 40);
+      return { x: Math.cos(a) * d, z: Math.sin(a) * d, r };
+    });
+    return (x: number, z: number) => {
+      let y = fbm(noise, x * 0.06, z * 0.06, 3) * 0.5 * smoothstep(CLEARING - 1, CLEARING + 2, Math.hypot(x, z));
+      for (const c of craters) {
+        // Bowl of depth 0.25r rising to a rim of 0.1r at the edge, then sloping back to grade.
+        const d = Math.hypot(x - c.x, z - c.z) / c.r;
+        if (d < 1) y += -0.25 * c.r * (1 - d * d) + 0.1 * c.r * d * d;
+        else if (d < 1.4) y += (0.1 * c.r * (1.4 - d)) / 0.4;
+      }
+      return y;
+    };
+  }, [seed]);
+  const debris = useMemo(
+    () =>
+      scatterPoints(seed + 3, 60, 30, 3).map(({ x, z, rng }) => ({
+        position: [x, height(x, z) + 0.1, z] as Vec3,
+        rotation: rng.range(0, Math.PI * 2),
+        scale: [rng.range(0.15, 0.9), rng.range(0.1, 0.4), rng.range(0.15, 0.6)] as Vec3,
+      })),
+    [seed, height]
+  );
+  const posts = useMemo(
+    () =>
+      scatterPoints(seed + 5, 14, 25).map(({ x, z, rng }) => {
+        const h = rng.range(0.6, 2.2);
+        return { position: [x, height(x, z) + h / 2, z] as Vec3, rotation: rng.range(0, Math.PI), scale: [1, h, 1] as Vec3 };
+      }),
+    [seed, height]
+  );
+  return (
+    <group>
+      <Terrain height={height} color="#2e2a24" />
+      <Scatter items={debris}>
+        <boxGeometry args={[1, 1, 1]} />
+        <meshStandardMaterial color="#3b362f" roughness={1} />
+      </Scatter>
+      <Scatter items={posts}>
+        <cylinderGeometry args={[0.08, 0.12, 1, 6]} />
+        <meshStandardMaterial color="#241b14" roughness={1} />
+      </Scatter>
+    </group>
+  );
+}
+
+const SETS: Record<EnvName, React.ComponentType<SetProps>> = {
+  space: SpaceSet,
+  desert: DesertSet,
+  sea: SeaSet,
+  forest: ForestSet,
+  city: CitySet,
+  tundra: TundraSet,
+  interior: InteriorSet,
+  mountain: MountainSet,
+  ceremonial: CeremonialSet,
+  battlefield: BattlefieldSet,
+};
+
+/** The procedural set for a scene's environment, seeded from the scene so replays match. */
+export function EnvironmentSet({ scene }: { scene: Scene }) {
+  const Set = SETS[scene.environment] ?? CitySet;
+  return <Set seed={hashString(`${scene.environment}:${scene.title}`)} />;
+}
@@ -0,0 +1,98 @@
+import React, { useId, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { Locale } from "@/lib/scene";
+import { searchPacks, type Era, type PackIndex, type PackResult } from "@/lib/packs";
+import { normalizeText } from "@/lib/text";
+
+export interface EventSearchProps {
+  value: string;
+  index: PackIndex;
+  locale: Locale;
+  placeholder: string;
+  label: string;
+  eras: Record<Era, string>;
+  onChange(value: string): void;
+  /** Enter, or picking a suggestion. */
+  onSubmit(eventName: string): void;
+}
+
+/** The event input, autocompleting against the content packs (ARIA combobox with a listbox popup). */
+export function EventSearch({ value, index, locale, placeholder, label, eras, onChange, onSubmit }: EventSearchProps) {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(-1);
+  const results = useMemo(() => searchPacks(index, value, { locale, limit: 6 }), [index, value, locale]);
+  const expanded = open && results.length > 0;
+
+  const choose = (result: PackResult) => {
+    onChange(result.label);
+    setOpen(false);
+    onSubmit(result.label);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (!results.length) return;
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setOpen(true);
+      // -1 is the typed text itself; the arrows cycle through it and the suggestions.
+      setHighlight((i) => (expanded ? ((i + 1 + step + results.length + 1) % (results.length + 1)) - 1 : step > 0 ? 0 : results.length - 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const result = expanded ? results[highlight] : undefined;
+      if (result) choose(result);
+      else {
+        setOpen(false);
+        onSubmit(value);
+      }
+    } else if (e.key === "Escape" && expanded) {
+      e.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        role="combobox"
+        aria-label={label}
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={expanded && results[highlight] ? `${listId}-${highlight}` : undefined}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlight(-1);
+        }}
+        onKeyDown={onKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className="bg-black/40 border-white/10"
+      />
+      {expanded && (
+        <ul id={listId} role="listbox" aria-label={label} className="absolute inset-x-0 top-full z-20 mt-1 overflow-hidden rounded-xl border border-white/10 bg-slate-900/95 py-1 text-sm shadow-xl backdrop-blur-md">
+          {results.map((result, i) => (
+            <li
+              key={result.pack.id}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === highlight}
+              className={`flex cursor-pointer items-baseline gap-2 px-3 py-1.5 ${i === highlight ? "bg-white/15" : "hover:bg-white/10"}`}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setHighlight(i)}
+              onClick={() => choose(result)}
+            >
+              <span className="text-white">{result.label}</span>
+              {normalizeText(result.matched) !== normalizeText(result.label) && <span className="text-slate-400">{result.matched}</span>}
+              {result.pack.era && <span className="ms-auto text-xs uppercase tracking-wider text-slate-500">{eras[result.pack.era]}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { useFrame, useThree } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import { X } from "lucide-react";
+import { exploreLimits, type ShotFocus } from "@/lib/camera";
+import { useReducedMotion } from "@/components/Accessibility";
+
+/** Who is pointing at what while the viewer explores; the keyword chips share it with the set. */
+export interface ExploreState {
+  /** The camera is the viewer's and props answer the pointer. */
+  active: boolean;
+  /** The prop under the pointer, or whose keyword chip is hovered. */
+  highlighted: string | null;
+  /** The prop whose note is open. */
+  selected: string | null;
+  onHover(id: string | null): void;
+  onSelect(id: string | null): void;
+}
+
+/**
+ * Orbit and zoom within exploreLimits while `enabled`; idle otherwise, so the camera rig has the camera.
+ * On taking over, it pivots around the point the shot was looking at, so the view doesn't jump.
+ */
+export function ExploreControls({ enabled, focus }: { enabled: boolean; focus: ShotFocus }) {
+  const controls = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const camera = useThree((s) => s.camera);
+  const reducedMotion = useReducedMotion();
+  const limits = useMemo(() => exploreLimits(focus), [focus]);
+
+  useEffect(() => {
+    const c = controls.current;
+    if (!c || !enabled) return;
+    const distance = camera.position.distanceTo(focus.center);
+    c.target.copy(camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(distance).add(camera.position));
+    c.update();
+  }, [enabled, focus, camera]);
+
+  return <OrbitControls ref={controls} enabled={enabled} enablePan={false} enableDamping={!reducedMotion} dampingFactor={0.08} rotateSpeed={0.6} {...limits} />;
+}
+
+/** A ring on the ground around a prop that is highlighted or has its note open. */
+export function PropHighlight({ radius, selected }: { radius: number; selected: boolean }) {
+  const ring = useRef<THREE.Mesh>(null);
+  const reducedMotion = useReducedMotion();
+  const r = Math.max(radius, 0.4);
+
+  useFrame(({ clock }) => {
+    if (!ring.current || reducedMotion) return;
+    ring.current.scale.setScalar(1 + 0.06 * Math.sin(clock.elapsedTime * 4));
+  });
+
+  return (
+    <mesh ref={ring} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]}>
+      <ringGeometry args={[r * 1.05, r * (selected ? 1.22 : 1.14), 48]} />
+      <meshBasicMaterial color={selected ? "#fbbf24" : "#fde68a"} transparent opacity={selected ? 0.9 : 0.6} toneMapped={false} depthWrite={false} />
+    </mesh>
+  );
+}
+
+export interface AnnotationLabels {
+  close: string;
+}
+
+/** The note for a picked prop, over the stage's top-start corner. */
+export function AnnotationCard({ title, text, labels, onClose }: { title: string; text: string; labels: AnnotationLabels; onClose(): void }) {
+  return (
+    <div role="dialog" aria-label={title} className="absolute top-3 start-3 max-w-xs rounded-xl border border-white/15 bg-black/75 p-3 text-sm text-slate-200 shadow-xl backdrop-blur">
+      <div className="mb-1 flex items-start justify-between gap-3">
+        <h4 className="font-semibold text-amber-200">{title}</h4>
+        <button type="button" className="rounded p-0.5 text-slate-400 hover:text-white focus-visible:outline-2 focus-visible:outline-white" aria-label={labels.close} title={labels.close} onClick={onClose}>
+          <X className="h-4 w-4" aria-hidden />
+        </button>
+      </div>
+      <p className="leading-relaxed">{text}</p>
+    </div>
+  );
+}
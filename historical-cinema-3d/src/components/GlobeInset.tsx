@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { Line } from "@react-three/drei";
+import type { Locale } from "@/lib/scene";
+import { formatMessage } from "@/lib/i18n";
+import { greatCircle, latLonToUnit, placeLabel, type CelestialBody, type LocationMatch, type Place, type Vec3 } from "@/lib/gazetteer";
+
+const BODY_LOOK: Record<CelestialBody, { color: string; grid: string }> = {
+  earth: { color: "#1d4e89", grid: "#7dd3fc" },
+  moon: { color: "#8b8f97", grid: "#e5e7eb" },
+  mars: { color: "#9a3f1c", grid: "#fdba74" },
+};
+
+// Graticule every 30°, as line segments on a sphere slightly above the surface.
+const GRATICULE: Float32Array = (() => {
+  const points: number[] = [];
+  const push = (lat: number, lon: number) => points.push(...latLonToUnit(lat, lon).map((v) => v * 1.002));
+  for (let lat = -60; lat <= 60; lat += 30) {
+    for (let lon = -180; lon < 180; lon += 6) {
+      push(lat, lon);
+      push(lat, lon + 6);
+    }
+  }
+  for (let lon = -180; lon < 180; lon += 30) {
+    for (let lat = -90; lat < 90; lat += 6) {
+      push(lat, lon);
+      push(lat + 6, lon);
+    }
+  }
+  return new Float32Array(points);
+})();
+
+/** Turns the globe so (lat, lon) faces the camera with north up. */
+function facing(lat: number, lon: number): THREE.Quaternion {
+  return new THREE.Quaternion().setFromEuler(new THREE.Euler((lat * Math.PI) / 180, (-lon * Math.PI) / 180, 0, "XYZ"));
+}
+
+const hasCoordinates = (place: Place | null): place is Place & { lat: number; lon: number } => place?.lat !== undefined && place.lon !== undefined;
+
+function Globe({ place, previous, reducedMotion }: { place: Place | null; previous: Place | null; reducedMotion: boolean }) {
+  const group = useRef<THREE.Group>(null);
+  const invalidate = useThree((s) => s.invalidate);
+  const body = place?.body ?? "earth";
+  const look = BODY_LOOK[body];
+  const target = useMemo(() => (hasCoordinates(place) ? facing(place.lat, place.lon) : null), [place]);
+  const graticule = useMemo(() => new THREE.BufferGeometry().setAttribute("position", new THREE.BufferAttribute(GRATICULE, 3)), []);
+
+  // The route flown from the previous scene's place, when both are on this body.
+  const route = useMemo(() => {
+    if (!hasCoordinates(place) || !hasCoordinates(previous) || previous.body !== place.body || previous.id === place.id) return null;
+    const arc = greatCircle(latLonToUnit(previous.lat, previous.lon), latLonToUnit(place.lat, place.lon), 48);
+    return arc.map((p, i) => {
+      const lift = 1.01 + 0.12 * Math.sin((i / (arc.length - 1)) * Math.PI);
+      return p.map((v) => v * lift) as Vec3;
+    });
+  }, [place, previous]);
+
+  useEffect(() => {
+    if (target && reducedMotion) group.current?.quaternion.copy(target);
+    invalidate();
+  }, [target, reducedMotion, invalidate]);
+
+  useFrame((_, delta) => {
+    const g = group.current;
+    if (!g || !target) return;
+    if (g.quaternion.angleTo(target) < 0.001) return;
+    g.quaternion.slerp(target, reducedMotion ? 1 : 1 - Math.exp(-delta * 2.5));
+    invalidate();
+  });
+
+  return (
+    <group ref={group}>
+      <mesh>
+        <sphereGeometry args={[1, 48, 32]} />
+        <meshStandardMaterial color={look.color} roughness={0.9} />
+      </mesh>
+      <lineSegments geometry={graticule}>
+        <lineBasicMaterial color={look.grid} transparent opacity={0.25} />
+      </lineSegments>
+      {route && <Line points={route} color="#fbbf24" lineWidth={1.5} transparent opacity={0.8} />}
+      {hasCoordinates(place) && (
+        <mesh position={latLonToUnit(place.lat, place.lon).map((v) => v * 1.02) as Vec3}>
+          <sphereGeometry args={[0.045, 12, 8]} />
+          <meshBasicMaterial color="#fbbf24" />
+        </mesh>
+      )}
+      {place && !hasCoordinates(place) && (
+        // A whole body (e.g. "Low lunar orbit"): an orbit ring instead of a pin.
+        <mesh rotation={[Math.PI / 2.4, 0, 0]}>
+          <torusGeometry args={[1.25, 0.008, 6, 96]} />
+          <meshBasicMaterial color="#fbbf24" transparent opacity={0.7} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+export interface GlobeLabels {
+  /** "Map: {place}" */
+  map: string;
+  unplaced: string;
+}
+
+/**
+ * Corner mini-map: a small globe of the body the scene is on, turning to each scene's place as the show
+ * moves on, with the route from the previous one. Locations the gazetteer doesn't know are shown as such.
+ * Renders on demand, so it costs nothing while it stands still.
+ */
+export function GlobeInset({ match, locale, labels, reducedMotion }: { match: LocationMatch; locale: Locale; labels: GlobeLabels; reducedMotion: boolean }) {
+  const place = match.kind === "resolved" ? match.place : null;
+  const previous = useRef<Place | null>(null);
+  const last = useRef<Place | null>(null);
+  if (place && place !== last.current) {
+    previous.current = last.current;
+    last.current = place;
+  }
+  if (match.kind === "unresolved" && match.reason === "empty") return null;
+  const name = place ? placeLabel(place, locale) : labels.unplaced;
+
+  return (
+    <div role="img" aria-label={formatMessage(labels.map, { place: name }, locale)} className="pointer-events-none absolute bottom-3 end-3 flex w-28 flex-col items-center gap-1">
+      <div className={`h-24 w-24 overflow-hidden rounded-full bg-black/50 ring-1 ring-white/20 ${place ? "" : "opacity-50"}`}>
+        <Canvas frameloop="demand" dpr={[1, 2]} camera={{ position: [0, 0, 3.1], fov: 40 }} gl={{ alpha: true, antialias: true }}>
+          <ambientLight intensity={0.7} />
+          <directionalLight position={[2, 2, 4]} intensity={1.4} />
+          <Globe key={place?.body ?? "earth"} place={place} previous={previous.current} reducedMotion={reducedMotion} />
+        </Canvas>
+      </div>
+      <span className="max-w-full truncate rounded bg-black/60 px-1.5 text-[10px] text-slate-200" aria-hidden>
+        {name}
+      </span>
+    </div>
+  );
+}
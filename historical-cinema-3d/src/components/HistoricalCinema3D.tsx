@@ -1,270 +1,59 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import * as THREE from "three";
-import { Canvas, useFrame } from "@react-three/fiber";
-import { OrbitControls, Stars, Text as DreiText, Environment, Html, MeshDistortMaterial } from "@react-three/drei";
-import { EffectComposer, Bloom, Vignette, Noise, SMAA } from "@react-three/postprocessing";
-import { motion } from "framer-motion";
+import { Canvas } from "@react-three/fiber";
+import { Text as DreiText, Environment, Html } from "@react-three/drei";
+import { MotionConfig, motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
-import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Play, Pause, SkipBack, SkipForward, Volume2, Languages, Sparkles, Theater } from "lucide-react";
-
-export type EnvName =
-  | "space"
-  | "desert"
-  | "sea"
-  | "forest"
-  | "city"
-  | "tundra"
-  | "interior"
-  | "mountain"
-  | "ceremonial"
-  | "battlefield";
-
-export type CameraStyle =
-  | "dolly-in"
-  | "crane-up"
-  | "orbit-slow"
-  | "handheld"
-  | "locked-off"
-  | "push-pull";
-
-export interface Scene {
-  title: string;
-  timePeriod: string;
-  location: string;
-  oneLine: string;
-  narration: string;
-  visualKeywords: string[];
-  palette: string[];
-  environment: EnvName;
-  cameraStyle: CameraStyle;
-}
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Sparkles, Theater, Download, Film, FolderOpen, Link2, Pencil, Gauge, Orbit, GraduationCap } from "lucide-react";
 
-export type Locale = "en-US" | "es-ES";
-
-const T: Record<Locale, {
-  appTitle: string; appDescription: string; eventPlaceholder: string; beginButton: string; loadingText: string; of: string; returnButton: string; suggestedEventsTitle: string; worldWarII: string; ancientEgypt: string; moonLanding: string; autoplay: string; narration: string; quality: string;
-}> = {
-  "en-US": {
-    appTitle: "🏛️ Historical 3D Amphitheater",
-    appDescription:
-      "Enter an event and watch iconic moments unfold as immersive 3D dioramas with narration and cinematic effects.",
-    eventPlaceholder: "Enter historical event…",
-    beginButton: "Begin the chronicle",
-    loadingText: "Staging scene",
-    of: "of",
-    returnButton: "Return",
-    suggestedEventsTitle: "Notable events to explore:",
-    worldWarII: "World War II",
-    ancientEgypt: "Ancient Egypt",
-    moonLanding: "Moon Landing",
-    autoplay: "Autoplay",
-    narration: "Narration",
-    quality: "Quality",
-  },
-  "es-ES": {
-    appTitle: "🏛️ Anfiteatro 3D Histórico",
-    appDescription:
-      "Ingresa un evento y mira cómo se desarrollan momentos icónicos como dioramas 3D inmersivos con narración y efectos cinematográficos.",
-    eventPlaceholder: "Ingresa evento histórico…",
-    beginButton: "Comenzar la crónica",
-    loadingText: "Preparando escena",
-    of: "de",
-    returnButton: "Regresar",
-    suggestedEventsTitle: "Eventos notables para explorar:",
-    worldWarII: "Segunda Guerra Mundial",
-    ancientEgypt: "Antiguo Egipto",
-    moonLanding: "Alunizaje",
-    autoplay: "Auto-reproducir",
-    narration: "Narración",
-    quality: "Calidad",
-  },
-};
-
-export const SCENE_PROMPT_TEMPLATE: string = `You are a historical dramaturg and cinematic director.
-Given a historical event, produce 3 to 5 sequential scenes as JSON.
-Each scene must include: {title, timePeriod, location, oneLine, narration, visualKeywords, palette, environment, cameraStyle}.
-The visualKeywords should be concrete objects (e.g., pyramid, torchlight, moon dust, flags, uniforms), not abstract words.
-The environment is one of: [space, desert, sea, forest, city, tundra, interior, mountain, ceremonial, battlefield].
-The cameraStyle is one of: [dolly-in, crane-up, orbit-slow, handheld, locked-off, push-pull].
-Keep narration to 1–3 vivid sentences with sensory detail. Use simple, declarative language.`;
-
-function generateScenesLocally(eventName: string): Scene[] {
-  const e = (eventName || "").trim().toLowerCase();
-  if (e.includes("moon") || e.includes("apollo")) {
-    return [
-      {
-        title: "Trans-Earth Injection",
-        timePeriod: "July 1969",
-        location: "Low lunar orbit",
-        oneLine: "Command Module arcs behind a silent crescent.",
-        narration:
-          "The spacecraft glides over a silver limb as starlight needles the void. Radio static crackles like distant surf.",
-        visualKeywords: ["crescent moon", "command module", "starfield", "dark space"],
-        palette: ["#0b1220", "#d0d6e8", "#8aa2ff", "#ffffff"],
-        environment: "space",
-        cameraStyle: "orbit-slow",
-      },
-      {
-        title: "The Eagle Descends",
-        timePeriod: "July 20, 1969",
-        location: "Mare Tranquillitatis",
-        oneLine: "LM kicks up plumes as it hovers.",
-        narration:
-          "Dust blooms like slow-moving fog. Engines hiss against the emptiness, and the surface crawls closer.",
-        visualKeywords: ["lunar module", "dust plume", "surface craters", "harsh light"],
-        palette: ["#0b1220", "#c2b280", "#e0e0e0", "#ffffff"],
-        environment: "space",
-        cameraStyle: "dolly-in",
-      },
-      {
-        title: "Footprints",
-        timePeriod: "July 20, 1969",
-        location: "Tranquility Base",
-        oneLine: "Boot prints stitch the regolith.",
-        narration:
-          "A boot presses down and the gray soil keeps its memory. The flag stiffens and winks in the sun.",
-        visualKeywords: ["footprints", "American flag", "lander legs", "sun glare"],
-        palette: ["#1a1f2b", "#9a9a9a", "#d9d9d9", "#ff2e2e"],
-        environment: "space",
-        cameraStyle: "locked-off",
-      },
-    ];
-  }
-  if (e.includes("egypt")) {
-    return [
-      {
-        title: "Rising of the Pyramids",
-        timePeriod: "c. 2560 BCE",
-        location: "Giza Plateau",
-        oneLine: "Cut stones glow under copper sun.",
-        narration:
-          "Sand breathes heat. Ropes sing as blocks climb ramps; a thousand hands move in practiced rhythm.",
-        visualKeywords: ["pyramid", "ramp", "workers", "sand haze"],
-        palette: ["#a26a2b", "#f2d3a2", "#6e4b1f", "#ffffff"],
-        environment: "desert",
-        cameraStyle: "crane-up",
-      },
-      {
-        title: "Torchlit Corridor",
-        timePeriod: "Old Kingdom",
-        location: "Inner passage",
-        oneLine: "Hieroglyphs flicker alive.",
-        narration:
-          "Flame halos dance along carved gods. The air tastes like stone and resin.",
-        visualKeywords: ["torch", "hieroglyphs", "narrow hallway", "smoke"],
-        palette: ["#140c06", "#f7a531", "#8c5a12", "#e7e2d1"],
-        environment: "interior",
-        cameraStyle: "dolly-in",
-      },
-      {
-        title: "Solar Barge",
-        timePeriod: "Mythic time",
-        location: "Nile mirage",
-        oneLine: "A royal barge slides across gold.",
-        narration:
-          "River murmurs under reeds. Drums mark a steady heartbeat as sunlight scatters on ripples.",
-        visualKeywords: ["barge", "reeds", "sun glitter", "oars"],
-        palette: ["#184c45", "#efe3b0", "#b8882d", "#0b132b"],
-        environment: "sea",
-        cameraStyle: "orbit-slow",
-      },
-    ];
-  }
-  if (e.includes("world war") || e.includes("wwii") || e.includes("ww2")) {
-    return [
-      {
-        title: "Storming the Beach",
-        timePeriod: "June 6, 1944",
-        location: "Normandy",
-        oneLine: "Gray surf meets steel and grit.",
-        narration:
-          "Engines roar, then sudden shallows. The ramp slams; boots churn water and sand under a sky of smoke.",
-        visualKeywords: ["landing craft", "barriers", "smoke", "waves"],
-        palette: ["#2e3a45", "#9aa4ad", "#c9d1d5", "#2b2b2b"],
-        environment: "sea",
-        cameraStyle: "handheld",
-      },
-      {
-        title: "City in Blackout",
-        timePeriod: "1940",
-        location: "London",
-        oneLine: "Sirens over dark rooftops.",
-        narration:
-          "Windows go blind as the sky pulses with searchlights. The ground hums with distant thunder.",
-        visualKeywords: ["searchlights", "rooftops", "sirens", "sandbags"],
-        palette: ["#0b0f1a", "#e5e7eb", "#6b7280", "#111827"],
-        environment: "city",
-        cameraStyle: "orbit-slow",
-      },
-      {
-        title: "The Signatures",
-        timePeriod: "1945",
-        location: "Aboard the USS Missouri",
-        oneLine: "Pens press history into paper.",
-        narration:
-          "Coats rustle, cameras click, and the war finally exhales. Ink dries like a sunrise.",
-        visualKeywords: ["table", "documents", "medals", "flags"],
-        palette: ["#1f2937", "#9ca3af", "#d1d5db", "#e5e7eb"],
-        environment: "interior",
-        cameraStyle: "locked-off",
-      },
-    ];
-  }
-  return [
-    {
-      title: `Prologue of ${eventName}`,
-      timePeriod: "",
-      location: "",
-      oneLine: "A hush before history moves.",
-      narration:
-        "Crowds gather at the edge of change. Air tightens, breaths sync, and the first step arrives.",
-      visualKeywords: ["crowd", "banners", "wide plaza", "dawn light"],
-      palette: ["#0a0a0a", "#dddddd", "#9c27b0", "#00bcd4"],
-      environment: "city",
-      cameraStyle: "dolly-in",
-    },
-    {
-      title: `Turning Point of ${eventName}`,
-      timePeriod: "",
-      location: "",
-      oneLine: "Momentum finds its voice.",
-      narration: "The world leans forward; wheels, hooves, or engines catch and cascade into change.",
-      visualKeywords: ["movement", "flags", "smoke", "structures"],
-      palette: ["#101827", "#fbbf24", "#60a5fa", "#fca5a5"],
-      environment: "battlefield",
-      cameraStyle: "handheld",
-    },
-    {
-      title: `Epilogue of ${eventName}`,
-      timePeriod: "",
-      location: "",
-      oneLine: "What remains becomes memory.",
-      narration: "Footsteps fade; the air is different now. The scene keeps an imprint for those who return.",
-      visualKeywords: ["empty street", "paper debris", "sunset", "shadows"],
-      palette: ["#111827", "#e5e7eb", "#f59e0b", "#ef4444"],
-      environment: "city",
-      cameraStyle: "orbit-slow",
-    },
-  ];
-}
+import type { Locale, Scene } from "@/lib/scene";
+import { createSceneProvider, isAbortError, localProvider } from "@/lib/providers";
+import type { SceneDiagnostic } from "@/lib/validate";
+import { Ground } from "@/components/EnvironmentSets";
+import { derivePaletteTheme } from "@/lib/palette";
+import { SceneStage } from "@/components/Stage";
+import { AnnotationCard, type ExploreState } from "@/components/Explore";
+import { isHotspot, keywordProps } from "@/lib/props";
+import { QuizPanel, quizCSV } from "@/components/Quiz";
+import { HistoricityBadge, SourcesPanel } from "@/components/Sources";
+import { toBibliography, toBibTeX } from "@/lib/sources";
+import { QUIZ_TIMINGS, generateQuiz, questionsDue, scoreQuiz, type QuizResponse, type QuizTiming } from "@/lib/quiz";
+import { TransitionOverlay, useSceneTransition } from "@/components/Transitions";
+import { KaraokeText, useNarrationPacing } from "@/components/Narration";
+import { buildCues, planTimings, toMarkdown, toSRT, toWebVTT } from "@/lib/captions";
+import { downloadFile } from "@/lib/download";
+import { slugify } from "@/lib/text";
+import { ChronicleRenderer, type RenderJob, type RenderProgress } from "@/components/OfflineRender";
+import { DEFAULT_RENDER_SETTINGS, type RenderFormat } from "@/lib/render";
+import { CHRONICLE_EXTENSION, ChronicleError, createChronicle, readChronicleFile, serializeChronicle, type Chronicle, type ChronicleMeta } from "@/lib/chronicle";
+import { SceneEditor } from "@/components/SceneEditor";
+import { LocalePicker, useMessages } from "@/components/I18n";
+import { EventSearch } from "@/components/EventSearch";
+import { suggestPacks } from "@/lib/packs";
+import { BUILTIN_GAZETTEER, BUILTIN_PACKS } from "@/content";
+import { LibraryPanel, useLibrary } from "@/components/Library";
+import { TimelineScrubber } from "@/components/Timeline";
+import { sceneDate } from "@/lib/dates";
+import { GlobeInset } from "@/components/GlobeInset";
+import { locationDiagnostics, resolveSceneLocation } from "@/lib/gazetteer";
+import { exportLibrary, type LibraryEntry } from "@/lib/library";
+import { LiveAnnouncer, SHORTCUT_KEYS, usePlayerShortcuts, usePrefersReducedMotion } from "@/components/Accessibility";
+import { PerformanceGovernor, PerformanceOverlay, RenderBudgetContext } from "@/components/Performance";
+import { MAX_TIER, RENDER_BUDGETS, type QualitySetting, type QualityTier } from "@/lib/performance";
+import { useAmbience } from "@/components/Ambience";
+import { volumeGain } from "@/lib/ambience";
+import { DEFAULT_LOCALE, localizeScene } from "@/lib/i18n";
+import { blankScene } from "@/lib/editor";
+import { LONG_SHARE_URL, PLAYER_URL_DEFAULTS, decodeDeckFragment, encodeDeckFragment, formatPlayerQuery, parsePlayerQuery, type PlayerUrlState } from "@/lib/share";
 
-function speak(text: string | undefined, enabled: boolean, lang: Locale = "en-US") {
-  if (!enabled || typeof window === "undefined" || !(window as any).speechSynthesis) return;
-  try {
-    (window as any).speechSynthesis.cancel();
-    const u = new (window as any).SpeechSynthesisUtterance(text ?? "");
-    u.lang = lang;
-    u.rate = 1.0;
-    u.pitch = 1.0;
-    (window as any).speechSynthesis.speak(u);
-  } catch {}
-}
+export type { EnvName, CameraStyle, Scene, Locale } from "@/lib/scene";
+export { SCENE_PROMPT_TEMPLATE } from "@/lib/providers";
+
+const sceneProvider = createSceneProvider();
 
 function KeyLights({ intensity = 1 }: { intensity?: number }) {
   return (
@@ -277,178 +66,6 @@ function KeyLights({ intensity = 1 }: { intensity?: number }) {
   );
 }
 
-function Ground({ color = "#111", roughness = 0.9 }: { color?: string; roughness?: number }) {
-  return (
-    <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
-      <planeGeometry args={[150, 150, 1, 1]} />
-      <meshStandardMaterial color={color} roughness={roughness} />
-    </mesh>
-  );
-}
-
-function Pyramid({ position = [0, 0, 0], color = "#c2a878", scale = 3 }: { position?: [number, number, number]; color?: string; scale?: number }) {
-  return (
-    <mesh position={position} castShadow receiveShadow scale={scale}>
-      <coneGeometry args={[1, 1, 4]} />
-      <meshStandardMaterial color={color} roughness={0.8} metalness={0.1} />
-    </mesh>
-  );
-}
-
-function Flag({ position = [0, 0, 0], color = "#ffffff" }: { position?: [number, number, number]; color?: string }) {
-  const t = useRef(0);
-  const flag = useRef<THREE.Mesh | null>(null);
-  useFrame((_, dt) => {
-    t.current = (t.current ?? 0) + dt;
-    if (flag.current) flag.current.position.x = position[0] + Math.sin((t.current as number) * 2) * 0.1;
-  });
-  return (
-    <group>
-      <mesh position={position} castShadow>
-        <cylinderGeometry args={[0.03, 0.03, 2, 16]} />
-        <meshStandardMaterial color="#888" />
-      </mesh>
-      <mesh ref={flag} position={[position[0] + 0.6, position[1] + 0.7, position[2]]} castShadow>
-        <planeGeometry args={[1.2, 0.6, 10, 5]} />
-        <meshStandardMaterial color={color} side={2} />
-      </mesh>
-    </group>
-  );
-}
-
-function Footprints({ count = 8, start = [0, 0.002, -3], dir = [0.6, 0, 0.9] }: { count?: number; start?: [number, number, number]; dir?: [number, number, number] }) {
-  const items = Array.from({ length: count });
-  return (
-    <group>
-      {items.map((_, i) => (
-        <mesh key={i} position={[start[0] + dir[0] * i, start[1], start[2] + dir[2] * i]} rotation={[-Math.PI / 2, 0, 0]}>
-          <ringGeometry args={[0.08, 0.12, 24]} />
-          <meshStandardMaterial color="#777" roughness={1} />
-        </mesh>
-      ))}
-    </group>
-  );
-}
-
-function WaterPlane({ color = "#184c45", distortion = 0.12, speed = 0.35 }: { color?: string; distortion?: number; speed?: number }) {
-  return (
-    <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
-      <planeGeometry args={[200, 200, 256, 256]} />
-      <MeshDistortMaterial color={color} distort={distortion} speed={speed} />
-    </mesh>
-  );
-}
-
-function Starscape() {
-  return <Stars radius={120} depth={50} count={8000} factor={3} fade speed={0.6} />;
-}
-
-function CameraRig({ mode = "orbit-slow" as CameraStyle }: { mode?: CameraStyle }) {
-  useFrame((state) => {
-    const t = state.clock.getElapsedTime();
-    const k = 0.5;
-    const cam = state.camera;
-    switch (mode) {
-      case "dolly-in":
-        cam.position.lerp(new THREE.Vector3(0, 1.5, 4 + Math.cos(t * 0.25) * 0.4), k * 0.02);
-        break;
-      case "crane-up":
-        cam.position.lerp(new THREE.Vector3(0.6 * Math.sin(t * 0.3), 2 + Math.sin(t * 0.15), 6), k * 0.02);
-        break;
-      case "handheld":
-        cam.position.x += (Math.random() - 0.5) * 0.01;
-        cam.position.y += (Math.random() - 0.5) * 0.01;
-        cam.rotation.z += (Math.random() - 0.5) * 0.002;
-        break;
-      case "locked-off":
-        cam.position.lerp(new THREE.Vector3(0, 1.6, 6), k * 0.05);
-        cam.lookAt(0, 1, 0);
-        break;
-      case "orbit-slow":
-      default:
-        cam.position.x = Math.sin(t * 0.1) * 6;
-        cam.position.z = Math.cos(t * 0.1) * 6;
-        cam.position.y = 2;
-        cam.lookAt(0, 1.2, 0);
-        break;
-    }
-  });
-  return null;
-}
-
-function Diorama({ scene }: { scene: Scene }) {
-  const base: Record<EnvName, { ground: string }> = useMemo(
-    () => ({
-      space: { ground: "#1b2333" },
-      desert: { ground: "#4d3b22" },
-      city: { ground: "#222" },
-      interior: { ground: "#222" },
-      battlefield: { ground: "#2a2a2a" },
-      sea: { ground: "#0b3d3a" },
-      forest: { ground: "#1f2d1f" },
-      tundra: { ground: "#dfe6ef" },
-      mountain: { ground: "#2b2f3a" },
-      ceremonial: { ground: "#33221b" },
-    }),
-    []
-  );
-  const groundColor = base[scene.environment].ground;
-  return (
-    <group>
-      {scene.environment === "space" && <Starscape />}
-      {scene.environment !== "space" && <Environment preset="sunset" />}
-      {scene.environment === "sea" ? (
-        <WaterPlane color={groundColor} />
-      ) : (
-        <Ground color={groundColor} />
-      )}
-      {scene.visualKeywords?.includes("pyramid") && <Pyramid position={[0, 0.5, -1]} />}
-      {scene.visualKeywords?.includes("flag") && <Flag position={[1.5, 1, -0.5]} color="#ff2e2e" />}
-      {scene.visualKeywords?.includes("footprints") && <Footprints />}
-      {scene.environment === "space" && (
-        <mesh position={[0, 0.2, 0]} rotation={[0, Math.PI * 0.25, 0]} castShadow receiveShadow>
-          <sphereGeometry args={[2, 64, 64]} />
-          <meshStandardMaterial color="#8f8f8f" roughness={1} metalness={0} />
-        </mesh>
-      )}
-      <DreiText
-        position={[0, 2.6, 0]}
-        fontSize={0.34}
-        color={scene.palette?.[3] || "#fff"}
-        anchorX="center"
-        anchorY="middle"
-        outlineWidth={0.006}
-        outlineColor="#000"
-      >
-        {scene.title}
-      </DreiText>
-    </group>
-  );
-}
-
-function PostFX({ quality = 1 as 0 | 1 | 2 }: { quality?: 0 | 1 | 2 }) {
-  return (
-    <EffectComposer multisampling={Math.max(0, Math.floor(2 * quality))}>
-      <SMAA />
-      <Bloom intensity={0.6 + 0.6 * quality} luminanceThreshold={0.2} luminanceSmoothing={0.8} height={480} />
-      <Vignette eskil offset={0.3} darkness={0.7} />
-      <Noise premultiply opacity={0.05} />
-    </EffectComposer>
-  );
-}
-
-function SceneStage({ scene, cameraStyle, quality }: { scene: Scene; cameraStyle: CameraStyle; quality: 0 | 1 | 2 }) {
-  return (
-    <>
-      <KeyLights intensity={quality === 0 ? 0.7 : 1} />
-      <Diorama scene={scene} />
-      <CameraRig mode={cameraStyle} />
-      <PostFX quality={quality} />
-      <OrbitControls enablePan={false} enableZoom={false} enableRotate={false} />
-    </>
-  );
-}
-
 function LoaderOverlay({ label }: { label: string }) {
   return (
     <Html center>
@@ -460,249 +77,950 @@ function LoaderOverlay({ label }: { label: string }) {
 }
 
 export default function HistoricalCinema3D() {
-  const [locale, setLocale] = useState<Locale>("en-US");
-  const t = T[locale];
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const { t, dir, format } = useMessages(locale);
   const [eventName, setEventName] = useState<string>("");
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [active, setActive] = useState<number>(0);
   const [playing, setPlaying] = useState<boolean>(false);
   const [autoplay, setAutoplay] = useState<boolean>(true);
   const [narration, setNarration] = useState<boolean>(true);
-  const [quality, setQuality] = useState<0 | 1 | 2>(1);
+  const [volume, setVolume] = useState<number>(PLAYER_URL_DEFAULTS.volume);
+  const [ambienceVolume, setAmbienceVolume] = useState<number>(PLAYER_URL_DEFAULTS.ambience);
+  const [voiceVolume, setVoiceVolume] = useState<number>(PLAYER_URL_DEFAULTS.voiceVolume);
+  const [quality, setQuality] = useState<QualitySetting>(PLAYER_URL_DEFAULTS.quality);
+  // The tier "auto" quality has settled on, and the measured frame rate behind it.
+  const [autoTier, setAutoTier] = useState<QualityTier>(1);
+  const [fps, setFps] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState<boolean>(false);
+  const tier: QualityTier = quality === "auto" ? autoTier : quality;
+  const budget = RENDER_BUDGETS[tier];
   const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<SceneDiagnostic[]>([]);
+  // What the current deck is and where it came from; saved with it as a chronicle.
+  const [deckInfo, setDeckInfo] = useState<{ eventName: string; locale: Locale; meta: ChronicleMeta }>({ eventName: "", locale: DEFAULT_LOCALE, meta: {} });
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [editing, setEditing] = useState<boolean>(false);
+  // Explore mode: the viewer has the camera and the set's props open notes. Entering pauses the show.
+  const [exploring, setExploring] = useState<boolean>(false);
+  const [hoveredProp, setHoveredProp] = useState<string | null>(null);
+  const [selectedProp, setSelectedProp] = useState<string | null>(null);
+  const resumeAfterExplore = useRef<boolean>(false);
+  // Classroom quiz: when autoplay stops for it, the questions on screen, and every answer so far for this deck.
+  const [quizTiming, setQuizTiming] = useState<QuizTiming>("off");
+  const [quizRun, setQuizRun] = useState<{ ids: string[]; resume: boolean; started: number } | null>(null);
+  const [quizAnswers, setQuizAnswers] = useState<Record<string, QuizResponse>>({});
+  // Follows the system setting until the viewer picks one.
+  const systemReducedMotion = usePrefersReducedMotion();
+  const [reduceMotionChoice, setReduceMotion] = useState<boolean | null>(null);
+  const reducedMotion = reduceMotionChoice ?? systemReducedMotion;
+  const [announcement, setAnnouncement] = useState<string>("");
+  const library = useLibrary((e) => setNotice(e.kind === "quota" ? t.library.quotaError : t.library.saveError));
+  // The library entry the current deck is saved as; null until its first save.
+  const libraryId = useRef<string | null>(null);
+  // The scene on screen, for library saves that fire after a delay.
+  const activeNow = useRef(active);
+  activeNow.current = active;
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  // How long each scene actually played under autoplay; exports prefer these over estimates.
+  const playedMs = useRef<number[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [renderJob, setRenderJob] = useState<RenderJob | null>(null);
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  // The "deck=…" fragment when the deck travels in the URL (opened from, or copied as, a deck link).
+  const [deckHash, setDeckHash] = useState<string | null>(null);
+  // URL sync: writes wait until the initial URL has been read, and while a linked scene is still streaming in.
+  const urlReady = useRef<boolean>(false);
+  const pendingScene = useRef<number | null>(null);
+  // Autoplay steps replace the history entry; manual scene changes push one, so back/forward walk them.
+  const autoAdvanced = useRef<boolean>(false);
+  // The deck as read in the current locale: translated text where the scenes have it.
+  const localized = useMemo(() => scenes.map((scene) => localizeScene(scene, locale, deckInfo.locale)), [scenes, locale, deckInfo.locale]);
+  const sceneDates = useMemo(() => scenes.map(sceneDate), [scenes]);
+  const quiz = useMemo(() => generateQuiz(localized, { seed: deckInfo.eventName, dates: sceneDates }), [localized, sceneDates, deckInfo.eventName]);
+  const quizScore = scoreQuiz(quiz, quizAnswers);
+  const { shown, fx } = useSceneTransition(active, scenes, () => {
+    try {
+      return canvasRef.current?.toDataURL("image/jpeg", 0.85) ?? null;
+    } catch {
+      return null;
+    }
+  });
 
   useEffect(() => {
-    return () => {
-      try {
-        (window as any).speechSynthesis?.cancel();
-      } catch {}
-    };
+    return () => requestRef.current?.abort();
   }, []);
 
-  async function startShow(evtName?: string) {
+  function cancelShow() {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    pendingScene.current = null;
+    setLoading(false);
+  }
+
+  /** Generates and plays `evtName`; `scene` is where to start once that many scenes have streamed in. */
+  async function startShow(evtName?: string, lang: Locale = locale, scene = 0) {
     const name = (evtName ?? eventName).trim();
     if (!name) return;
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    pendingScene.current = scene > 0 ? scene : null;
     setLoading(true);
+    setError(null);
+    setNotice(null);
+    setDiagnostics([]);
+    setScenes([]);
+    setActive(0);
+    setPlaying(false);
+    setDeckHash(null);
+    setDeckInfo({ eventName: name, locale: lang, meta: { generator: sceneProvider.id } });
+    libraryId.current = null;
+    playedMs.current = [];
+    let count = 0;
     try {
-      const local = generateScenesLocally(name);
-      setScenes(local);
-      setActive(0);
-      setPlaying(true);
-      speak(local[0]?.narration, narration, locale);
+      const stream = sceneProvider.stream(
+        { eventName: name, locale: lang },
+        {
+          signal: controller.signal,
+          onFallback: () => {
+            setNotice(t.fallbackNotice);
+            setDeckInfo((d) => ({ ...d, meta: { ...d.meta, generator: localProvider.id } }));
+          },
+          onDiagnostics: (found) => setDiagnostics((prev) => [...prev, ...found]),
+        }
+      );
+      for await (const scene of stream) {
+        if (controller.signal.aborted) break;
+        if (count++ === 0) {
+          setScenes([scene]);
+          setActive(0);
+          setPlaying(true);
+        } else {
+          setScenes((prev) => [...prev, scene]);
+        }
+      }
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Failed to generate scenes. Try another event.");
+      setError(count > 0 ? t.partialError : t.generateError);
     } finally {
-      setLoading(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        if (!count) pendingScene.current = null;
+        setLoading(false);
+      }
+    }
+  }
+
+  const { wordIndex, speaking } = useNarrationPacing({
+    scene: scenes[active],
+    text: localized[active]?.narration ?? "",
+    index: active,
+    playing,
+    autoplay,
+    voice: narration,
+    volume: volumeGain(volume) * volumeGain(voiceVolume),
+    locale,
+    canAdvance: scenes.length > 1 && (!loading || active < scenes.length - 1),
+    onAdvance: (ms) => {
+      playedMs.current[active] = ms;
+      const due = questionsDue(quiz, quizTiming, active, scenes.length).filter((q) => quizAnswers[q.id] === undefined);
+      if (due.length) {
+        setPlaying(false);
+        setQuizRun({ ids: due.map((q) => q.id), resume: active < scenes.length - 1, started: Date.now() });
+        return;
+      }
+      autoAdvanced.current = true;
+      setActive((i) => (i + 1) % scenes.length);
+    },
+  });
+
+  function loadChronicle(chronicle: Chronicle, found: SceneDiagnostic[], name: string, scene = 0, hash: string | null = null) {
+    cancelShow();
+    setLocale(chronicle.locale);
+    setEventName(name);
+    setDeckInfo({ eventName: name, locale: chronicle.locale, meta: chronicle.meta });
+    setDeckHash(hash);
+    setScenes(chronicle.scenes);
+    setActive(Math.min(scene, chronicle.scenes.length - 1));
+    setError(null);
+    setNotice(null);
+    setDiagnostics(found);
+    libraryId.current = null;
+    playedMs.current = [];
+    setPlaying(true);
+  }
+
+  function openFromLibrary(entry: LibraryEntry, resume: boolean) {
+    loadChronicle(entry.chronicle, [], entry.chronicle.eventName, resume ? entry.lastScene : 0);
+    libraryId.current = entry.id;
+  }
+
+  // Chronicle errors carry a catalog key; anything else only has the browser's own message.
+  const errorText = (e: unknown) => (e instanceof ChronicleError ? format(t.chronicleErrors[e.code], e.values) : (e as Error).message);
+
+  async function openChronicle(file: File) {
+    try {
+      const { chronicle, diagnostics: found } = await readChronicleFile(file);
+      loadChronicle(chronicle, found, chronicle.eventName || file.name.replace(/(\.chronicle)?\.json$/i, ""));
+    } catch (e) {
+      setNotice(`${t.openError} ${errorText(e)}`);
     }
   }
 
+  function openEditor() {
+    setPlaying(false);
+    setEditing(true);
+    if (scenes.length) return;
+    const name = eventName.trim() || t.untitled;
+    setEventName(name);
+    setDeckInfo({ eventName: name, locale, meta: { generator: "hand-authored" } });
+    setDeckHash(null);
+    setScenes([blankScene(format(t.editor.newScene, { number: 1 }))]);
+    setActive(0);
+    libraryId.current = null;
+  }
+
+  function applyEdit(next: Scene[], nextActive: number) {
+    setScenes(next);
+    setActive(nextActive);
+    // Timings and any deck link describe the deck as it was before the edit.
+    playedMs.current = [];
+    setDeckHash(null);
+  }
+
+  const urlState: PlayerUrlState = { event: deckInfo.eventName, scene: active, locale, quality, autoplay, narration, volume, ambience: ambienceVolume, voiceVolume };
+
+  function playerUrl(hash: string | null) {
+    return location.pathname + formatPlayerQuery(urlState) + (hash ? `#${hash}` : "");
+  }
+
+  /** Brings the player in line with the address bar: on load, and on back/forward. */
+  async function restoreFromUrl() {
+    const state = { ...PLAYER_URL_DEFAULTS, ...parsePlayerQuery(location.search) };
+    setLocale(state.locale);
+    setQuality(state.quality);
+    setAutoplay(state.autoplay);
+    setNarration(state.narration);
+    setVolume(state.volume);
+    setAmbienceVolume(state.ambience);
+    setVoiceVolume(state.voiceVolume);
+    const hash = location.hash.slice(1);
+    if (hash && hash === deckHash) return setActive(Math.min(state.scene, Math.max(0, scenes.length - 1)));
+    try {
+      const shared = await decodeDeckFragment(hash);
+      if (shared) return loadChronicle(shared.chronicle, shared.diagnostics, shared.chronicle.eventName || state.event, state.scene, hash);
+    } catch (e) {
+      setNotice(`${t.deckLinkError} ${errorText(e)}`);
+    }
+    if (state.event && state.event === deckInfo.eventName && scenes.length && !deckHash) {
+      setActive(Math.min(state.scene, scenes.length - 1));
+    } else if (state.event) {
+      setEventName(state.event);
+      startShow(state.event, state.locale, state.scene);
+    } else if (deckInfo.eventName) {
+      cancelShow();
+      setScenes([]);
+      setActive(0);
+      setPlaying(false);
+      setDeckHash(null);
+      setDeckInfo({ eventName: "", locale: state.locale, meta: {} });
+    }
+  }
+
+  const restoreRef = useRef(restoreFromUrl);
+  restoreRef.current = restoreFromUrl;
+
+  useEffect(() => {
+    restoreRef.current().finally(() => (urlReady.current = true));
+    const onPopState = () => restoreRef.current();
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  // Declared before the pending-scene effect so that, in the commit that applies a linked scene, it still skips.
   useEffect(() => {
-    if (!playing || !autoplay || scenes.length === 0) return;
-    const handle = window.setInterval(() => {
-      setActive((i) => {
-        const next = (i + 1) % scenes.length;
-        speak(scenes[next]?.narration, narration, locale);
-        return next;
-      });
-    }, 6800);
-    return () => window.clearInterval(handle);
-  }, [playing, autoplay, scenes, narration, locale]);
-
-  const currentScene = scenes[active];
+    if (!urlReady.current || pendingScene.current !== null) return;
+    const url = playerUrl(deckHash);
+    if (url === location.pathname + location.search + location.hash) return;
+    const previous = { ...PLAYER_URL_DEFAULTS, ...parsePlayerQuery(location.search) };
+    const navigated = previous.event !== urlState.event || (previous.scene !== active && !autoAdvanced.current);
+    autoAdvanced.current = false;
+    if (navigated) history.pushState(null, "", url);
+    else history.replaceState(null, "", url);
+  }, [deckInfo.eventName, active, locale, quality, autoplay, narration, volume, ambienceVolume, voiceVolume, deckHash]);
+
+  useEffect(() => {
+    const target = pendingScene.current;
+    if (target === null || (scenes.length <= target && (loading || !scenes.length))) return;
+    pendingScene.current = null;
+    setActive(Math.min(target, scenes.length - 1));
+  }, [scenes.length, loading]);
+
+  // Every finished, opened or edited deck goes into the library, along with the scene it is on then.
+  useEffect(() => {
+    if (loading || !scenes.length) return;
+    const handle = window.setTimeout(() => {
+      libraryId.current = library.save(libraryId.current, createChronicle(deckInfo.eventName, deckInfo.locale, scenes, deckInfo.meta), activeNow.current);
+    }, 500);
+    return () => window.clearTimeout(handle);
+  }, [scenes, deckInfo, loading]);
+
+  // Moving between scenes only updates where to resume; the deck itself is saved above.
+  useEffect(() => {
+    if (loading || !libraryId.current) return;
+    const id = libraryId.current;
+    const handle = window.setTimeout(() => library.setLastScene(id, active), 500);
+    return () => window.clearTimeout(handle);
+  }, [active, loading]);
+
+  async function copyShareLink(withDeck: boolean) {
+    try {
+      const hash = withDeck ? await encodeDeckFragment(createChronicle(deckInfo.eventName, deckInfo.locale, scenes, deckInfo.meta)) : deckHash;
+      const url = location.origin + playerUrl(hash);
+      await navigator.clipboard.writeText(url);
+      if (withDeck) setDeckHash(hash);
+      setNotice(url.length > LONG_SHARE_URL ? t.linkLong : t.linkCopied);
+    } catch (e) {
+      console.error(e);
+      setNotice(t.shareError);
+    }
+  }
+
+  function exportChronicle() {
+    const chronicle = createChronicle(deckInfo.eventName, deckInfo.locale, scenes, deckInfo.meta);
+    downloadFile(slugify(deckInfo.eventName) + CHRONICLE_EXTENSION, serializeChronicle(chronicle), "application/json");
+  }
+
+  function startRender(format: RenderFormat) {
+    setPlaying(false);
+    setNotice(null);
+    setRenderProgress(null);
+    setRenderJob({ scenes, locale, deckLocale: deckInfo.locale, title: deckInfo.eventName, quality: quality === "auto" ? MAX_TIER : quality, settings: { ...DEFAULT_RENDER_SETTINGS, format }, labels: { scene: t.scene } });
+  }
+
+  function exportCaptions(format: "vtt" | "srt" | "md") {
+    const timings = planTimings(localized, locale, playedMs.current);
+    const labels = { scene: t.scene, timePeriod: t.timePeriod, location: t.location, startsAt: t.startsAt };
+    const base = slugify(deckInfo.eventName);
+    if (format === "md") return downloadFile(`${base}.md`, toMarkdown(localized, { title: deckInfo.eventName, labels, timings }), "text/markdown;charset=utf-8");
+    const cues = buildCues(localized, timings, locale);
+    if (format === "srt") return downloadFile(`${base}.${locale}.srt`, toSRT(cues), "application/x-subrip;charset=utf-8");
+    downloadFile(`${base}.${locale}.vtt`, toWebVTT(cues, { title: deckInfo.eventName, locale, scenes: localized, labels }), "text/vtt;charset=utf-8");
+  }
+
+  function exportBibliography(kind: "md" | "bib") {
+    const base = `${slugify(deckInfo.eventName)}-bibliography`;
+    if (kind === "bib") return downloadFile(`${base}.bib`, toBibTeX(localized, locale), "application/x-bibtex;charset=utf-8");
+    const labels = { ...t.sources, scene: t.scene };
+    downloadFile(`${base}.md`, toBibliography(localized, { title: format(t.sources.exportTitle, { event: deckInfo.eventName }), locale, labels }), "text/markdown;charset=utf-8");
+  }
+
+  useEffect(() => {
+    const scene = localized[active];
+    if (scene) setAnnouncement(format(t.sceneAnnouncement, { current: active + 1, total: scenes.length, title: scene.title }));
+  }, [active, scenes.length > 0]);
+
+  function step(by: number) {
+    if (scenes.length) setActive((i) => (i + by + scenes.length) % scenes.length);
+  }
+
+  function toggleExplore(on = !exploring) {
+    if (on === exploring || (on && !scenes.length)) return;
+    if (on) {
+      resumeAfterExplore.current = playing;
+      setPlaying(false);
+    } else {
+      setSelectedProp(null);
+      if (resumeAfterExplore.current) setPlaying(true);
+    }
+    setExploring(on);
+  }
+
+  function openQuiz(retake = false) {
+    const ids = quiz.filter((q) => retake || quizAnswers[q.id] === undefined).map((q) => q.id);
+    if (retake) setQuizAnswers({});
+    setPlaying(false);
+    setExploring(false);
+    setQuizRun({ ids, resume: false, started: Date.now() });
+  }
+
+  // Back into the show after a between-scenes quiz, on to the next scene.
+  function continueAfterQuiz() {
+    setQuizRun(null);
+    autoAdvanced.current = true;
+    setActive((i) => (i + 1) % scenes.length);
+    setPlaying(true);
+  }
+
+  function exportQuiz() {
+    downloadFile(`${slugify(deckInfo.eventName)}-quiz.csv`, "\ufeff" + quizCSV(quiz, quizAnswers, localized, t.quiz, locale), "text/csv;charset=utf-8");
+  }
+
+  // Answers are choice indices into this quiz, so they start over whenever it is rebuilt (another deck, an edit, another language).
+  useEffect(() => {
+    setQuizRun(null);
+    setQuizAnswers({});
+  }, [deckInfo, quiz]);
+
+  // Playing (or losing the deck) hands the camera back to the show.
+  useEffect(() => {
+    if (exploring && (playing || !scenes.length)) {
+      setExploring(false);
+      setSelectedProp(null);
+    }
+  }, [playing, scenes.length]);
+
+  useEffect(() => {
+    if (exploring) return;
+    document.body.style.cursor = "";
+    setHoveredProp(null);
+  }, [exploring]);
+
+  useEffect(() => {
+    setSelectedProp(null);
+    setHoveredProp(null);
+  }, [shown]);
+
+  usePlayerShortcuts(
+    {
+      togglePlay: () => scenes.length && setPlaying((p) => !p),
+      previous: () => step(-1),
+      next: () => step(1),
+      first: () => scenes.length && setActive(0),
+      last: () => scenes.length && setActive(scenes.length - 1),
+      toggleNarration: () => setNarration((n) => !n),
+      toggleExplore: () => toggleExplore(),
+      leave: () => {
+        if (selectedProp) setSelectedProp(null);
+        else if (exploring) toggleExplore(false);
+        else return false;
+        return true;
+      },
+    },
+    { enabled: !editing && !renderJob && !quizRun, dir }
+  );
+
+  // The stage (and its captions) can trail `active` while a transition hides the swap. The stage is built
+  // from the untranslated scene, so switching languages doesn't rearrange it.
+  const stageScene = scenes[shown] ?? scenes[active];
+  const currentScene = localized[shown] ?? localized[active];
+  useAmbience({ scene: stageScene, playing: playing && !editing && !renderJob, speaking, master: volumeGain(volume), ambience: volumeGain(ambienceVolume) });
+  const currentTheme = useMemo(() => (currentScene ? derivePaletteTheme(currentScene.palette) : null), [currentScene]);
+  // Which prop each visual note stands for, so notes and props can point at each other.
+  const noteProps = useMemo(() => (currentScene && stageScene ? keywordProps(currentScene.visualKeywords ?? [], stageScene.visualKeywords).map((id) => (id && isHotspot(id) ? id : null)) : []), [currentScene, stageScene]);
+  const exploreState = useMemo<ExploreState>(() => ({ active: exploring, highlighted: hoveredProp, selected: selectedProp, onHover: setHoveredProp, onSelect: setSelectedProp }), [exploring, hoveredProp, selectedProp]);
+  const stageLocation = useMemo(() => (stageScene ? resolveSceneLocation(BUILTIN_GAZETTEER, stageScene) : null), [stageScene]);
+  const allDiagnostics = useMemo(() => [...diagnostics, ...locationDiagnostics(BUILTIN_GAZETTEER, scenes)], [diagnostics, scenes]);
 
   return (
-    <div className="min-h-screen w-full bg-gradient-to-b from-slate-900 via-black to-slate-950 text-white">
-      <header className="mx-auto max-w-6xl px-4 pt-8 pb-4 flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <Theater className="w-8 h-8" />
-          <div className="leading-tight">
-            <h1 className="text-2xl md:text-3xl font-bold drop-shadow-sm">{t.appTitle}</h1>
-            <p className="text-sm text-slate-300">{t.appDescription}</p>
-          </div>
-        </div>
-        <Select value={locale} onValueChange={(v: Locale) => setLocale(v)}>
-          <SelectTrigger className="w-40">
-            <Languages className="mr-2 h-4 w-4" />
-            <SelectValue placeholder="Language" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="en-US">English</SelectItem>
-            <SelectItem value="es-ES">Español</SelectItem>
-          </SelectContent>
-        </Select>
-      </header>
-
-      <div className="mx-auto max-w-6xl px-4 grid md:grid-cols-3 gap-4">
-        <Card className="bg-white/5 border-white/10">
-          <CardContent className="p-4 flex flex-col gap-3">
-            <div className="flex gap-2">
-              <Input
-                value={eventName}
-                onChange={(e) => setEventName(e.target.value)}
-                placeholder={t.eventPlaceholder}
-                className="bg-black/40 border-white/10"
-              />
-              <Button onClick={() => startShow()} className="gap-2">
-                <Sparkles className="h-4 w-4" /> {t.beginButton}
-              </Button>
+    <MotionConfig reducedMotion={reducedMotion ? "always" : "never"}>
+      <div dir={dir} className="min-h-screen w-full bg-gradient-to-b from-slate-900 via-black to-slate-950 text-white">
+        <LiveAnnouncer message={announcement} />
+        <header className="mx-auto max-w-6xl px-4 pt-8 pb-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Theater className="w-8 h-8" />
+            <div className="leading-tight">
+              <h1 className="text-2xl md:text-3xl font-bold drop-shadow-sm">{t.appTitle}</h1>
+              <p className="text-sm text-slate-300">{t.appDescription}</p>
             </div>
+          </div>
+          <LocalePicker locale={locale} label={t.language} onChange={setLocale} />
+        </header>
 
-            <div className="flex items-center gap-3 text-slate-300">
-              <label className="flex items-center gap-2">
-                <input type="checkbox" className="accent-white" checked={autoplay} onChange={(e) => setAutoplay(e.target.checked)} />
-                {t.autoplay}
-              </label>
-              <label className="flex items-center gap-2">
-                <input type="checkbox" className="accent-white" checked={narration} onChange={(e) => setNarration(e.target.checked)} />
-                {t.narration}
-              </label>
-              <div className="flex items-center gap-2 ml-auto">
-                <Volume2 className="w-4 h-4" />
-                <span className="text-xs uppercase tracking-wider text-slate-400">{t.quality}</span>
-                <div className="w-32">
-                  <Slider value={[quality]} onValueChange={(v) => setQuality((v?.[0] as 0 | 1 | 2) ?? 1)} min={0} max={2} step={1} />
+        <div className="mx-auto max-w-6xl px-4 grid md:grid-cols-3 gap-4">
+          {editing ? (
+            <SceneEditor scenes={scenes} active={active} locale={locale} deckLocale={deckInfo.locale} labels={t.editor} diagnostics={t.diagnostics} onChange={applyEdit} onSelect={setActive} onClose={() => setEditing(false)} />
+          ) : (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-4 flex flex-col gap-3">
+                <div className="flex gap-2">
+                  <EventSearch
+                    value={eventName}
+                    index={BUILTIN_PACKS}
+                    locale={locale}
+                    placeholder={t.eventPlaceholder}
+                    label={t.eventLabel}
+                    eras={t.eras}
+                    onChange={setEventName}
+                    onSubmit={(name) => !loading && startShow(name)}
+                  />
+                  {loading ? (
+                    <Button onClick={cancelShow} className="gap-2">
+                      {t.cancelButton}
+                    </Button>
+                  ) : (
+                    <Button onClick={() => startShow()} className="gap-2">
+                      <Sparkles className="h-4 w-4" /> {t.beginButton}
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button className="gap-2 px-3 py-1 text-xs" onClick={() => fileInputRef.current?.click()}>
+                    <FolderOpen className="h-4 w-4" /> {t.openChronicle}
+                  </Button>
+                  <Button className="gap-2 px-3 py-1 text-xs" disabled={loading} onClick={openEditor}>
+                    <Pencil className="h-4 w-4" /> {scenes.length ? t.editScenes : t.newChronicle}
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`${CHRONICLE_EXTENSION},.json,application/json`}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) openChronicle(file);
+                      e.target.value = "";
+                    }}
+                  />
                 </div>
-              </div>
-            </div>
 
-            {scenes.length === 0 && (
-              <div className="text-slate-400 text-sm">
-                <p className="mb-2 font-medium">{t.suggestedEventsTitle}</p>
-                <div className="flex flex-wrap gap-2">
-                  {[t.moonLanding, t.ancientEgypt, t.worldWarII].map((x) => (
+                {error && (
+                  <div role="alert" className="flex items-center gap-2 rounded-xl border border-red-400/30 bg-red-500/10 px-3 py-2 text-sm text-red-200">
+                    <span className="flex-1">{error}</span>
+                    <Button className="px-3 py-1 text-xs" onClick={() => startShow()}>
+                      {t.retryButton}
+                    </Button>
+                    <Button className="px-3 py-1 text-xs" onClick={() => setError(null)}>
+                      {t.dismissButton}
+                    </Button>
+                  </div>
+                )}
+                {notice && !error && (
+                  <div role="status" className="rounded-xl border border-amber-300/20 bg-amber-400/10 px-3 py-2 text-sm text-amber-100">
+                    {notice}
+                  </div>
+                )}
+                {allDiagnostics.length > 0 && (
+                  <details className="rounded-xl border border-white/10 bg-black/30 px-3 py-2 text-xs text-slate-300">
+                    <summary className="cursor-pointer text-slate-400">
+                      {format(t.diagnosticsTitle, { count: allDiagnostics.length })}
+                    </summary>
+                    <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                      {allDiagnostics.map((d, i) => (
+                        <li key={i} className={d.severity === "error" ? "text-red-300" : d.severity === "warning" ? "text-amber-200" : "text-slate-400"}>
+                          {d.scene !== null && `${t.scene} ${d.scene + 1}`}
+                          {d.path && ` · ${d.path}`}
+                          {(d.scene !== null || d.path) && ": "}
+                          {format(t.diagnostics[d.code], d.values)}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                <div className="flex items-center gap-3 text-slate-300">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" className="accent-white" checked={autoplay} onChange={(e) => setAutoplay(e.target.checked)} />
+                    {t.autoplay}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" className="accent-white" checked={narration} onChange={(e) => setNarration(e.target.checked)} aria-keyshortcuts={SHORTCUT_KEYS.toggleNarration} />
+                    {t.narration}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" className="accent-white" checked={reducedMotion} onChange={(e) => setReduceMotion(e.target.checked)} />
+                    {t.reduceMotion}
+                  </label>
+                  <div className="flex items-center gap-2 ms-auto">
+                    <span className="text-xs uppercase tracking-wider text-slate-400">{t.quality}</span>
+                    <div className="w-32">
+                      <Slider value={[tier]} onValueChange={(v) => setQuality((v?.[0] as QualityTier) ?? 1)} min={0} max={MAX_TIER} step={1} label={t.quality} valueText={(q) => t.qualityLevels[q] ?? String(q)} />
+                    </div>
+                    <label className="flex items-center gap-1 text-xs">
+                      <input
+                        type="checkbox"
+                        className="accent-white"
+                        checked={quality === "auto"}
+                        onChange={(e) => {
+                          // Auto picks up from whatever tier is showing now.
+                          setAutoTier(tier);
+                          setQuality(e.target.checked ? "auto" : tier);
+                        }}
+                      />
+                      {t.qualityAuto}
+                    </label>
+                    <Button className="px-2 py-1" aria-pressed={showStats} aria-label={t.performanceStats} title={t.performanceStats} onClick={() => setShowStats((v) => !v)}>
+                      <Gauge className="h-4 w-4" aria-hidden />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-300">
+                  <Button className="px-2 py-1" aria-pressed={volume === 0} aria-label={volume === 0 ? t.unmute : t.mute} title={volume === 0 ? t.unmute : t.mute} onClick={() => setVolume((v) => (v === 0 ? PLAYER_URL_DEFAULTS.volume : 0))}>
+                    {volume === 0 ? <VolumeX className="h-4 w-4" aria-hidden /> : <Volume2 className="h-4 w-4" aria-hidden />}
+                  </Button>
+                  {(
+                    [
+                      [t.volume, volume, setVolume],
+                      [t.ambienceVolume, ambienceVolume, setAmbienceVolume],
+                      [t.voiceVolume, voiceVolume, setVoiceVolume],
+                    ] as const
+                  ).map(([label, value, set]) => (
+                    <div key={label} className="flex items-center gap-2">
+                      <span className="uppercase tracking-wider text-slate-400">{label}</span>
+                      <div className="w-24">
+                        <Slider value={[value]} onValueChange={(v) => set(v?.[0] ?? 0)} min={0} max={100} step={5} label={label} valueText={(n) => format(t.volumePercent, { value: n })} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {scenes.length === 0 && !loading && library.entries.length > 0 && (
+                  <LibraryPanel library={library} locale={locale} labels={t.library} timelineLabels={t.timeline} onOpen={openFromLibrary} onExport={() => downloadFile("historical-cinema-library.json", exportLibrary(library.entries), "application/json")} />
+                )}
+
+                {scenes.length === 0 && !loading && !library.entries.length && (
+                  <div className="text-slate-400 text-sm">
+                    <p className="mb-2 font-medium">{t.suggestedEventsTitle}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {suggestPacks(BUILTIN_PACKS, locale).map(({ pack, label }) => (
+                        <Button
+                          key={pack.id}
+                          variant="secondary"
+                          className="bg-white/10 border-white/10 hover:bg-white/20"
+                          onClick={() => {
+                            setEventName(label);
+                            startShow(label);
+                          }}
+                        >
+                          {label}
+                          {pack.era && <span className="ms-2 text-xs text-slate-400">{t.eras[pack.era]}</span>}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {scenes.length > 0 && (
+                  <div className="flex items-center gap-2">
                     <Button
-                      key={x}
                       variant="secondary"
                       className="bg-white/10 border-white/10 hover:bg-white/20"
-                      onClick={() => {
-                        setEventName(x);
-                        startShow(x);
-                      }}
+                      aria-label={t.previousScene}
+                      title={t.previousScene}
+                      aria-keyshortcuts={SHORTCUT_KEYS.previous}
+                      onClick={() => step(-1)}
                     >
-                      {x}
+                      <SkipBack className="h-4 w-4" aria-hidden />
                     </Button>
-                  ))}
-                </div>
-              </div>
-            )}
+                    <Button
+                      variant="secondary"
+                      className="bg-white/10 border-white/10 hover:bg-white/20"
+                      aria-label={playing ? t.pause : t.play}
+                      title={playing ? t.pause : t.play}
+                      aria-keyshortcuts={SHORTCUT_KEYS.togglePlay}
+                      onClick={() => setPlaying((p) => !p)}
+                    >
+                      {playing ? <Pause className="h-4 w-4" aria-hidden /> : <Play className="h-4 w-4" aria-hidden />}
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="bg-white/10 border-white/10 hover:bg-white/20"
+                      aria-label={t.nextScene}
+                      title={t.nextScene}
+                      aria-keyshortcuts={SHORTCUT_KEYS.next}
+                      onClick={() => step(1)}
+                    >
+                      <SkipForward className="h-4 w-4" aria-hidden />
+                    </Button>
+                    <Button
+                      className={`border-white/10 hover:bg-white/20 ${exploring ? "bg-white/30" : "bg-white/10"}`}
+                      aria-label={t.explore.enter}
+                      aria-pressed={exploring}
+                      title={exploring ? t.explore.exit : t.explore.enter}
+                      aria-keyshortcuts={SHORTCUT_KEYS.toggleExplore}
+                      onClick={() => toggleExplore()}
+                    >
+                      <Orbit className="h-4 w-4" aria-hidden />
+                    </Button>
+                    <div className="flex-1 px-3">
+                      <TimelineScrubber
+                        dates={sceneDates}
+                        titles={localized.map((s) => (s.timePeriod ? `${s.title} · ${s.timePeriod}` : s.title))}
+                        active={active}
+                        onChange={setActive}
+                        label={t.sceneScrubber}
+                        valueText={(i) => format(t.sceneAnnouncement, { current: i + 1, total: scenes.length, title: localized[i]?.title ?? "" })}
+                        locale={locale}
+                        labels={t.timeline}
+                      />
+                    </div>
+                    <span className="text-xs text-slate-400">
+                      {format(t.sceneOf, { current: active + 1, total: Math.max(1, scenes.length) })}
+                      {loading && ` · ${t.loadingText}…`}
+                    </span>
+                  </div>
+                )}
+                {scenes.length > 0 && <p className="text-xs text-slate-500">{t.shortcutsHint}</p>}
+                {scenes.length > 0 && (
+                  <div className="flex items-center gap-2 text-slate-300">
+                    <Download className="h-4 w-4" />
+                    <span className="text-xs uppercase tracking-wider text-slate-400">{t.exportLabel}</span>
+                    {(
+                      [
+                        ["vtt", "WebVTT"],
+                        ["srt", "SRT"],
+                        ["md", "Markdown"],
+                      ] as const
+                    ).map(([format, label]) => (
+                      <Button key={format} className="px-3 py-1 text-xs" disabled={loading} onClick={() => exportCaptions(format)}>
+                        {label}
+                      </Button>
+                    ))}
+                    <Button className="px-3 py-1 text-xs" disabled={loading} onClick={exportChronicle}>
+                      {t.chronicleExport}
+                    </Button>
+                    <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => exportBibliography("md")}>
+                      {t.sources.bibliography}
+                    </Button>
+                    <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => exportBibliography("bib")}>
+                      {t.sources.bibtex}
+                    </Button>
+                  </div>
+                )}
+                {scenes.length > 0 && (
+                  <div className="flex items-center gap-2 text-slate-300">
+                    <Link2 className="h-4 w-4" />
+                    <span className="text-xs uppercase tracking-wider text-slate-400">{t.shareLabel}</span>
+                    <Button className="px-3 py-1 text-xs" onClick={() => copyShareLink(false)}>
+                      {t.shareLink}
+                    </Button>
+                    <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => copyShareLink(true)}>
+                      {t.shareDeck}
+                    </Button>
+                  </div>
+                )}
+                {scenes.length > 0 && (
+                  <div className="flex items-center gap-2 text-slate-300">
+                    <GraduationCap className="h-4 w-4" />
+                    <span className="text-xs uppercase tracking-wider text-slate-400">{t.quiz.title}</span>
+                    <Select value={quizTiming} onValueChange={(v) => setQuizTiming(v as QuizTiming)}>
+                      <SelectTrigger className="w-40" aria-label={t.quiz.timing}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUIZ_TIMINGS.map((timing) => (
+                          <SelectItem key={timing} value={timing}>
+                            {t.quiz.timings[timing]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => openQuiz()}>
+                      {t.quiz.start}
+                    </Button>
+                    {quizScore.answered > 0 && <span className="text-xs text-slate-400">{format(t.quiz.score, { correct: quizScore.correct, total: quizScore.total })}</span>}
+                  </div>
+                )}
+                {scenes.length > 0 && (
+                  <div className="flex items-center gap-2 text-slate-300">
+                    <Film className="h-4 w-4" />
+                    <span className="text-xs uppercase tracking-wider text-slate-400">{t.renderLabel}</span>
+                    {renderJob ? (
+                      <>
+                        <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10" role="progressbar" aria-valuemin={0} aria-valuemax={renderProgress?.frames ?? 1} aria-valuenow={renderProgress?.frame ?? 0}>
+                          <div className="h-full bg-white/70 transition-[width]" style={{ width: `${renderProgress ? (100 * renderProgress.frame) / renderProgress.frames : 0}%` }} />
+                        </div>
+                        <span className="text-xs text-slate-400">{renderProgress ? format(t.renderingFrame, { frame: renderProgress.frame, frames: renderProgress.frames }) : `${t.loadingText}…`}</span>
+                        <Button className="px-3 py-1 text-xs" onClick={() => setRenderJob(null)}>
+                          {t.cancelButton}
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => startRender("webm")}>
+                          WebM
+                        </Button>
+                        <Button className="px-3 py-1 text-xs" disabled={loading} onClick={() => startRender("png")}>
+                          {t.renderPng}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
-            {scenes.length > 0 && (
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="secondary"
-                  className="bg-white/10 border-white/10 hover:bg-white/20"
-                  onClick={() => {
-                    setActive((i) => {
-                      const idx = (i - 1 + scenes.length) % scenes.length;
-                      speak(scenes[idx]?.narration, narration, locale);
-                      return idx;
-                    });
-                  }}
-                >
-                  <SkipBack className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant="secondary"
-                  className="bg-white/10 border-white/10 hover:bg-white/20"
-                  onClick={() => setPlaying((p) => !p)}
-                >
-                  {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
-                </Button>
-                <Button
-                  variant="secondary"
-                  className="bg-white/10 border-white/10 hover:bg-white/20"
-                  onClick={() => {
-                    setActive((i) => {
-                      const idx = (i + 1) % scenes.length;
-                      speak(scenes[idx]?.narration, narration, locale);
-                      return idx;
-                    });
+          <div className="md:col-span-2">
+            <div
+              className="relative w-full aspect-video rounded-2xl overflow-hidden ring-1 ring-white/10 bg-black shadow-2xl"
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes("Files")) return;
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                const file = e.dataTransfer.files[0];
+                if (file) openChronicle(file);
+              }}
+            >
+              {/* Stopped while rendering offline, so nothing on the live stage changes under the render. */}
+              <Canvas frameloop={renderJob ? "never" : "always"} shadows={budget.shadows} gl={{ antialias: true, preserveDrawingBuffer: true }} dpr={budget.dpr} camera={{ position: [0, 2, 8], fov: 45 }} onCreated={({ gl }) => (canvasRef.current = gl.domElement)}>
+                <RenderBudgetContext.Provider value={budget}>
+                  {loading && !currentScene && <LoaderOverlay label={t.loadingText} />}
+                  {stageScene ? (
+                    <SceneStage scene={stageScene} cameraStyle={stageScene.cameraStyle} quality={tier} flyIn={fx?.type === "fly-through" ? fx.duration : 0} sceneLocale={deckInfo.locale} reducedMotion={reducedMotion} explore={exploreState} />
+                  ) : (
+                    <>
+                      <KeyLights />
+                      <Environment preset="sunset" />
+                      <Ground />
+                      <DreiText position={[0, 2.2, 0]} fontSize={0.34} color="#fff" outlineWidth={0.006} outlineColor="#000" anchorX="center" anchorY="middle">
+                        {t.appTitle}
+                      </DreiText>
+                      <DreiText position={[0, 1.6, 0]} fontSize={0.18} color="#d1d5db" anchorX="center" anchorY="middle">
+                        {t.appDescription}
+                      </DreiText>
+                    </>
+                  )}
+                  <PerformanceGovernor tier={tier} adapt={quality === "auto" && !renderJob} onTierChange={setAutoTier} onFps={showStats ? setFps : undefined} />
+                </RenderBudgetContext.Provider>
+              </Canvas>
+              <TransitionOverlay fx={fx} />
+              {stageScene && <HistoricityBadge level={stageScene.historicity} labels={t.sources} />}
+              {selectedProp && currentScene && (
+                <AnnotationCard
+                  title={currentScene.visualKeywords?.[noteProps.indexOf(selectedProp)] ?? selectedProp}
+                  text={(t.explore.props as Record<string, string>)[selectedProp] ?? t.explore.noNote}
+                  labels={t.explore}
+                  onClose={() => setSelectedProp(null)}
+                />
+              )}
+              {exploring && (
+                <div className="absolute bottom-3 start-3 flex max-w-[70%] items-center gap-2 rounded-lg bg-black/70 px-2 py-1 text-xs text-slate-200">
+                  <span>{t.explore.hint}</span>
+                  <button type="button" className="shrink-0 rounded bg-white/15 px-2 py-0.5 hover:bg-white/25 focus-visible:outline-2 focus-visible:outline-white" onClick={() => toggleExplore(false)}>
+                    {t.explore.exit}
+                  </button>
+                </div>
+              )}
+              {stageLocation && <GlobeInset match={stageLocation} locale={locale} labels={t.globe} reducedMotion={reducedMotion} />}
+              {showStats && <PerformanceOverlay tier={tier} fps={fps} auto={quality === "auto"} labels={{ tier: t.quality, auto: t.qualityAuto, manual: t.qualityManual, levels: t.qualityLevels, shadows: t.statsShadows, noShadows: t.statsNoShadows, bloom: t.statsBloom, noBloom: t.statsNoBloom }} />}
+              {quizRun && (
+                <QuizPanel
+                  key={quizRun.started}
+                  run={quiz.filter((q) => quizRun.ids.includes(q.id))}
+                  questions={quiz}
+                  answers={quizAnswers}
+                  scenes={localized}
+                  resume={quizRun.resume}
+                  locale={locale}
+                  labels={t.quiz}
+                  onAnswer={(id, response) => setQuizAnswers((a) => ({ ...a, [id]: response }))}
+                  onReview={(scene) => {
+                    setQuizRun(null);
+                    setPlaying(false);
+                    setActive(scene);
                   }}
-                >
-                  <SkipForward className="h-4 w-4" />
-                </Button>
-                <div className="flex-1 px-3">
-                  <Slider value={[active]} onValueChange={(v) => setActive((v?.[0] as number) ?? 0)} min={0} max={Math.max(0, scenes.length - 1)} step={1} />
+                  onContinue={continueAfterQuiz}
+                  onRetake={() => openQuiz(true)}
+                  onExport={exportQuiz}
+                  onClose={() => setQuizRun(null)}
+                />
+              )}
+              {dragging && (
+                <div className="pointer-events-none absolute inset-3 flex items-center justify-center rounded-xl border-2 border-dashed border-white/60 bg-black/60 text-sm text-white">
+                  {t.dropChronicle}
                 </div>
-                <span className="text-xs text-slate-400">
-                  {active + 1} {t.of} {Math.max(1, scenes.length)}
-                </span>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        <div className="md:col-span-2">
-          <div className="w-full aspect-video rounded-2xl overflow-hidden ring-1 ring-white/10 bg-black shadow-2xl">
-            <Canvas shadows gl={{ antialias: true }} dpr={[1, 2]} camera={{ position: [0, 2, 8], fov: 45 }}>
-              {loading && <LoaderOverlay label={t.loadingText} />}
-              {currentScene ? (
-                <SceneStage scene={currentScene} cameraStyle={currentScene.cameraStyle} quality={quality} />
-              ) : (
-                <>
-                  <KeyLights />
-                  <Environment preset="sunset" />
-                  <Ground />
-                  <DreiText position={[0, 2.2, 0]} fontSize={0.34} color="#fff" outlineWidth={0.006} outlineColor="#000" anchorX="center" anchorY="middle">
-                    {t.appTitle}
-                  </DreiText>
-                  <DreiText position={[0, 1.6, 0]} fontSize={0.18} color="#d1d5db" anchorX="center" anchorY="middle">
-                    {t.appDescription}
-                  </DreiText>
-                </>
               )}
-            </Canvas>
-          </div>
+            </div>
+            {renderJob && (
+              <ChronicleRenderer
+                job={renderJob}
+                onProgress={setRenderProgress}
+                onDone={(result) => {
+                  setRenderJob(null);
+                  downloadFile(result.filename, result.blob);
+                  if (!result.audio) setNotice(t.renderSilent);
+                }}
+                onError={(e) => {
+                  console.error(e);
+                  setRenderJob(null);
+                  setNotice(t.renderError);
+                }}
+              />
+            )}
 
-          {currentScene && (
-            <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }} className="mt-3 grid md:grid-cols-3 gap-3">
-              <Card className="bg-white/5 border-white/10 md:col-span-2">
-                <CardContent className="p-4">
-                  <div className="text-sm uppercase tracking-wider text-slate-400">
-                    {currentScene.timePeriod} · {currentScene.location}
-                  </div>
-                  <h3 className="text-xl font-semibold mb-2">{currentScene.title}</h3>
-                  <p className="text-slate-300 leading-relaxed">{currentScene.narration}</p>
-                </CardContent>
-              </Card>
-              <Card className="bg-white/5 border-white/10">
-                <CardContent className="p-4">
-                  <div className="text-sm uppercase tracking-wider text-slate-400 mb-2">Visual notes</div>
-                  <div className="flex flex-wrap gap-1">
-                    {currentScene.visualKeywords?.map((k) => (
-                      <span key={k} className="text-xs bg-white/10 border border-white/10 rounded-full px-2 py-1 text-slate-200">
-                        {k}
-                      </span>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
-            </motion.div>
-          )}
+            {currentScene && currentTheme && (
+              <motion.div initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }} className="mt-3 grid md:grid-cols-3 gap-3">
+                <Card className="md:col-span-2 transition-colors duration-700" style={{ backgroundColor: currentTheme.ui.background, borderColor: currentTheme.ui.border }}>
+                  <CardContent className="p-4">
+                    <div className="text-sm uppercase tracking-wider" style={{ color: currentTheme.ui.muted }}>
+                      {currentScene.timePeriod} · {currentScene.location}
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2" style={{ color: currentTheme.ui.accent }}>
+                      {currentScene.title}
+                    </h3>
+                    <p className="leading-relaxed" style={{ color: currentTheme.ui.text }}>
+                      <KaraokeText text={currentScene.narration} wordIndex={shown === active ? wordIndex : -1} color={currentTheme.ui.text} highlight={currentTheme.ui.accent} />
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card className="transition-colors duration-700" style={{ backgroundColor: currentTheme.ui.background, borderColor: currentTheme.ui.border }}>
+                  <CardContent className="p-4">
+                    <div className="text-sm uppercase tracking-wider mb-2" style={{ color: currentTheme.ui.muted }}>
+                      {t.visualNotes}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {currentScene.visualKeywords?.map((k, i) => {
+                        const prop = noteProps[i];
+                        if (!prop) {
+                          return (
+                            <span key={k} className="text-xs bg-white/10 border rounded-full px-2 py-1 text-slate-200" style={{ borderColor: currentTheme.ui.border }}>
+                              {k}
+                            </span>
+                          );
+                        }
+                        // Notes with a prop on the set: hovering lights the prop up, clicking opens its note.
+                        const lit = prop === hoveredProp || prop === selectedProp;
+                        return (
+                          <button
+                            key={k}
+                            type="button"
+                            aria-pressed={prop === selectedProp}
+                            className={`text-xs border rounded-full px-2 py-1 text-slate-200 transition-colors focus-visible:outline-2 focus-visible:outline-white ${lit ? "bg-white/25" : "bg-white/10 hover:bg-white/20"}`}
+                            style={{ borderColor: lit ? currentTheme.ui.accent : currentTheme.ui.border }}
+                            onMouseEnter={() => setHoveredProp(prop)}
+                            onMouseLeave={() => setHoveredProp(null)}
+                            onFocus={() => setHoveredProp(prop)}
+                            onBlur={() => setHoveredProp(null)}
+                            onClick={() => setSelectedProp(prop === selectedProp ? null : prop)}
+                          >
+                            {k}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <div className="mt-3 flex gap-1" aria-hidden>
+                      {currentScene.palette.map((c, i) => (
+                        <span key={i} className="h-2 flex-1 rounded-full" style={{ backgroundColor: c }} />
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+                <SourcesPanel scene={currentScene} theme={currentTheme} labels={t.sources} />
+              </motion.div>
+            )}
+          </div>
         </div>
-      </div>
 
-      <footer className="mx-auto max-w-6xl px-4 py-8 text-xs text-slate-400 flex items-center justify-between">
-        <span>Built with React · React Three Fiber · Postprocessing · Web Speech</span>
-        <span>Tip: toggle Narration for voiceover</span>
-      </footer>
-    </div>
+        <footer className="mx-auto max-w-6xl px-4 py-8 text-xs text-slate-400 flex items-center justify-between">
+          <span>{t.footerCredits}</span>
+          <span>{t.footerTip}</span>
+        </footer>
+      </div>
+    </MotionConfig>
   );
 }
 
-/*
- * HOW TO PLUG YOUR LLM (optional)
- * --------------------------------
- * 1) Replace generateScenesLocally with a fetch call to your backend.
- * 2) Your backend should call your preferred model with SCENE_PROMPT_TEMPLATE and the user's event name.
- * 3) Return an array of scenes matching the Scene interface above.
- * 4) Keep narration short; visualKeywords drive the diorama props.
- *
- * Expected response example:
- * [
- *   { title, timePeriod, location, oneLine, narration, visualKeywords:["pyramid","torch"], palette:["#..."], environment:"desert", cameraStyle:"crane-up" }
- * ]
- */
-npm install
-npm run dev
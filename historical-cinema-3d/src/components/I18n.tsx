@@ -0,0 +1,55 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages } from "lucide-react";
+import type { Locale } from "@/lib/scene";
+import { formatMessage, localeName, textDirection, type MessageValues } from "@/lib/i18n";
+import { AVAILABLE_LOCALES, DEFAULT_MESSAGES, cachedMessages, loadMessages, type Messages } from "@/lib/catalogs";
+
+/**
+ * The UI messages for `locale`, its writing direction, and `format` for ICU-style messages. Until a
+ * catalog has loaded, the previous messages stay up. Also keeps <html lang dir> in step.
+ */
+export function useMessages(locale: Locale): { t: Messages; dir: "ltr" | "rtl"; format(message: string, values?: MessageValues): string } {
+  const [t, setMessages] = useState<Messages>(() => cachedMessages(locale) ?? DEFAULT_MESSAGES);
+  const dir = textDirection(locale);
+
+  useEffect(() => {
+    const cached = cachedMessages(locale);
+    if (cached) return setMessages(cached);
+    let current = true;
+    loadMessages(locale)
+      .then((messages) => current && setMessages(messages))
+      .catch((e) => console.error(e));
+    return () => {
+      current = false;
+    };
+  }, [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const format = useCallback((message: string, values?: MessageValues) => formatMessage(message, values, locale), [locale]);
+  return { t, dir, format };
+}
+
+/** Language menu over every shipped catalog, each named in its own language. */
+export function LocalePicker({ locale, label, onChange }: { locale: Locale; label: string; onChange(locale: Locale): void }) {
+  const options = AVAILABLE_LOCALES.includes(locale) ? AVAILABLE_LOCALES : [...AVAILABLE_LOCALES, locale];
+  return (
+    <Select value={locale} onValueChange={onChange}>
+      <SelectTrigger className="w-40" aria-label={label}>
+        <Languages className="me-2 h-4 w-4" />
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((tag) => (
+          <SelectItem key={tag} value={tag}>
+            {localeName(tag)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, History, Play, Star, Trash2 } from "lucide-react";
+import { KeywordChips } from "@/components/SceneEditor";
+import type { Locale } from "@/lib/scene";
+import type { Chronicle } from "@/lib/chronicle";
+import { formatMessage } from "@/lib/i18n";
+import { chronicleSpan } from "@/lib/dates";
+import { ChronicleTimeline, type TimelineLabels } from "@/components/Timeline";
+import {
+  LibraryError,
+  chronicleFingerprint,
+  filterLibrary,
+  libraryTags,
+  loadLibrary,
+  normalizeTags,
+  openLibraryStore,
+  putWithEviction,
+  resumeCandidate,
+  sortLibrary,
+  storageEstimate,
+  type LibraryEntry,
+  type LibraryStore,
+  type LibraryStoreKind,
+} from "@/lib/library";
+
+export interface LibraryApi {
+  entries: LibraryEntry[];
+  /** Null until the store has opened. */
+  kind: LibraryStoreKind | null;
+  usage: { usage: number; quota: number } | null;
+  /** Saves the deck as entry `id` (or the entry already holding the same deck, or a new one); returns the id used. */
+  save(id: string | null, chronicle: Chronicle, lastScene: number): string;
+  /** Records the scene playback is on, leaving the saved deck as it is. */
+  setLastScene(id: string, lastScene: number): void;
+  update(id: string, patch: Partial<Pick<LibraryEntry, "favorite" | "tags">>): void;
+  remove(id: string): void;
+  clear(): void;
+}
+
+const newId = () => globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/** The library, loaded once and kept in step with storage. Writes run one at a time; failures go to `onError`. */
+export function useLibrary(onError: (e: LibraryError) => void): LibraryApi {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [kind, setKind] = useState<LibraryStoreKind | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const entriesRef = useRef(entries);
+  const store = useRef<Promise<LibraryStore> | null>(null);
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const commit = (next: LibraryEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  };
+
+  const write = (task: (s: LibraryStore) => Promise<unknown>) => {
+    queue.current = queue.current
+      .then(async () => {
+        await task(await store.current!);
+        setUsage(await storageEstimate());
+      })
+      .catch((e) => {
+        console.error(e);
+        onErrorRef.current(e instanceof LibraryError ? e : new LibraryError("unavailable", (e as Error).message));
+      });
+  };
+
+  useEffect(() => {
+    let current = true;
+    store.current ??= openLibraryStore();
+    store.current
+      .then(async (s) => {
+        const loaded = await loadLibrary(s);
+        if (!current) return;
+        setKind(s.kind);
+        // Anything saved before the load finished wins over its stored copy.
+        const saved = new Set(entriesRef.current.map((e) => e.id));
+        commit(sortLibrary([...entriesRef.current, ...loaded.filter((e) => !saved.has(e.id))]));
+        setUsage(await storageEstimate());
+      })
+      .catch((e) => console.error(e));
+    return () => {
+      current = false;
+    };
+  }, []);
+
+  return {
+    entries,
+    kind,
+    usage,
+    save(id, chronicle, lastScene) {
+      const fingerprint = chronicleFingerprint(chronicle);
+      const existing = entriesRef.current.find((e) => e.id === id) ?? entriesRef.current.find((e) => chronicleFingerprint(e.chronicle) === fingerprint);
+      const now = new Date().toISOString();
+      const entry: LibraryEntry = {
+        id: existing?.id ?? id ?? newId(),
+        chronicle: { ...chronicle, meta: { ...chronicle.meta, createdAt: existing?.chronicle.meta.createdAt ?? chronicle.meta.createdAt } },
+        lastScene,
+        favorite: existing?.favorite ?? false,
+        tags: existing?.tags ?? [],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      const others = entriesRef.current.filter((e) => e.id !== entry.id);
+      commit([entry, ...others]);
+      write(async (s) => {
+        const evicted = await putWithEviction(s, entry, others);
+        if (evicted.length) commit(entriesRef.current.filter((e) => !evicted.includes(e.id)));
+      });
+      return entry.id;
+    },
+    setLastScene(id, lastScene) {
+      const entry = entriesRef.current.find((e) => e.id === id);
+      if (!entry || entry.lastScene === lastScene) return;
+      const next = { ...entry, lastScene, updatedAt: new Date().toISOString() };
+      commit([next, ...entriesRef.current.filter((e) => e.id !== id)]);
+      write((s) => s.put(next));
+    },
+    update(id, patch) {
+      const entry = entriesRef.current.find((e) => e.id === id);
+      if (!entry) return;
+      const next = { ...entry, ...patch, ...(patch.tags && { tags: normalizeTags(patch.tags) }) };
+      commit(entriesRef.current.map((e) => (e.id === id ? next : e)));
+      write((s) => s.put(next));
+    },
+    remove(id) {
+      commit(entriesRef.current.filter((e) => e.id !== id));
+      write((s) => s.remove(id));
+    },
+    clear() {
+      commit([]);
+      write((s) => s.clear());
+    },
+  };
+}
+
+export interface LibraryLabels {
+  title: string;
+  count: string;
+  search: string;
+  favorites: string;
+  allTags: string;
+  continue: string;
+  progress: string;
+  play: string;
+  resume: string;
+  favorite: string;
+  remove: string;
+  tagPlaceholder: string;
+  noResults: string;
+  usage: string;
+  export: string;
+  clear: string;
+  confirmClear: string;
+  sessionOnly: string;
+}
+
+interface LibraryPanelProps {
+  library: LibraryApi;
+  locale: Locale;
+  labels: LibraryLabels;
+  timelineLabels: TimelineLabels;
+  onOpen(entry: LibraryEntry, resume: boolean): void;
+  onExport(): void;
+}
+
+function megabytes(bytes: number, locale: Locale) {
+  return new Intl.NumberFormat(locale, { style: "unit", unit: "megabyte", maximumFractionDigits: 1 }).format(bytes / 1e6);
+}
+
+/** Saved chronicles: continue the last one, search, filter by favorite or tag, see them in time, and manage storage. */
+export function LibraryPanel({ library, locale, labels, timelineLabels, onOpen, onExport }: LibraryPanelProps) {
+  const { entries, usage } = library;
+  const [query, setQuery] = useState("");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [tag, setTag] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const tags = useMemo(() => libraryTags(entries), [entries]);
+  const shown = useMemo(() => filterLibrary(entries, { query, favoritesOnly, tag }), [entries, query, favoritesOnly, tag]);
+  const timeline = useMemo(() => shown.map((e) => ({ id: e.id, title: e.chronicle.eventName, date: chronicleSpan(e.chronicle) ?? ({ kind: "undatable", reason: "unrecognized" } as const) })), [shown]);
+  const resume = resumeCandidate(entries);
+  const format = (message: string, values?: Record<string, string | number>) => formatMessage(message, values, locale);
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" });
+
+  useEffect(() => {
+    if (tag && !tags.includes(tag)) setTag(null);
+  }, [tags, tag]);
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-slate-300">
+      <div className="flex items-baseline justify-between">
+        <p className="font-medium">{labels.title}</p>
+        <span className="text-xs text-slate-500">{format(labels.count, { count: entries.length })}</span>
+      </div>
+
+      {resume && (
+        <Button className="justify-start gap-2 text-start" onClick={() => onOpen(resume, true)}>
+          <History className="h-4 w-4 shrink-0" />
+          <span className="flex-1 truncate">{format(labels.continue, { title: resume.chronicle.eventName })}</span>
+          <span className="text-xs text-slate-400">{format(labels.progress, { current: resume.lastScene + 1, total: resume.chronicle.scenes.length })}</span>
+        </Button>
+      )}
+
+      <div className="flex gap-2">
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={labels.search} aria-label={labels.search} className="bg-black/40 py-1" />
+        <Button aria-pressed={favoritesOnly} title={labels.favorites} aria-label={labels.favorites} className="px-3 py-1" onClick={() => setFavoritesOnly((v) => !v)}>
+          <Star className={`h-4 w-4 ${favoritesOnly ? "fill-amber-300 text-amber-300" : ""}`} />
+        </Button>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {[null, ...tags].map((t) => (
+            <button
+              key={t ?? ""}
+              type="button"
+              aria-pressed={tag === t}
+              className={`rounded-full border px-2 py-0.5 ${tag === t ? "border-white/40 bg-white/20 text-white" : "border-white/10 bg-white/5 hover:bg-white/10"}`}
+              onClick={() => setTag(t)}
+            >
+              {t ?? labels.allTags}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {timeline.some((e) => e.date.kind === "interval") && (
+        <ChronicleTimeline
+          entries={timeline}
+          locale={locale}
+          labels={timelineLabels}
+          onOpen={(id) => {
+            const entry = shown.find((e) => e.id === id);
+            if (entry) onOpen(entry, false);
+          }}
+        />
+      )}
+
+      <ul className="max-h-72 space-y-2 overflow-y-auto pe-1">
+        {shown.map((entry) => (
+          <li key={entry.id} className="rounded-xl border border-white/10 bg-black/30 p-2">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                aria-pressed={entry.favorite}
+                aria-label={labels.favorite}
+                title={labels.favorite}
+                className="text-slate-400 hover:text-amber-200"
+                onClick={() => library.update(entry.id, { favorite: !entry.favorite })}
+              >
+                <Star className={`h-4 w-4 ${entry.favorite ? "fill-amber-300 text-amber-300" : ""}`} />
+              </button>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-white">{entry.chronicle.eventName}</p>
+                <p className="text-xs text-slate-500">
+                  {date.format(new Date(entry.updatedAt))} · {format(labels.progress, { current: entry.lastScene + 1, total: entry.chronicle.scenes.length })}
+                </p>
+              </div>
+              {entry.lastScene > 0 && (
+                <Button className="px-2 py-1 text-xs" onClick={() => onOpen(entry, true)}>
+                  {labels.resume}
+                </Button>
+              )}
+              <Button className="px-2 py-1" aria-label={labels.play} title={labels.play} onClick={() => onOpen(entry, false)}>
+                <Play className="h-4 w-4" />
+              </Button>
+              <Button className="px-2 py-1" aria-label={labels.remove} title={labels.remove} onClick={() => library.remove(entry.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="mt-2 text-xs">
+              <KeywordChips value={entry.tags} placeholder={labels.tagPlaceholder} onChange={(next) => library.update(entry.id, { tags: next })} />
+            </div>
+          </li>
+        ))}
+        {!shown.length && <li className="text-slate-500">{labels.noResults}</li>}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        <span className="flex-1">
+          {library.kind === "memory" ? labels.sessionOnly : usage && format(labels.usage, { used: megabytes(usage.usage, locale), quota: megabytes(usage.quota, locale) })}
+        </span>
+        <Button className="gap-1 px-2 py-1 text-xs" onClick={onExport}>
+          <Download className="h-3 w-3" /> {labels.export}
+        </Button>
+        <Button
+          className={`px-2 py-1 text-xs ${confirming ? "border-red-400/40 bg-red-500/20 text-red-100" : ""}`}
+          onBlur={() => setConfirming(false)}
+          onClick={() => {
+            if (!confirming) return setConfirming(true);
+            setConfirming(false);
+            library.clear();
+          }}
+        >
+          {confirming ? labels.confirmClear : labels.clear}
+        </Button>
+      </div>
+    </div>
+  );
+}
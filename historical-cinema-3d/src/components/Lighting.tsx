@@ -0,0 +1,71 @@
+import React, { useMemo, useRef, useState } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+import { Environment, Sky } from "@react-three/drei";
+import type { LightingRig } from "@/lib/lighting";
+import { createNoise2D } from "@/lib/noise";
+import { useRenderBudget } from "@/components/Performance";
+import { SeededStars } from "@/components/Particles";
+
+function Searchlight({ index, count, color }: { index: number; count: number; color: string }) {
+  const [target] = useState(() => new THREE.Object3D());
+  const x = (index - (count - 1) / 2) * 7;
+  useFrame((state) => {
+    const t = state.clock.elapsedTime * 0.35 + index * 2.1;
+    target.position.set(x + Math.sin(t) * 10, 30, -20 + Math.cos(t * 0.7) * 6);
+    target.updateMatrixWorld();
+  });
+  return (
+    <>
+      <primitive object={target} />
+      <spotLight position={[x, 0.5, -10]} target={target} angle={0.08} penumbra={0.3} distance={60} intensity={40} color={color} />
+    </>
+  );
+}
+
+/** Lights, sky and image-based light for a LightingRig; `intensity` scales everything for low quality. */
+export function LightingRigView({ rig, intensity = 1, seed = 0 }: { rig: LightingRig; intensity?: number; seed?: number }) {
+  const practical = useRef<THREE.PointLight>(null);
+  const ambient = useRef<THREE.AmbientLight>(null);
+  const noise = useMemo(() => createNoise2D(seed), [seed]);
+  const budget = useRenderBudget();
+
+  useFrame((state) => {
+    if (!rig.flicker) return;
+    const t = state.clock.elapsedTime;
+    const f = 1 + rig.flicker * 0.35 * (noise(t * 6, 0.5) + 0.5 * noise(t * 17, 3.5));
+    if (practical.current) practical.current.intensity = rig.fill.intensity * intensity * f * 6;
+    if (ambient.current) ambient.current.intensity = rig.ambient.intensity * intensity * (0.85 + 0.15 * f);
+  });
+
+  return (
+    <>
+      {!rig.skyDome && <color attach="background" args={[rig.background]} />}
+      {rig.skyDome && <Sky sunPosition={rig.sunPosition} turbidity={rig.preset === "day" ? 6 : 10} rayleigh={rig.preset === "day" ? 1 : 3} mieCoefficient={0.005} />}
+      {rig.preset === "night" && <SeededStars seed={seed} radius={100} depth={40} count={Math.round(2500 * budget.starDensity)} factor={3} fade speed={0.2} />}
+      {rig.environment !== "none" && <Environment preset={rig.environment} environmentIntensity={rig.environmentIntensity * intensity} />}
+      <ambientLight ref={ambient} color={rig.ambient.color} intensity={rig.ambient.intensity * intensity} />
+      <directionalLight
+        // Remounted when the map size changes: a live light keeps its old shadow map.
+        key={budget.shadowMapSize}
+        position={rig.sunPosition}
+        color={rig.sun.color}
+        intensity={rig.sun.intensity * intensity}
+        castShadow={budget.shadows && rig.shadows && rig.sun.intensity > 0}
+        shadow-mapSize={[budget.shadowMapSize, budget.shadowMapSize]}
+        shadow-camera-left={-15}
+        shadow-camera-right={15}
+        shadow-camera-top={15}
+        shadow-camera-bottom={-15}
+      />
+      {rig.flicker > 0 ? (
+        <pointLight ref={practical} position={[0.5, 2.2, 1.5]} color={rig.fill.color} intensity={rig.fill.intensity * intensity * 6} distance={14} decay={2} castShadow={budget.shadows && rig.shadows} />
+      ) : (
+        <directionalLight position={[-rig.sunPosition[0], Math.abs(rig.sunPosition[1]) * 0.5 + 2, -rig.sunPosition[2]]} color={rig.fill.color} intensity={rig.fill.intensity * intensity} />
+      )}
+      {Array.from({ length: rig.searchlights }, (_, i) => (
+        <Searchlight key={i} index={i} count={rig.searchlights} color="#fff8e0" />
+      ))}
+    </>
+  );
+}
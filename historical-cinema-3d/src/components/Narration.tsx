@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { Locale, Scene } from "@/lib/scene";
+import { narrate, resolveDwell, splitWords, type NarrationHandle } from "@/lib/speech";
+
+interface PacingOptions {
+  /** The scene as authored, untranslated: a stable object, so switching languages doesn't restart it. */
+  scene: Scene | undefined;
+  /** The narration to read, in the UI language. */
+  text: string;
+  index: number;
+  playing: boolean;
+  autoplay: boolean;
+  /** Read aloud; otherwise narration runs silently on estimated timings. */
+  voice: boolean;
+  /** Voice volume, 0–1. */
+  volume: number;
+  locale: Locale;
+  /** False while the next scene isn't available yet (e.g. still streaming in). */
+  canAdvance: boolean;
+  /** Called with how long the scene played (pauses excluded). */
+  onAdvance(playedMs: number): void;
+}
+
+/**
+ * Narrates the active scene and paces autoplay on it: the show moves on once the narration ends (plus a
+ * short tail), never before the scene's minDwellMs and never after its maxDwellMs. Time only counts while
+ * playing. Text, voice, volume and locale are read when a scene starts, so changing them doesn't restart the
+ * scene; only moving to another scene or editing this one's narration does.
+ * Returns the index of the word being narrated (or -1), and whether the voice is audible right now.
+ */
+export function useNarrationPacing({ scene, text, index, playing, autoplay, voice, volume, locale, canAdvance, onAdvance }: PacingOptions): { wordIndex: number; speaking: boolean } {
+  const [wordIndex, setWordIndex] = useState(-1);
+  const [speaking, setSpeaking] = useState(false);
+  const [readAt, setReadAt] = useState<number | null>(null);
+  const handle = useRef<NarrationHandle | null>(null);
+  const started = useRef(false);
+  const clock = useRef<{ elapsed: number; resumedAt: number | null }>({ elapsed: 0, resumedAt: null });
+  const live = useRef({ text, voice, volume, locale, onAdvance });
+  live.current = { text, voice, volume, locale, onAdvance };
+  const narration = scene?.narration;
+
+  const played = () => clock.current.elapsed + (clock.current.resumedAt === null ? 0 : performance.now() - clock.current.resumedAt);
+
+  useEffect(() => {
+    setWordIndex(-1);
+    setReadAt(null);
+    started.current = false;
+    clock.current = { elapsed: 0, resumedAt: null };
+    return () => {
+      handle.current?.cancel();
+      handle.current = null;
+    };
+  }, [index, narration]);
+
+  useEffect(() => {
+    if (!scene) return;
+    const c = clock.current;
+    if (playing) {
+      if (c.resumedAt === null) c.resumedAt = performance.now();
+      if (!started.current) {
+        started.current = true;
+        const { text, locale, voice, volume } = live.current;
+        handle.current = narrate(text, { locale, voice, volume }, { onWord: setWordIndex, onEnd: () => setReadAt(played()), onSpeaking: setSpeaking });
+      } else {
+        handle.current?.resume();
+      }
+    } else {
+      if (c.resumedAt !== null) c.elapsed += performance.now() - c.resumedAt;
+      c.resumedAt = null;
+      handle.current?.pause();
+    }
+  }, [playing, index, narration]);
+
+  // Turning the voice off mid-scene silences it and lets the scene finish on its minimum dwell.
+  useEffect(() => {
+    if (voice || !handle.current || readAt !== null) return;
+    handle.current.cancel();
+    handle.current = null;
+    setReadAt(played());
+  }, [voice]);
+
+  useEffect(() => {
+    if (!scene || !playing || !autoplay || !canAdvance) return;
+    const { minMs, maxMs, tailMs } = resolveDwell(scene);
+    const due = readAt === null ? maxMs : Math.min(maxMs, Math.max(minMs, readAt + tailMs));
+    const timer = window.setTimeout(() => live.current.onAdvance(played()), Math.max(0, due - played()));
+    return () => window.clearTimeout(timer);
+  }, [scene, index, playing, autoplay, canAdvance, readAt]);
+
+  return { wordIndex, speaking };
+}
+
+/** Narration text with the spoken word highlighted, karaoke style. `wordIndex` -1 shows it plain. */
+export function KaraokeText({ text, wordIndex, color, highlight }: { text: string; wordIndex: number; color: string; highlight: string }) {
+  const words = useMemo(() => splitWords(text), [text]);
+  if (wordIndex < 0) return <>{text}</>;
+  return (
+    <>
+      {words.map((w, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && text.slice(words[i - 1]!.end, w.start)}
+          <span
+            className="rounded-sm transition-colors duration-150"
+            style={i === wordIndex ? { color: highlight, backgroundColor: highlight + "22" } : { color, opacity: i < wordIndex ? 1 : 0.55 }}
+          >
+            {w.text}
+          </span>
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,266 @@
+import React, { Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { Canvas, advance, type RootState } from "@react-three/fiber";
+import type { Locale, Scene } from "@/lib/scene";
+import { SceneStage } from "@/components/Stage";
+import { RenderBudgetContext } from "@/components/Performance";
+import { RENDER_BUDGETS, type QualityTier } from "@/lib/performance";
+import { buildCues, planTimings, toWebVTT } from "@/lib/captions";
+import { resolveDwell } from "@/lib/speech";
+import { createNarrationAudioSource, loadNarrationClips, mixNarration } from "@/lib/tts";
+import { drawTransition, frameAt, frameCount, type RenderSettings } from "@/lib/render";
+import { createTar, type TarEntry } from "@/lib/tar";
+import { encodeWav } from "@/lib/wav";
+import { slugify } from "@/lib/text";
+import { localizeScene } from "@/lib/i18n";
+
+export interface RenderJob {
+  scenes: Scene[];
+  locale: Locale;
+  /** Language of the scenes' own text; their translations supply `locale` where they have it. */
+  deckLocale: Locale;
+  title: string;
+  quality: QualityTier;
+  settings: RenderSettings;
+  /** Localized labels for the captions bundled with PNG renders. */
+  labels: { scene: string };
+}
+
+export interface RenderProgress {
+  frame: number;
+  frames: number;
+}
+
+export interface RenderResult {
+  blob: Blob;
+  filename: string;
+  /** Whether narration audio made it into the output. */
+  audio: boolean;
+}
+
+interface FrameSink {
+  frame(index: number): Promise<void>;
+  finish(): Promise<Blob>;
+}
+
+function abortError(): DOMException {
+  return new DOMException("Render cancelled.", "AbortError");
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const sleep = (ms: number) => new Promise((r) => window.setTimeout(r, ms));
+const nextFrame = () => new Promise((r) => requestAnimationFrame(r));
+
+const WEBM_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+/**
+ * Records the output canvas with MediaRecorder. The recorder (and the narration's AudioContext) only run
+ * for one frame period after each frame is drawn, so the video keeps its frame rate however long each
+ * frame took to render, and the audio advances in step with it.
+ */
+async function webmSink(canvas: HTMLCanvasElement, fps: number, audio: AudioBuffer | null): Promise<FrameSink> {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  let ctx: AudioContext | null = null;
+  if (audio) {
+    ctx = new AudioContext({ sampleRate: audio.sampleRate });
+    const destination = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = audio;
+    source.connect(destination);
+    await ctx.suspend();
+    source.start();
+    for (const t of destination.stream.getAudioTracks()) stream.addTrack(t);
+  }
+  const mimeType = WEBM_TYPES.find((t) => MediaRecorder.isTypeSupported(t)) ?? "video/webm";
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size && chunks.push(e.data);
+  recorder.start();
+  recorder.pause();
+  return {
+    async frame() {
+      recorder.resume();
+      await ctx?.resume();
+      track.requestFrame();
+      await sleep(1000 / fps);
+      recorder.pause();
+      await ctx?.suspend();
+    },
+    async finish() {
+      const stopped = new Promise((r) => (recorder.onstop = r));
+      recorder.stop();
+      await stopped;
+      stream.getTracks().forEach((t) => t.stop());
+      await ctx?.close();
+      return new Blob(chunks, { type: mimeType.split(";")[0] });
+    },
+  };
+}
+
+/** A tar of numbered PNG frames plus whatever else belongs with them (audio, captions, a manifest). */
+function pngSink(canvas: HTMLCanvasElement, extras: () => TarEntry[]): FrameSink {
+  const entries: TarEntry[] = [];
+  return {
+    async frame(index) {
+      const png = await new Promise<Blob | null>((r) => canvas.toBlob(r, "image/png"));
+      if (!png) throw new Error("Could not encode frame.");
+      entries.push({ name: `frames/${String(index).padStart(5, "0")}.png`, data: png });
+    },
+    async finish() {
+      return createTar([...entries, ...extras()]);
+    },
+  };
+}
+
+function StageReady({ index, onReady }: { index: number; onReady(index: number): void }) {
+  useEffect(() => onReady(index), [index]);
+  return null;
+}
+
+/**
+ * Renders `job` offline into a hidden canvas stepped on a fixed frame clock (frameloop "never" +
+ * advance), with film grain off and every particle field seeded from its scene, so the same deck always
+ * renders the same frames. The live player canvas is stopped meanwhile. Unmounting cancels the render.
+ */
+export function ChronicleRenderer({ job, onProgress, onDone, onError }: { job: RenderJob; onProgress(p: RenderProgress): void; onDone(r: RenderResult): void; onError(e: unknown): void }) {
+  const { scenes, locale, deckLocale, title, quality, settings, labels } = job;
+  const { width, height, fps, format } = settings;
+  const [stage, setStage] = useState<{ index: number; flyIn: number; duration: number } | null>(null);
+  const root = useMemo(() => deferred<RootState>(), [job]);
+  const ready = useRef<{ index: number; resolve(): void } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const check = () => {
+      if (signal.aborted) throw abortError();
+    };
+
+    async function run(): Promise<RenderResult> {
+      const state = await root.promise;
+      check();
+      // Narration and captions in the render's language; the stage always uses the scenes as authored.
+      const text = scenes.map((scene) => localizeScene(scene, locale, deckLocale));
+
+      let clips: AudioBuffer[] | null = null;
+      try {
+        clips = await loadNarrationClips(createNarrationAudioSource(), text.map((s) => s.narration), locale, signal);
+      } catch (e) {
+        check();
+        console.warn("Narration audio unavailable; rendering without it.", e);
+      }
+      const durations = clips?.map((clip, i) => {
+        const { minMs, maxMs, tailMs } = resolveDwell(text[i]);
+        return Math.min(maxMs, Math.max(minMs, clip.duration * 1000 + tailMs));
+      });
+      const timings = planTimings(text, locale, durations);
+      const frames = frameCount(timings, fps);
+      const seconds = (timings[timings.length - 1]?.end ?? 0) / 1000;
+      const audio = clips ? await mixNarration(clips, timings.map((t) => t.start / 1000), seconds) : null;
+      check();
+
+      const output = document.createElement("canvas");
+      output.width = width;
+      output.height = height;
+      const ctx = output.getContext("2d")!;
+      const snapshot = document.createElement("canvas");
+      snapshot.width = width;
+      snapshot.height = height;
+
+      const sink =
+        format === "webm"
+          ? await webmSink(output, fps, audio)
+          : pngSink(output, () => {
+              const extras: TarEntry[] = [];
+              if (audio) extras.push({ name: "narration.wav", data: encodeWav(audio) });
+              const cues = buildCues(text, timings, locale);
+              extras.push({ name: `captions.${locale}.vtt`, data: toWebVTT(cues, { title, locale, scenes: text, labels }) });
+              extras.push({
+                name: "render.json",
+                data: JSON.stringify(
+                  {
+                    title,
+                    locale,
+                    width,
+                    height,
+                    fps,
+                    frames,
+                    scenes: text.map((s, i) => ({ title: s.title, start: timings[i]!.start, end: timings[i]!.end })),
+                    ffmpeg: `ffmpeg -framerate ${fps} -i frames/%05d.png${audio ? " -i narration.wav -c:a libopus" : ""} -c:v libvpx-vp9 -pix_fmt yuv420p chronicle.webm`,
+                  },
+                  null,
+                  2
+                ),
+              });
+              return extras;
+            });
+
+      let current = -1;
+      try {
+        for (let n = 0; n < frames; n++) {
+          check();
+          const f = frameAt(n, scenes, timings, fps);
+          if (f.stage !== current) {
+            // Dissolves start from the outgoing scene's last frame.
+            snapshot.getContext("2d")!.drawImage(output, 0, 0);
+            current = f.stage;
+            const mounted = new Promise<void>((resolve) => (ready.current = { index: current, resolve }));
+            const timing = timings[current]!;
+            setStage({ index: current, flyIn: f.flyIn, duration: (timing.end - timing.start) / 1000 });
+            await mounted;
+            // Let async text layout and texture uploads settle; nothing renders meanwhile.
+            await nextFrame();
+            await nextFrame();
+            check();
+          }
+          advance(f.time, false, state.get());
+          ctx.drawImage(state.gl.domElement, 0, 0, width, height);
+          drawTransition(ctx, f.transition, snapshot);
+          await sink.frame(n);
+          if (n % 3 === 0 || n === frames - 1) onProgress({ frame: n + 1, frames });
+        }
+      } catch (e) {
+        await sink.finish().catch(() => undefined);
+        throw e;
+      }
+      const blob = await sink.finish();
+      const base = slugify(title);
+      return { blob, filename: format === "webm" ? `${base}.webm` : `${base}-frames.tar`, audio: !!audio };
+    }
+
+    run()
+      .then((result) => !signal.aborted && onDone(result))
+      .catch((e) => !signal.aborted && onError(e));
+    return () => controller.abort();
+  }, [job]);
+
+  const scene = stage ? scenes[stage.index] : undefined;
+  return (
+    <div aria-hidden className="pointer-events-none fixed top-0" style={{ left: -(width + 100), width, height }}>
+      <Canvas
+        frameloop="never"
+        shadows
+        dpr={1}
+        gl={{ antialias: true, preserveDrawingBuffer: true }}
+        camera={{ position: [0, 2, 8], fov: 45 }}
+        onCreated={(state) => root.resolve(state)}
+      >
+        <RenderBudgetContext.Provider value={RENDER_BUDGETS[quality]}>
+          <Suspense fallback={null}>
+            {stage && scene && (
+              <>
+                <SceneStage scene={scene} cameraStyle={scene.cameraStyle} quality={quality} flyIn={stage.flyIn} sceneLocale={deckLocale} duration={stage.duration} grain={false} />
+                <StageReady index={stage.index} onReady={(i) => ready.current?.index === i && ready.current.resolve()} />
+              </>
+            )}
+          </Suspense>
+        </RenderBudgetContext.Provider>
+      </Canvas>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+import { LookupTexture } from "postprocessing";
+import { buildGradeLut } from "@/lib/palette";
+
+type Tinted = THREE.Material & { color?: THREE.Color; userData: { paletteBase?: THREE.Color; paletteLast?: THREE.Color } };
+
+/**
+ * Nudges every standard material below it toward `color`. The untinted color is kept in userData so
+ * re-tinting (a new scene reusing the same set) never compounds, and prop-driven color changes still win.
+ */
+export function PaletteTint({ color, amount = 0.25, children }: { color: string; amount?: number; children: React.ReactNode }) {
+  const group = useRef<THREE.Group>(null);
+  const tint = useMemo(() => new THREE.Color(color), [color]);
+  useLayoutEffect(() => {
+    group.current?.traverse((obj) => {
+      const materials = (obj as THREE.Mesh).material;
+      if (!materials) return;
+      for (const m of (Array.isArray(materials) ? materials : [materials]) as Tinted[]) {
+        if (!(m instanceof THREE.MeshStandardMaterial) || !m.color) continue;
+        const data = m.userData;
+        if (!data.paletteBase || !data.paletteLast?.equals(m.color)) data.paletteBase = m.color.clone();
+        m.color.copy(data.paletteBase).lerp(tint, amount);
+        data.paletteLast = m.color.clone();
+      }
+    });
+  });
+  return <group ref={group}>{children}</group>;
+}
+
+/** A 3D LUT texture grading the frame toward `palette`, rebuilt only when the palette changes. */
+export function useGradeLut(palette: readonly string[] | undefined): LookupTexture {
+  const key = (palette ?? []).join(",");
+  const lut = useMemo(() => new LookupTexture(buildGradeLut(palette), 16), [key]);
+  useEffect(() => () => lut.dispose(), [lut]);
+  return lut;
+}
@@ -0,0 +1,169 @@
+import { useEffect, useMemo } from "react";
+import * as THREE from "three";
+import { useFrame, useThree } from "@react-three/fiber";
+import { createRandom } from "@/lib/random";
+
+/*
+ * Seeded stand-ins for drei's Stars and Sparkles, which scatter their points with Math.random. These
+ * draw from the scene's seed instead, so a scene looks the same on every visit and offline renders of
+ * the same deck produce the same frames. The shaders follow drei's.
+ */
+
+const STARS_VERTEX = /* glsl */ `
+  uniform float time;
+  attribute float size;
+  varying vec3 vColor;
+  void main() {
+    vColor = color;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 0.5);
+    gl_PointSize = size * (30.0 / -mvPosition.z) * (3.0 + sin(time + 100.0));
+    gl_Position = projectionMatrix * mvPosition;
+  }`;
+
+const STARS_FRAGMENT = /* glsl */ `
+  uniform float fade;
+  varying vec3 vColor;
+  void main() {
+    float opacity = 1.0;
+    if (fade == 1.0) {
+      float d = distance(gl_PointCoord, vec2(0.5, 0.5));
+      opacity = 1.0 / (1.0 + exp(16.0 * (d - 0.25)));
+    }
+    gl_FragColor = vec4(vColor, opacity);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }`;
+
+const SPARKLES_VERTEX = /* glsl */ `
+  uniform float pixelRatio;
+  uniform float time;
+  attribute float size;
+  attribute float speed;
+  attribute vec3 noise;
+  varying vec3 vColor;
+  void main() {
+    vec4 modelPosition = modelMatrix * vec4(position, 1.0);
+    modelPosition.y += sin(time * speed + modelPosition.x * noise.x * 100.0) * 0.2;
+    modelPosition.z += cos(time * speed + modelPosition.x * noise.y * 100.0) * 0.2;
+    modelPosition.x += cos(time * speed + modelPosition.x * noise.z * 100.0) * 0.2;
+    vec4 viewPosition = viewMatrix * modelPosition;
+    gl_Position = projectionMatrix * viewPosition;
+    gl_PointSize = size * 25.0 * pixelRatio * (1.0 / -viewPosition.z);
+    vColor = color;
+  }`;
+
+const SPARKLES_FRAGMENT = /* glsl */ `
+  uniform float opacity;
+  varying vec3 vColor;
+  void main() {
+    float strength = 0.05 / distance(gl_PointCoord, vec2(0.5)) - 0.1;
+    gl_FragColor = vec4(vColor, strength * opacity);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }`;
+
+interface StarsProps {
+  seed: number | string;
+  radius?: number;
+  depth?: number;
+  count?: number;
+  factor?: number;
+  fade?: boolean;
+  speed?: number;
+}
+
+/** A shell of white stars between `radius` and `radius + depth`, twinkling in step with the clock. */
+export function SeededStars({ seed, radius = 100, depth = 50, count = 5000, factor = 4, fade = false, speed = 1 }: StarsProps) {
+  const geometry = useMemo(() => {
+    const rng = createRandom(seed);
+    const positions = new Float32Array(count * 3);
+    const sizes = new Float32Array(count);
+    const point = new THREE.Vector3();
+    let r = radius + depth;
+    for (let i = 0; i < count; i++) {
+      r -= (depth / count) * rng.next();
+      point.setFromSpherical(new THREE.Spherical(r, Math.acos(1 - rng.next() * 2), rng.next() * 2 * Math.PI)).toArray(positions, i * 3);
+      sizes[i] = (0.5 + 0.5 * rng.next()) * factor;
+    }
+    const g = new THREE.BufferGeometry();
+    g.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    g.setAttribute("color", new THREE.BufferAttribute(new Float32Array(count * 3).fill(0.9), 3));
+    g.setAttribute("size", new THREE.BufferAttribute(sizes, 1));
+    return g;
+  }, [seed, radius, depth, count, factor]);
+  const material = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        uniforms: { time: { value: 0 }, fade: { value: fade ? 1 : 0 } },
+        vertexShader: STARS_VERTEX,
+        fragmentShader: STARS_FRAGMENT,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+        transparent: true,
+        vertexColors: true,
+      }),
+    [fade]
+  );
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  useFrame((state) => (material.uniforms.time!.value = state.clock.elapsedTime * speed));
+  return <points geometry={geometry} material={material} />;
+}
+
+interface SparklesProps {
+  seed: number | string;
+  count?: number;
+  /** Size of the box the motes fill. */
+  scale?: [number, number, number];
+  position?: [number, number, number];
+  /** Largest mote size; each one gets a seeded size up to this. */
+  size?: number;
+  speed?: number;
+  opacity?: number;
+  /** How much the motes wander. */
+  noise?: number;
+  color?: THREE.ColorRepresentation;
+}
+
+/** Drifting motes of dust or light in a box around `position`. */
+export function SeededSparkles({ seed, count = 100, scale = [1, 1, 1], position, size = 1, speed = 1, opacity = 1, noise = 1, color = "#ffffff" }: SparklesProps) {
+  const dpr = useThree((s) => s.viewport.dpr);
+  const [sx, sy, sz] = scale;
+  const geometry = useMemo(() => {
+    const rng = createRandom(seed);
+    const positions = new Float32Array(count * 3);
+    const sizes = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      positions.set([rng.range(-sx / 2, sx / 2), rng.range(-sy / 2, sy / 2), rng.range(-sz / 2, sz / 2)], i * 3);
+      sizes[i] = rng.next() * size;
+    }
+    const tint = new THREE.Color(color);
+    const colors = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) tint.toArray(colors, i * 3);
+    const g = new THREE.BufferGeometry();
+    g.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    g.setAttribute("size", new THREE.BufferAttribute(sizes, 1));
+    g.setAttribute("speed", new THREE.BufferAttribute(new Float32Array(count).fill(speed), 1));
+    g.setAttribute("noise", new THREE.BufferAttribute(new Float32Array(count * 3).fill(noise), 3));
+    g.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    return g;
+  }, [seed, count, sx, sy, sz, size, speed, noise, color]);
+  const material = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        uniforms: { time: { value: 0 }, pixelRatio: { value: 1 }, opacity: { value: 1 } },
+        vertexShader: SPARKLES_VERTEX,
+        fragmentShader: SPARKLES_FRAGMENT,
+        depthWrite: false,
+        transparent: true,
+        vertexColors: true,
+      }),
+    []
+  );
+  material.uniforms.pixelRatio!.value = dpr;
+  material.uniforms.opacity!.value = opacity;
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  useFrame((state) => (material.uniforms.time!.value = state.clock.elapsedTime));
+  return <points geometry={geometry} material={material} position={position} />;
+}
@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { MAX_TIER, RENDER_BUDGETS, createGovernor, governFrame, resetGovernor, type QualityTier, type RenderBudget } from "@/lib/performance";
+
+/** What the current quality tier lets the stage spend; offline renders get the full budget. */
+export const RenderBudgetContext = createContext<RenderBudget>(RENDER_BUDGETS[MAX_TIER]);
+
+export function useRenderBudget(): RenderBudget {
+  return useContext(RenderBudgetContext);
+}
+
+interface GovernorProps {
+  tier: QualityTier;
+  /** Adapt the tier to the frame rate; otherwise only measure. */
+  adapt: boolean;
+  onTierChange(tier: QualityTier): void;
+  /** Average frame rate, once per measurement window. */
+  onFps?(fps: number): void;
+}
+
+/** Lives inside the Canvas and watches frame times; see lib/performance for the policy. */
+export function PerformanceGovernor({ tier, adapt, onTierChange, onFps }: GovernorProps) {
+  const state = useRef(createGovernor(tier));
+
+  useEffect(() => {
+    if (state.current.tier !== tier) resetGovernor(state.current, tier);
+  }, [tier]);
+
+  useFrame((_, delta) => {
+    const s = state.current;
+    const before = s.tier;
+    if (!governFrame(s, delta * 1000, adapt)) return;
+    if (s.fps !== null) onFps?.(s.fps);
+    if (s.tier !== before) onTierChange(s.tier);
+  });
+  return null;
+}
+
+export interface PerformanceLabels {
+  tier: string;
+  auto: string;
+  manual: string;
+  levels: string[];
+  shadows: string;
+  noShadows: string;
+  bloom: string;
+  noBloom: string;
+}
+
+/** Corner readout of the tier and frame rate. */
+export function PerformanceOverlay({ tier, fps, auto, labels }: { tier: QualityTier; fps: number | null; auto: boolean; labels: PerformanceLabels }) {
+  const budget = RENDER_BUDGETS[tier];
+  const color = fps === null ? "text-slate-300" : fps >= 50 ? "text-emerald-300" : fps >= 30 ? "text-amber-200" : "text-red-300";
+  return (
+    <div className="pointer-events-none absolute top-2 end-2 rounded-lg bg-black/70 px-2 py-1 font-mono text-[11px] leading-tight text-slate-200">
+      <div className={color}>{fps === null ? "– fps" : `${Math.round(fps)} fps`}</div>
+      <div>
+        {labels.tier}: {labels.levels[tier] ?? tier} ({auto ? labels.auto : labels.manual})
+      </div>
+      <div className="text-slate-400">
+        dpr {budget.dpr.join("–")} · {budget.shadows ? `${labels.shadows} ${budget.shadowMapSize}` : labels.noShadows} · {budget.bloom ? labels.bloom : labels.noBloom} · msaa {budget.multisampling}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,638 @@
+import React, { useMemo, useRef } from "react";
+import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
+import { createRandom } from "@/lib/random";
+import { registerPropDefinition, type PropDefinition } from "@/lib/props";
+import { SeededSparkles, SeededStars } from "@/components/Particles";
+
+export interface PropProps {
+  seed: number;
+  palette: string[];
+}
+
+type Vec3 = [number, number, number];
+
+function Pyramid({ palette }: PropProps) {
+  return (
+    <group position={[0, 1.5, 0]}>
+      <mesh castShadow receiveShadow scale={[3, 3, 3]} rotation={[0, Math.PI / 4, 0]}>
+        <coneGeometry args={[1, 1, 4]} />
+        <meshStandardMaterial color={palette[1] ?? "#c2a878"} roughness={0.8} metalness={0.1} />
+      </mesh>
+    </group>
+  );
+}
+
+function Spacecraft() {
+  return (
+    <group position={[0, 2.2, 0]} rotation={[0, 0, Math.PI / 2.4]}>
+      <mesh castShadow>
+        <coneGeometry args={[0.45, 0.7, 24]} />
+        <meshStandardMaterial color="#d7d7d2" metalness={0.7} roughness={0.3} />
+      </mesh>
+      <mesh position={[0, -0.75, 0]} castShadow>
+        <cylinderGeometry args={[0.42, 0.42, 0.8, 24]} />
+        <meshStandardMaterial color="#b9bcc2" metalness={0.6} roughness={0.4} />
+      </mesh>
+      <mesh position={[0, -1.3, 0]}>
+        <coneGeometry args={[0.22, 0.35, 16, 1, true]} />
+        <meshStandardMaterial color="#333" side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  );
+}
+
+function LunarModule() {
+  const legs: Vec3[] = [
+    [0.8, 0.35, 0.8],
+    [-0.8, 0.35, 0.8],
+    [0.8, 0.35, -0.8],
+    [-0.8, 0.35, -0.8],
+  ];
+  return (
+    <group>
+      <mesh position={[0, 0.9, 0]} castShadow>
+        <boxGeometry args={[1.1, 0.5, 1.1]} />
+        <meshStandardMaterial color="#c9a227" metalness={0.8} roughness={0.35} />
+      </mesh>
+      <mesh position={[0, 1.5, 0]} castShadow>
+        <dodecahedronGeometry args={[0.5, 0]} />
+        <meshStandardMaterial color="#cfd2d6" metalness={0.4} roughness={0.5} />
+      </mesh>
+      {legs.map((p, i) => (
+        <group key={i}>
+          <mesh position={p} rotation={[p[2] > 0 ? 0.5 : -0.5, 0, p[0] > 0 ? -0.5 : 0.5]} castShadow>
+            <cylinderGeometry args={[0.03, 0.03, 1, 8]} />
+            <meshStandardMaterial color="#999" metalness={0.6} />
+          </mesh>
+          <mesh position={[p[0] * 1.2, 0.03, p[2] * 1.2]}>
+            <cylinderGeometry args={[0.14, 0.14, 0.04, 12]} />
+            <meshStandardMaterial color="#aaa" />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+}
+
+function Barge({ palette }: PropProps) {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((state) => {
+    if (!ref.current) return;
+    const t = state.clock.elapsedTime;
+    ref.current.position.y = 0.15 + Math.sin(t * 0.9) * 0.05;
+    ref.current.rotation.z = Math.sin(t * 0.7) * 0.03;
+  });
+  return (
+    <group ref={ref}>
+      <mesh castShadow scale={[3.2, 0.35, 0.9]}>
+        <sphereGeometry args={[0.6, 24, 12, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2]} />
+        <meshStandardMaterial color={palette[2] ?? "#8b5a2b"} roughness={0.7} side={THREE.DoubleSide} />
+      </mesh>
+      <mesh position={[0, 0.45, 0]} castShadow>
+        <boxGeometry args={[0.9, 0.5, 0.6]} />
+        <meshStandardMaterial color={palette[1] ?? "#efe3b0"} roughness={0.6} />
+      </mesh>
+      {[-1.9, 1.9].map((x) => (
+        <mesh key={x} position={[x, 0.45, 0]} rotation={[0, 0, x > 0 ? -0.6 : 0.6]} castShadow>
+          <cylinderGeometry args={[0.05, 0.08, 0.8, 8]} />
+          <meshStandardMaterial color={palette[2] ?? "#b8882d"} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function LandingCraft() {
+  return (
+    <group position={[0, 0.35, 0]} rotation={[0, 0, 0]}>
+      <mesh castShadow>
+        <boxGeometry args={[1.4, 0.7, 2.6]} />
+        <meshStandardMaterial color="#5b6553" roughness={0.8} metalness={0.3} />
+      </mesh>
+      <mesh position={[0, 0.05, 1.45]} rotation={[0.9, 0, 0]} castShadow>
+        <boxGeometry args={[1.3, 0.9, 0.08]} />
+        <meshStandardMaterial color="#4d5547" roughness={0.8} metalness={0.3} />
+      </mesh>
+    </group>
+  );
+}
+
+function Table({ palette }: PropProps) {
+  return (
+    <group>
+      <mesh position={[0, 0.75, 0]} castShadow receiveShadow>
+        <boxGeometry args={[2.2, 0.08, 1]} />
+        <meshStandardMaterial color={palette[2] ?? "#5a3d24"} roughness={0.6} />
+      </mesh>
+      {[
+        [-1, 0.37, -0.4],
+        [1, 0.37, -0.4],
+        [-1, 0.37, 0.4],
+        [1, 0.37, 0.4],
+      ].map((p, i) => (
+        <mesh key={i} position={p as Vec3} castShadow>
+          <boxGeometry args={[0.07, 0.74, 0.07]} />
+          <meshStandardMaterial color="#3b2a1a" />
+        </mesh>
+      ))}
+      <mesh position={[0, 0.8, 0]} receiveShadow>
+        <boxGeometry args={[2.3, 0.01, 1.1]} />
+        <meshStandardMaterial color="#2f4f3a" roughness={1} />
+      </mesh>
+    </group>
+  );
+}
+
+function Moon() {
+  return (
+    <group position={[0, 6, 0]}>
+      <mesh>
+        <sphereGeometry args={[1.6, 48, 48]} />
+        <meshStandardMaterial color="#d9d9d2" emissive="#3a3a36" roughness={1} />
+      </mesh>
+      <mesh position={[-0.7, 0.2, 0.9]}>
+        <sphereGeometry args={[1.55, 48, 48]} />
+        <meshBasicMaterial color="#000" transparent opacity={0.85} />
+      </mesh>
+    </group>
+  );
+}
+
+function Sun({ palette }: PropProps) {
+  return (
+    <group position={[0, 4, -6]}>
+      <mesh>
+        <circleGeometry args={[1.1, 48]} />
+        <meshBasicMaterial color={palette[1] ?? "#fff3c4"} toneMapped={false} />
+      </mesh>
+      <mesh position={[0, 0, -0.01]}>
+        <circleGeometry args={[2.4, 48]} />
+        <meshBasicMaterial color={palette[1] ?? "#fff3c4"} transparent opacity={0.18} toneMapped={false} />
+      </mesh>
+    </group>
+  );
+}
+
+function Buildings({ seed, palette }: PropProps) {
+  const blocks = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 7 }, (_, i) => ({ x: (i - 3) * 1.1, h: rng.range(1.2, 3.4), w: rng.range(0.8, 1.05), roof: rng.next() > 0.5 }));
+  }, [seed]);
+  return (
+    <group>
+      {blocks.map((b, i) => (
+        <group key={i} position={[b.x, 0, 0]}>
+          <mesh position={[0, b.h / 2, 0]} castShadow receiveShadow>
+            <boxGeometry args={[b.w, b.h, 1]} />
+            <meshStandardMaterial color={palette[0] ?? "#2a2a2a"} roughness={0.9} />
+          </mesh>
+          {b.roof && (
+            <mesh position={[0, b.h + 0.3, 0]} rotation={[0, Math.PI / 4, 0]} castShadow>
+              <coneGeometry args={[b.w * 0.75, 0.6, 4]} />
+              <meshStandardMaterial color={palette[2] ?? "#444"} roughness={0.9} />
+            </mesh>
+          )}
+        </group>
+      ))}
+    </group>
+  );
+}
+
+function Hieroglyphs({ seed, palette }: PropProps) {
+  const glyphs = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 24 }, (_, i) => ({ x: (i % 6) * 0.45 - 1.1, y: 0.6 + Math.floor(i / 6) * 0.55, w: rng.range(0.12, 0.3), h: rng.range(0.15, 0.4) }));
+  }, [seed]);
+  return (
+    <group>
+      <mesh position={[0, 1.4, 0]} receiveShadow>
+        <boxGeometry args={[3, 2.8, 0.2]} />
+        <meshStandardMaterial color={palette[3] ?? "#d8c9a3"} roughness={1} />
+      </mesh>
+      {glyphs.map((g, i) => (
+        <mesh key={i} position={[g.x, g.y, 0.11]}>
+          <planeGeometry args={[g.w, g.h]} />
+          <meshStandardMaterial color={palette[2] ?? "#8c5a12"} roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Flag({ palette }: PropProps) {
+  const cloth = useRef<THREE.Mesh>(null);
+  useFrame((state) => {
+    if (cloth.current) cloth.current.rotation.y = Math.sin(state.clock.elapsedTime * 2) * 0.12;
+  });
+  return (
+    <group>
+      <mesh position={[0, 1, 0]} castShadow>
+        <cylinderGeometry args={[0.03, 0.03, 2, 16]} />
+        <meshStandardMaterial color="#888" />
+      </mesh>
+      <mesh ref={cloth} position={[0.6, 1.7, 0]} castShadow>
+        <planeGeometry args={[1.2, 0.6, 10, 5]} />
+        <meshStandardMaterial color={palette[3] ?? "#ff2e2e"} side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  );
+}
+
+function Footprints({ palette }: PropProps) {
+  return (
+    <group>
+      {Array.from({ length: 8 }, (_, i) => (
+        <mesh key={i} position={[(i % 2) * 0.25 - 0.12, 0.01, i * 0.35 - 1.2]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[0.08, 0.12, 24]} />
+          <meshStandardMaterial color={palette[1] ?? "#777"} roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Craters({ seed }: PropProps) {
+  const craters = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 4 }, () => ({ x: rng.range(-1, 1), z: rng.range(-1, 1), r: rng.range(0.25, 0.6) }));
+  }, [seed]);
+  return (
+    <group>
+      {craters.map((c, i) => (
+        <mesh key={i} position={[c.x, 0.02, c.z]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+          <torusGeometry args={[c.r, c.r * 0.18, 8, 32]} />
+          <meshStandardMaterial color="#6f6f6f" roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Dust({ palette, seed }: PropProps) {
+  return <SeededSparkles seed={seed} count={60} scale={[2.5, 1.2, 2.5]} position={[0, 0.6, 0]} size={6} speed={0.3} opacity={0.5} color={palette[1] ?? "#c2b280"} />;
+}
+
+function Ramp({ palette }: PropProps) {
+  return (
+    <mesh position={[0, 0.5, 0]} rotation={[0, 0, -0.35]} castShadow receiveShadow>
+      <boxGeometry args={[3, 0.2, 1.2]} />
+      <meshStandardMaterial color={palette[2] ?? "#6e4b1f"} roughness={1} />
+    </mesh>
+  );
+}
+
+function Crowd({ seed, palette }: PropProps) {
+  const people = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 9 }, () => ({ x: rng.range(-1, 1), z: rng.range(-1, 1), h: rng.range(0.9, 1.15) }));
+  }, [seed]);
+  return (
+    <group>
+      {people.map((p, i) => (
+        <group key={i} position={[p.x, 0, p.z]} scale={p.h}>
+          <mesh position={[0, 0.45, 0]} castShadow>
+            <capsuleGeometry args={[0.12, 0.5, 4, 8]} />
+            <meshStandardMaterial color={palette[i % 2 ? 2 : 0] ?? "#555"} roughness={0.9} />
+          </mesh>
+          <mesh position={[0, 0.95, 0]} castShadow>
+            <sphereGeometry args={[0.1, 12, 12]} />
+            <meshStandardMaterial color="#c8a27c" />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+}
+
+function Smoke() {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((_, dt) => {
+    ref.current?.children.forEach((c, i) => {
+      c.position.y = (c.position.y + dt * (0.25 + i * 0.04)) % 3;
+      c.scale.setScalar(0.4 + c.position.y * 0.35);
+    });
+  });
+  return (
+    <group ref={ref}>
+      {Array.from({ length: 6 }, (_, i) => (
+        <mesh key={i} position={[Math.sin(i) * 0.2, i * 0.5, Math.cos(i) * 0.2]}>
+          <sphereGeometry args={[0.5, 12, 12]} />
+          <meshStandardMaterial color="#555" transparent opacity={0.25} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Torch({ seed }: PropProps) {
+  const light = useRef<THREE.PointLight>(null);
+  const flame = useRef<THREE.Mesh>(null);
+  useFrame((state) => {
+    const t = state.clock.elapsedTime * 9 + seed;
+    const flicker = 0.8 + 0.2 * Math.sin(t) * Math.sin(t * 1.7);
+    if (light.current) light.current.intensity = 2.2 * flicker;
+    if (flame.current) flame.current.scale.y = flicker;
+  });
+  return (
+    <group>
+      <mesh position={[0, 0.7, 0]} castShadow>
+        <cylinderGeometry args={[0.04, 0.05, 1.4, 8]} />
+        <meshStandardMaterial color="#3b2a1a" />
+      </mesh>
+      <mesh ref={flame} position={[0, 1.5, 0]}>
+        <coneGeometry args={[0.1, 0.3, 12]} />
+        <meshBasicMaterial color="#ffb347" toneMapped={false} />
+      </mesh>
+      <pointLight ref={light} position={[0, 1.6, 0]} color="#ffa040" distance={6} decay={2} />
+    </group>
+  );
+}
+
+function Reeds({ seed }: PropProps) {
+  const stalks = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 18 }, () => ({ x: rng.range(-0.8, 0.8), z: rng.range(-0.8, 0.8), h: rng.range(0.6, 1.4), lean: rng.range(-0.2, 0.2) }));
+  }, [seed]);
+  return (
+    <group>
+      {stalks.map((s, i) => (
+        <mesh key={i} position={[s.x, s.h / 2, s.z]} rotation={[0, 0, s.lean]}>
+          <cylinderGeometry args={[0.015, 0.025, s.h, 5]} />
+          <meshStandardMaterial color="#6b8e23" />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Oars() {
+  return (
+    <group>
+      {[-0.3, 0.3].map((z) => (
+        <group key={z} position={[0, 0.2, z]} rotation={[0, 0, 0.3]}>
+          <mesh>
+            <cylinderGeometry args={[0.03, 0.03, 1.6, 8]} />
+            <meshStandardMaterial color="#8b5a2b" />
+          </mesh>
+          <mesh position={[0, -0.8, 0]}>
+            <boxGeometry args={[0.18, 0.4, 0.03]} />
+            <meshStandardMaterial color="#8b5a2b" />
+          </mesh>
+        </group>
+      ))}
+    </group>
+  );
+}
+
+function Barriers() {
+  return (
+    <group>
+      {[-0.6, 0.6].map((x) => (
+        <group key={x} position={[x, 0.35, 0]}>
+          {[0, 1, 2].map((i) => (
+            <mesh key={i} rotation={[i === 0 ? Math.PI / 4 : 0, i === 1 ? Math.PI / 4 : 0, i === 2 ? Math.PI / 4 : Math.PI / 2]} castShadow>
+              <boxGeometry args={[0.08, 0.9, 0.08]} />
+              <meshStandardMaterial color="#3a3a3a" metalness={0.7} roughness={0.5} />
+            </mesh>
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+}
+
+function Searchlight({ seed }: PropProps) {
+  const beam = useRef<THREE.Group>(null);
+  useFrame((state) => {
+    if (beam.current) beam.current.rotation.z = Math.sin(state.clock.elapsedTime * 0.4 + seed) * 0.5;
+  });
+  return (
+    <group>
+      <mesh position={[0, 0.25, 0]} castShadow>
+        <cylinderGeometry args={[0.2, 0.25, 0.5, 16]} />
+        <meshStandardMaterial color="#333" metalness={0.6} />
+      </mesh>
+      <group ref={beam} position={[0, 0.5, 0]}>
+        <mesh position={[0, 6, 0]}>
+          <cylinderGeometry args={[0.9, 0.12, 12, 24, 1, true]} />
+          <meshBasicMaterial color="#fffbe6" transparent opacity={0.12} depthWrite={false} side={THREE.DoubleSide} toneMapped={false} />
+        </mesh>
+      </group>
+    </group>
+  );
+}
+
+function Siren() {
+  return (
+    <group>
+      <mesh position={[0, 1.2, 0]} castShadow>
+        <cylinderGeometry args={[0.04, 0.05, 2.4, 8]} />
+        <meshStandardMaterial color="#555" />
+      </mesh>
+      <mesh position={[0, 2.4, 0.15]} rotation={[Math.PI / 2, 0, 0]} castShadow>
+        <coneGeometry args={[0.2, 0.4, 16, 1, true]} />
+        <meshStandardMaterial color="#777" side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  );
+}
+
+function Sandbags() {
+  return (
+    <group>
+      {Array.from({ length: 10 }, (_, i) => (
+        <mesh key={i} position={[(i % 5) * 0.45 - 0.9 + (i >= 5 ? 0.22 : 0), i >= 5 ? 0.36 : 0.14, 0]} castShadow receiveShadow scale={[1, 0.55, 0.7]}>
+          <sphereGeometry args={[0.26, 12, 8]} />
+          <meshStandardMaterial color="#8a7a5a" roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Documents({ seed }: PropProps) {
+  const sheets = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 4 }, () => ({ x: rng.range(-0.3, 0.3), z: rng.range(-0.2, 0.2), r: rng.range(-0.4, 0.4) }));
+  }, [seed]);
+  return (
+    <group position={[0, 0.82, 0]}>
+      {sheets.map((s, i) => (
+        <mesh key={i} position={[s.x, i * 0.003, s.z]} rotation={[-Math.PI / 2, 0, s.r]}>
+          <planeGeometry args={[0.3, 0.42]} />
+          <meshStandardMaterial color="#f3efe2" roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Medals() {
+  return (
+    <group position={[0, 0.85, 0]}>
+      {[-0.15, 0, 0.15].map((x) => (
+        <mesh key={x} position={[x, 0, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[0.05, 0.05, 0.01, 16]} />
+          <meshStandardMaterial color="#d4af37" metalness={1} roughness={0.25} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Debris({ seed, palette }: PropProps) {
+  const bits = useMemo(() => {
+    const rng = createRandom(seed);
+    return Array.from({ length: 14 }, () => ({ x: rng.range(-1, 1), z: rng.range(-1, 1), r: rng.range(0, Math.PI), s: rng.range(0.08, 0.25) }));
+  }, [seed]);
+  return (
+    <group>
+      {bits.map((b, i) => (
+        <mesh key={i} position={[b.x, 0.02, b.z]} rotation={[-Math.PI / 2, 0, b.r]}>
+          <planeGeometry args={[b.s, b.s * 1.3]} />
+          <meshStandardMaterial color={i % 3 ? "#e8e4d8" : palette[2] ?? "#777"} side={THREE.DoubleSide} roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function StarsOverlay({ seed }: PropProps) {
+  return <SeededStars seed={seed} radius={60} depth={30} count={1500} factor={2} fade speed={0.3} />;
+}
+
+function Haze({ palette, seed }: PropProps) {
+  return <SeededSparkles seed={seed} count={120} scale={[14, 3, 14]} position={[0, 1.5, -2]} size={10} speed={0.15} opacity={0.25} color={palette[1] ?? "#f2d3a2"} />;
+}
+
+function Glitter({ seed }: PropProps) {
+  return <SeededSparkles seed={seed} count={80} scale={[10, 0.2, 10]} position={[0, 0.1, -1]} size={4} speed={0.8} color="#fff6d0" />;
+}
+
+function Corridor({ palette }: PropProps) {
+  return (
+    <group>
+      {[-1.6, 1.6].map((x) => (
+        <mesh key={x} position={[x, 1.6, -2]} receiveShadow>
+          <boxGeometry args={[0.3, 3.2, 10]} />
+          <meshStandardMaterial color={palette[2] ?? "#6b5a45"} roughness={1} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Waves({ seed }: PropProps) {
+  const ref = useRef<THREE.Group>(null);
+  useFrame((state) => {
+    const t = state.clock.elapsedTime;
+    ref.current?.children.forEach((c, i) => {
+      c.position.z = ((t * 0.6 + i * 1.5 + seed) % 9) - 6;
+    });
+  });
+  return (
+    <group ref={ref}>
+      {Array.from({ length: 6 }, (_, i) => (
+        <mesh key={i} position={[0, 0.06, 0]} rotation={[0, 0, Math.PI / 2]}>
+          <capsuleGeometry args={[0.05, 12, 4, 8]} />
+          <meshStandardMaterial color="#e6f0f2" transparent opacity={0.6} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Plaza({ palette }: PropProps) {
+  return (
+    <mesh position={[0, 0.01, -1]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+      <circleGeometry args={[6, 48]} />
+      <meshStandardMaterial color={palette[1] ?? "#8a8477"} roughness={0.95} />
+    </mesh>
+  );
+}
+
+function Street() {
+  return (
+    <group>
+      <mesh position={[0, 0.01, -1]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+        <planeGeometry args={[3, 30]} />
+        <meshStandardMaterial color="#2d2d2d" roughness={0.9} />
+      </mesh>
+      {[-1.6, 1.6].map((x) => (
+        <mesh key={x} position={[x, 0.06, -1]} receiveShadow>
+          <boxGeometry args={[0.25, 0.12, 30]} />
+          <meshStandardMaterial color="#666" />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+function Motion({ palette, seed }: PropProps) {
+  return <SeededSparkles seed={seed} count={50} scale={[12, 2, 4]} position={[0, 1, -1]} size={3} speed={2.5} noise={0.2} color={palette[1] ?? "#ffffff"} />;
+}
+
+function Shadows() {
+  return (
+    <group>
+      {[-2.5, -0.8, 1.2, 2.8].map((x, i) => (
+        <mesh key={x} position={[x, 0.015, 1 + i * 0.3]} rotation={[-Math.PI / 2, 0, 0.3]}>
+          <planeGeometry args={[0.5, 4]} />
+          <meshBasicMaterial color="#000" transparent opacity={0.35} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+const components = new Map<string, React.ComponentType<PropProps>>(
+  Object.entries({
+    pyramid: Pyramid,
+    spacecraft: Spacecraft,
+    "lunar-module": LunarModule,
+    barge: Barge,
+    "landing-craft": LandingCraft,
+    table: Table,
+    moon: Moon,
+    sun: Sun,
+    buildings: Buildings,
+    hieroglyphs: Hieroglyphs,
+    flag: Flag,
+    footprints: Footprints,
+    craters: Craters,
+    dust: Dust,
+    ramp: Ramp,
+    crowd: Crowd,
+    smoke: Smoke,
+    torch: Torch,
+    reeds: Reeds,
+    oars: Oars,
+    barriers: Barriers,
+    searchlight: Searchlight,
+    siren: Siren,
+    sandbags: Sandbags,
+    documents: Documents,
+    medals: Medals,
+    debris: Debris,
+    stars: StarsOverlay,
+    haze: Haze,
+    glitter: Glitter,
+    corridor: Corridor,
+    waves: Waves,
+    plaza: Plaza,
+    street: Street,
+    motion: Motion,
+    shadows: Shadows,
+  })
+);
+
+/** Adds (or replaces) a prop: its matching rules and the component that renders it. */
+export function registerProp(def: PropDefinition, component: React.ComponentType<PropProps>) {
+  registerPropDefinition(def);
+  components.set(def.id, component);
+}
+
+export function getPropComponent(id: string): React.ComponentType<PropProps> | undefined {
+  return components.get(id);
+}
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, ChevronUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Locale, Scene } from "@/lib/scene";
+import { formatMessage } from "@/lib/i18n";
+import { isCorrect, questionScenes, scoreQuiz, toCSV, type QuizQuestion, type QuizResponse } from "@/lib/quiz";
+
+export interface QuizLabels {
+  title: string;
+  /** "Question {current} of {total}" */
+  progress: string;
+  /** "When does “{title}” take place?" */
+  timePeriod: string;
+  /** "Which of these appears in “{title}”?" */
+  keyword: string;
+  order: string;
+  match: string;
+  choose: string;
+  /** "Move “{title}” earlier" */
+  moveUp: string;
+  moveDown: string;
+  check: string;
+  next: string;
+  finish: string;
+  continue: string;
+  correct: string;
+  incorrect: string;
+  /** "The answer: {answer}" */
+  answerWas: string;
+  /** "Review scene {scene}" */
+  review: string;
+  /** "{correct} of {total} correct" */
+  score: string;
+  unanswered: string;
+  exportCsv: string;
+  retake: string;
+  close: string;
+  none: string;
+  yes: string;
+  no: string;
+  csvColumns: string[];
+}
+
+const sceneTitle = (scenes: readonly Scene[], i: number) => scenes[i]?.title ?? String(i + 1);
+
+export function questionPrompt(question: QuizQuestion, scenes: readonly Scene[], labels: QuizLabels, locale: Locale): string {
+  switch (question.kind) {
+    case "authored":
+      return question.prompt;
+    case "order":
+      return labels.order;
+    case "match":
+      return labels.match;
+    default:
+      return formatMessage(labels[question.kind], { title: sceneTitle(scenes, question.scene) }, locale);
+  }
+}
+
+/** A response (or, given `question.answer`, the right one) as text: the choice, the titles in order, or title → place pairs. */
+export function responseText(question: QuizQuestion, response: QuizResponse | undefined, scenes: readonly Scene[]): string {
+  if (response === undefined) return "";
+  const list = Array.isArray(response) ? response : [response];
+  if (question.kind === "order") return list.map((i) => sceneTitle(scenes, i)).join(" → ");
+  if (question.kind === "match") return question.rows.map((scene, r) => `${sceneTitle(scenes, scene)}: ${question.choices[list[r] ?? -1] ?? "—"}`).join("; ");
+  return question.choices[list[0]!] ?? "";
+}
+
+/** The scene to go back to after a miss: the first one the response got wrong, else the question's first. */
+function reviewScene(question: QuizQuestion, response: QuizResponse | undefined): number {
+  const scenes = questionScenes(question);
+  if (!Array.isArray(response)) return scenes[0]!;
+  if (question.kind === "order") return question.answer.find((s, k) => response[k] !== s) ?? scenes[0]!;
+  if (question.kind === "match") return question.rows.find((_, r) => response[r] !== question.answer[r]) ?? scenes[0]!;
+  return scenes[0]!;
+}
+
+/** The results as CSV, one row per question, with the column names from the catalog. */
+export function quizCSV(questions: readonly QuizQuestion[], answers: Readonly<Record<string, QuizResponse>>, scenes: readonly Scene[], labels: QuizLabels, locale: Locale): string {
+  return toCSV([
+    labels.csvColumns,
+    ...questions.map((q, n) => {
+      const given = answers[q.id];
+      return [
+        n + 1,
+        questionScenes(q).map((s) => s + 1).join("; "),
+        questionPrompt(q, scenes, labels, locale),
+        given === undefined ? labels.unanswered : responseText(q, given, scenes),
+        responseText(q, q.answer, scenes),
+        given === undefined ? "" : isCorrect(q, given) ? labels.yes : labels.no,
+      ];
+    }),
+  ]);
+}
+
+function initialDraft(question: QuizQuestion): QuizResponse | undefined {
+  if (question.kind === "order") return question.items;
+  if (question.kind === "match") return question.rows.map(() => -1);
+  return undefined;
+}
+
+function complete(question: QuizQuestion, draft: QuizResponse | undefined): boolean {
+  if (question.kind === "match") return Array.isArray(draft) && draft.every((c) => c >= 0);
+  return draft !== undefined;
+}
+
+interface QuestionCardProps {
+  question: QuizQuestion;
+  scenes: readonly Scene[];
+  locale: Locale;
+  labels: QuizLabels;
+  last: boolean;
+  /** Wording for the button after the last question. */
+  finishLabel: string;
+  onAnswer(response: QuizResponse): void;
+  onReview(scene: number): void;
+  onNext(): void;
+}
+
+function QuestionCard({ question, scenes, locale, labels, last, finishLabel, onAnswer, onReview, onNext }: QuestionCardProps) {
+  const [draft, setDraft] = useState<QuizResponse | undefined>(() => initialDraft(question));
+  const [checked, setChecked] = useState(false);
+  const correct = checked && isCorrect(question, draft);
+  const name = `quiz-${question.id}`;
+  const list = Array.isArray(draft) ? draft : [];
+
+  function move(from: number, by: number) {
+    const next = [...list];
+    const to = from + by;
+    if (to < 0 || to >= next.length) return;
+    [next[from], next[to]] = [next[to]!, next[from]!];
+    setDraft(next);
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="font-medium text-white">{questionPrompt(question, scenes, labels, locale)}</p>
+
+      {(question.kind === "timePeriod" || question.kind === "keyword" || question.kind === "authored") && (
+        <fieldset className="space-y-1" disabled={checked}>
+          <legend className="sr-only">{questionPrompt(question, scenes, labels, locale)}</legend>
+          {question.choices.map((choice, i) => (
+            <label key={i} className={`flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-1.5 ${checked && i === question.answer ? "border-emerald-400/70 bg-emerald-400/10" : "border-white/10 bg-white/5 hover:bg-white/10"}`}>
+              <input type="radio" name={name} className="accent-white" checked={draft === i} onChange={() => setDraft(i)} />
+              {choice}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {question.kind === "order" && (
+        <ol className="space-y-1">
+          {list.map((scene, k) => (
+            <li key={scene} className="flex items-center gap-2 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5">
+              <span className="w-5 text-xs text-slate-400">{k + 1}.</span>
+              <span className="flex-1">{sceneTitle(scenes, scene)}</span>
+              <button type="button" disabled={checked || k === 0} className="rounded p-0.5 text-slate-300 hover:text-white disabled:opacity-30" aria-label={formatMessage(labels.moveUp, { title: sceneTitle(scenes, scene) }, locale)} onClick={() => move(k, -1)}>
+                <ChevronUp className="h-4 w-4" aria-hidden />
+              </button>
+              <button type="button" disabled={checked || k === list.length - 1} className="rounded p-0.5 text-slate-300 hover:text-white disabled:opacity-30" aria-label={formatMessage(labels.moveDown, { title: sceneTitle(scenes, scene) }, locale)} onClick={() => move(k, 1)}>
+                <ChevronDown className="h-4 w-4" aria-hidden />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {question.kind === "match" && (
+        <div className="space-y-1">
+          {question.rows.map((scene, r) => (
+            <div key={scene} className="flex items-center gap-3 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5">
+              <span className="flex-1">{sceneTitle(scenes, scene)}</span>
+              <Select
+                value={list[r]! >= 0 ? String(list[r]) : undefined}
+                onValueChange={(v) => {
+                  if (checked) return;
+                  const next = [...list];
+                  next[r] = Number(v);
+                  setDraft(next);
+                }}
+              >
+                <SelectTrigger className="w-48" aria-label={`${sceneTitle(scenes, scene)}: ${labels.choose}`}>
+                  <SelectValue placeholder={labels.choose} />
+                </SelectTrigger>
+                <SelectContent>
+                  {question.choices.map((choice, i) => (
+                    <SelectItem key={i} value={String(i)}>
+                      {choice}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {checked && (
+        <div role="status" className={`rounded-lg px-3 py-2 text-sm ${correct ? "bg-emerald-400/10 text-emerald-200" : "bg-red-400/10 text-red-200"}`}>
+          <p className="font-medium">{correct ? labels.correct : labels.incorrect}</p>
+          {!correct && <p>{formatMessage(labels.answerWas, { answer: responseText(question, question.answer, scenes) }, locale)}</p>}
+          {question.kind === "authored" && question.explanation && <p className="mt-1 text-slate-200">{question.explanation}</p>}
+          {!correct && (
+            <button type="button" className="mt-1 underline underline-offset-2 hover:text-white" onClick={() => onReview(reviewScene(question, draft))}>
+              {formatMessage(labels.review, { scene: reviewScene(question, draft) + 1 }, locale)}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        {checked ? (
+          <Button className="px-3 py-1 text-sm" onClick={onNext}>
+            {last ? finishLabel : labels.next}
+          </Button>
+        ) : (
+          <Button
+            className="px-3 py-1 text-sm"
+            disabled={!complete(question, draft)}
+            onClick={() => {
+              setChecked(true);
+              if (draft !== undefined) onAnswer(draft);
+            }}
+          >
+            {labels.check}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface QuizPanelProps {
+  /** The questions to ask now; the others in `questions` only show up in the results. */
+  run: readonly QuizQuestion[];
+  questions: readonly QuizQuestion[];
+  answers: Readonly<Record<string, QuizResponse>>;
+  scenes: readonly Scene[];
+  /** Autoplay stopped for these questions: once they are answered the show goes on, without results. */
+  resume: boolean;
+  locale: Locale;
+  labels: QuizLabels;
+  onAnswer(id: string, response: QuizResponse): void;
+  onReview(scene: number): void;
+  onContinue(): void;
+  onRetake(): void;
+  onExport(): void;
+  onClose(): void;
+}
+
+/** The quiz over the stage: the run's questions one at a time with feedback, then the results. */
+export function QuizPanel({ run, questions, answers, scenes, resume, locale, labels, onAnswer, onReview, onContinue, onRetake, onExport, onClose }: QuizPanelProps) {
+  const [step, setStep] = useState(0);
+  const panel = useRef<HTMLDivElement | null>(null);
+  const question = run[step];
+  const score = scoreQuiz(questions, answers);
+
+  useEffect(() => {
+    panel.current?.focus();
+  }, [step]);
+
+  return (
+    <div
+      ref={panel}
+      role="dialog"
+      aria-label={labels.title}
+      tabIndex={-1}
+      className="absolute inset-0 overflow-y-auto bg-slate-950/90 p-4 text-sm text-slate-200 outline-none backdrop-blur"
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && !e.defaultPrevented) onClose();
+      }}
+    >
+      <div className="mx-auto max-w-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-base font-semibold text-white">{labels.title}</h3>
+          <span className="flex items-center gap-3 text-xs text-slate-400">
+            {question && formatMessage(labels.progress, { current: step + 1, total: run.length }, locale)}
+            <button type="button" className="rounded p-0.5 hover:text-white" aria-label={labels.close} title={labels.close} onClick={onClose}>
+              <X className="h-4 w-4" aria-hidden />
+            </button>
+          </span>
+        </div>
+
+        {question ? (
+          <QuestionCard
+            key={question.id}
+            question={question}
+            scenes={scenes}
+            locale={locale}
+            labels={labels}
+            last={step === run.length - 1}
+            finishLabel={resume ? labels.continue : labels.finish}
+            onAnswer={(response) => onAnswer(question.id, response)}
+            onReview={onReview}
+            onNext={() => (step === run.length - 1 && resume ? onContinue() : setStep(step + 1))}
+          />
+        ) : !questions.length ? (
+          <p className="text-slate-400">{labels.none}</p>
+        ) : (
+          <>
+            <p className="text-lg font-semibold text-white">{formatMessage(labels.score, { correct: score.correct, total: score.total }, locale)}</p>
+            <ol className="space-y-1">
+              {questions.map((q, n) => {
+                const given = answers[q.id];
+                const right = isCorrect(q, given);
+                return (
+                  <li key={q.id} className="flex items-start gap-2 rounded-lg border border-white/10 bg-white/5 px-3 py-1.5">
+                    <span className="w-5 shrink-0 text-xs text-slate-400">{n + 1}.</span>
+                    <span className="flex-1">
+                      {questionPrompt(q, scenes, labels, locale)}
+                      <span className="block text-xs text-slate-400">{given === undefined ? labels.unanswered : responseText(q, given, scenes)}</span>
+                    </span>
+                    {given !== undefined && (right ? <Check className="h-4 w-4 shrink-0 text-emerald-300" aria-label={labels.correct} /> : <X className="h-4 w-4 shrink-0 text-red-300" aria-label={labels.incorrect} />)}
+                    {!right && (
+                      <button type="button" className="shrink-0 text-xs underline underline-offset-2 hover:text-white" onClick={() => onReview(reviewScene(q, given))}>
+                        {formatMessage(labels.review, { scene: reviewScene(q, given) + 1 }, locale)}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+            <div className="flex justify-end gap-2">
+              <Button className="px-3 py-1 text-sm" onClick={onExport}>
+                {labels.exportCsv}
+              </Button>
+              <Button className="px-3 py-1 text-sm" onClick={onRetake}>
+                {labels.retake}
+              </Button>
+              <Button className="px-3 py-1 text-sm" onClick={onClose}>
+                {labels.close}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
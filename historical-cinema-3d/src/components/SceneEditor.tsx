@@ -0,0 +1,572 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Copy, GripVertical, Plus, Redo2, Trash2, Undo2, X } from "lucide-react";
+import type { Locale, Scene, SceneTranslation } from "@/lib/scene";
+import { CAMERA_STYLES, ENV_NAMES, MAX_QUESTION_CHOICES, SCENE_COUNT, type SceneDiagnostic } from "@/lib/validate";
+import { LIGHTING_PRESETS } from "@/lib/lighting";
+import { formatMessage, localeName, localizeScene, sceneTextLocale } from "@/lib/i18n";
+import { AVAILABLE_LOCALES, type Messages } from "@/lib/catalogs";
+import { HISTORICITY_LEVELS, type Citation, type Historicity } from "@/lib/sources";
+import type { SceneQuestion } from "@/lib/quiz";
+import { DEFAULT_TRANSITION_DURATION, MAX_TRANSITION_DURATION, TRANSITION_TYPES, type TransitionType } from "@/lib/transitions";
+import {
+  blankScene,
+  createHistory,
+  duplicateScene,
+  insertScene,
+  lintDeck,
+  moveScene,
+  movedIndex,
+  recordEdit,
+  redo,
+  removeScene,
+  undo,
+  updateScene,
+  updateSceneText,
+  type EditHistory,
+} from "@/lib/editor";
+
+export interface EditorLabels {
+  title: string;
+  done: string;
+  undo: string;
+  redo: string;
+  add: string;
+  duplicate: string;
+  remove: string;
+  reorderHint: string;
+  newScene: string;
+  sceneTitle: string;
+  timePeriod: string;
+  location: string;
+  oneLine: string;
+  narration: string;
+  visualKeywords: string;
+  keywordPlaceholder: string;
+  palette: string;
+  environment: string;
+  camera: string;
+  lighting: string;
+  transition: string;
+  duration: string;
+  minDwell: string;
+  maxDwell: string;
+  automatic: string;
+  custom: string;
+  translationNote: string;
+  textLanguage: string;
+  originalText: string;
+  removeTranslation: string;
+  historicity: string;
+  unrated: string;
+  citations: string;
+  addCitation: string;
+  citationTitle: string;
+  author: string;
+  publisher: string;
+  year: string;
+  url: string;
+  anachronisms: string;
+  addAnachronism: string;
+  questions: string;
+  addQuestion: string;
+  questionPrompt: string;
+  choice: string;
+  addChoice: string;
+  correctAnswer: string;
+  explanation: string;
+}
+
+interface Draft {
+  scenes: Scene[];
+  active: number;
+}
+
+const field = "w-full rounded-xl px-3 py-2 border border-white/10 bg-white/5 text-white text-sm outline-none focus:ring-2 focus:ring-white/20";
+
+/** A diagnostic with its message already worded in the UI language. */
+type Issue = SceneDiagnostic & { text: string };
+
+/** Diagnostics for `path` and anything under it ("palette" also matches "palette[2]"). */
+function issuesFor(issues: readonly Issue[], path: string) {
+  return issues.filter((d) => d.path === path || d.path.startsWith(`${path}[`) || d.path.startsWith(`${path}.`));
+}
+
+function Issues({ issues }: { issues: readonly Issue[] }) {
+  if (!issues.length) return null;
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {issues.map((d, i) => (
+        <li key={i} className={d.severity === "error" ? "text-red-300" : "text-amber-200"}>
+          {d.text}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function Field({ label, issues, children }: { label: string; issues: readonly Issue[]; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="mb-1 block text-xs uppercase tracking-wider text-slate-400">{label}</span>
+      {children}
+      <Issues issues={issues} />
+    </label>
+  );
+}
+
+/** Like Field, for lists of inputs; only issues about the list as a whole show here, the rows show their own. */
+function FieldGroup({ label, issues, children }: { label: string; issues: readonly Issue[]; children: React.ReactNode }) {
+  return (
+    <fieldset className="flex flex-col gap-2">
+      <legend className="mb-1 block text-xs uppercase tracking-wider text-slate-400">{label}</legend>
+      {children}
+      <Issues issues={issues} />
+    </fieldset>
+  );
+}
+
+function RemoveButton({ label, disabled, onClick }: { label: string; disabled?: boolean; onClick(): void }) {
+  return (
+    <button type="button" title={label} aria-label={label} disabled={disabled} className="shrink-0 text-slate-400 hover:text-white disabled:opacity-30" onClick={onClick}>
+      <X className="h-4 w-4" />
+    </button>
+  );
+}
+
+export function KeywordChips({ value, placeholder, onChange }: { value: string[]; placeholder: string; onChange(next: string[]): void }) {
+  const [text, setText] = useState("");
+  const add = () => {
+    const words = text.split(",").map((w) => w.trim()).filter((w) => w && !value.includes(w));
+    if (words.length) onChange([...value, ...words]);
+    setText("");
+  };
+  return (
+    <div className={`${field} flex flex-wrap items-center gap-1`}>
+      {value.map((k) => (
+        <span key={k} className="flex items-center gap-1 rounded-full border border-white/15 bg-white/10 px-2 py-0.5 text-xs">
+          {k}
+          <button type="button" aria-label={`× ${k}`} className="text-slate-400 hover:text-white" onClick={() => onChange(value.filter((x) => x !== k))}>
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={text}
+        placeholder={placeholder}
+        className="min-w-[6rem] flex-1 bg-transparent outline-none placeholder-slate-500"
+        onChange={(e) => setText(e.target.value)}
+        onBlur={add}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            add();
+          } else if (e.key === "Backspace" && !text && value.length) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+const seconds = (ms: number | undefined) => (ms === undefined ? "" : String(ms / 1000));
+const toMs = (value: string) => (value.trim() === "" || !Number.isFinite(Number(value)) ? undefined : Math.round(Number(value) * 1000));
+
+interface SceneEditorProps {
+  scenes: Scene[];
+  active: number;
+  /** The UI language; text fields edit whichever translation the scene shows in it. */
+  locale: Locale;
+  /** Language of the scenes' own text fields. */
+  deckLocale: Locale;
+  labels: EditorLabels;
+  /** Catalog messages for the deck's diagnostics. */
+  diagnostics: Messages["diagnostics"];
+  onChange(scenes: Scene[], active: number): void;
+  onSelect(index: number): void;
+  onClose(): void;
+}
+
+/**
+ * Edits the deck in place: every change goes straight to `onChange`, so the stage previews it live.
+ * Keeps its own undo history, which starts over whenever a different deck comes in from outside.
+ */
+export function SceneEditor({ scenes, active, locale, deckLocale, labels, diagnostics, onChange, onSelect, onClose }: SceneEditorProps) {
+  const [history, setHistory] = useState<EditHistory<Draft>>(() => createHistory({ scenes, active }));
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropAt, setDropAt] = useState<number | null>(null);
+  // The language picked in the editor, if any; otherwise text is edited in whatever language the UI shows it in.
+  const [pickedLocale, setPickedLocale] = useState<Locale | null>(null);
+  const issues = useMemo(
+    () =>
+      lintDeck(scenes)
+        .filter((d) => d.severity !== "info")
+        .map((d): Issue => ({ ...d, text: formatMessage(diagnostics[d.code], d.values, locale) })),
+    [scenes, diagnostics, locale],
+  );
+  const scene = scenes[active];
+  const textLocale = pickedLocale ?? (scene ? sceneTextLocale(scene, locale, deckLocale) : deckLocale);
+  const shownText = scene && localizeScene(scene, textLocale, deckLocale);
+  const textLocales = [...new Set([deckLocale, ...AVAILABLE_LOCALES, ...(Object.keys(scene?.translations ?? {}) as Locale[])])];
+  /** Where validation reports a text field in the language being edited. */
+  const textPath = (path: string) => (textLocale === deckLocale ? path : `translations.${textLocale}.${path}`);
+  const own = issues.filter((d) => d.scene === active);
+  const full = scenes.length >= SCENE_COUNT.max;
+
+  useEffect(() => {
+    if (scenes !== history.present.scenes) setHistory(createHistory({ scenes, active }));
+  }, [scenes]);
+
+  function commit(next: Scene[], nextActive = active, key: string | null = null) {
+    setHistory((h) => recordEdit({ ...h, present: { ...h.present, active } }, { scenes: next, active: nextActive }, key));
+    onChange(next, nextActive);
+  }
+
+  function step(direction: "undo" | "redo") {
+    const h = direction === "undo" ? undo(history) : redo(history);
+    if (h === history) return;
+    setHistory(h);
+    onChange(h.present.scenes, h.present.active);
+  }
+
+  const edit = (patch: Partial<Scene>, key: string) => commit(updateScene(scenes, active, patch), active, `${active}:${key}`);
+  const editText = (patch: SceneTranslation, key: string) => commit(updateSceneText(scenes, active, patch, textLocale, deckLocale), active, `${active}:${textLocale}:${key}`);
+
+  function move(from: number, to: number) {
+    if (from === to || to < 0 || to >= scenes.length) return;
+    commit(moveScene(scenes, from, to), movedIndex(active, from, to));
+  }
+
+  function removeTranslation() {
+    if (!scene?.translations) return;
+    const { [textLocale]: _, ...others } = scene.translations;
+    edit({ translations: Object.keys(others).length ? others : undefined }, "translations");
+    setPickedLocale(null);
+  }
+
+  const questions = shownText?.questions ?? [];
+  const editQuestions = (next: SceneQuestion[], key: string) => editText({ questions: next.length ? next : undefined }, key);
+  const editQuestion = (i: number, patch: Partial<SceneQuestion>, key: string) => editQuestions(questions.map((q, j) => (j === i ? { ...q, ...patch } : q)), `questions[${i}].${key}`);
+  const anachronisms = shownText?.anachronisms ?? [];
+  const editAnachronisms = (next: string[], key: string) => editText({ anachronisms: next.length ? next : undefined }, key);
+  const citations = scene?.citations ?? [];
+  const editCitations = (next: Citation[], key: string) => edit({ citations: next.length ? next : undefined }, key);
+  const editCitation = (i: number, patch: Partial<Citation>, key: string) => editCitations(citations.map((c, j) => (j === i ? { ...c, ...patch } : c)), `citations[${i}].${key}`);
+
+  const transitionType = typeof scene?.transition === "string" ? scene.transition : scene?.transition?.type;
+  const transitionDuration = typeof scene?.transition === "object" ? scene.transition.duration : undefined;
+
+  return (
+    <Card
+      className="bg-white/5 border-white/10"
+      onKeyDown={(e) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const key = e.key.toLowerCase();
+        if (key === "z" || key === "y") {
+          e.preventDefault();
+          step(key === "y" || e.shiftKey ? "redo" : "undo");
+        }
+      }}
+    >
+      <CardContent className="p-4 flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+          <h2 className="flex-1 font-semibold">{labels.title}</h2>
+          <Button className="px-2 py-1" title={labels.undo} aria-label={labels.undo} disabled={!history.past.length} onClick={() => step("undo")}>
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button className="px-2 py-1" title={labels.redo} aria-label={labels.redo} disabled={!history.future.length} onClick={() => step("redo")}>
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button className="px-3 py-1 text-xs" onClick={onClose}>
+            {labels.done}
+          </Button>
+        </div>
+
+        <Issues issues={issues.filter((d) => d.scene === null)} />
+
+        <ol className="space-y-1" title={labels.reorderHint}>
+          {scenes.map((s, i) => {
+            const count = issues.filter((d) => d.scene === i).length;
+            return (
+              <li
+                key={i}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDragFrom(i);
+                }}
+                onDragOver={(e) => {
+                  if (dragFrom === null) return;
+                  e.preventDefault();
+                  setDropAt(i);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragFrom !== null) move(dragFrom, i);
+                  setDragFrom(null);
+                  setDropAt(null);
+                }}
+                onDragEnd={() => {
+                  setDragFrom(null);
+                  setDropAt(null);
+                }}
+                className={`flex items-center gap-2 rounded-xl border px-2 py-1 text-sm ${i === active ? "border-white/40 bg-white/15" : "border-white/10 bg-black/30"} ${dropAt === i && dragFrom !== i ? "ring-2 ring-white/40" : ""}`}
+              >
+                <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-slate-500" aria-hidden />
+                <button
+                  type="button"
+                  className="flex-1 truncate text-start"
+                  onClick={() => onSelect(i)}
+                  onKeyDown={(e) => {
+                    if (!e.altKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return;
+                    e.preventDefault();
+                    move(i, e.key === "ArrowUp" ? i - 1 : i + 1);
+                  }}
+                >
+                  {i + 1}. {s.title || "—"}
+                </button>
+                {count > 0 && <span className="rounded-full bg-amber-400/20 px-1.5 text-xs text-amber-200">{count}</span>}
+              </li>
+            );
+          })}
+        </ol>
+
+        <div className="flex gap-2">
+          <Button className="gap-1 px-3 py-1 text-xs" disabled={full} onClick={() => commit(insertScene(scenes, active + 1, blankScene(formatMessage(labels.newScene, { number: scenes.length + 1 }, locale))), Math.min(active + 1, scenes.length))}>
+            <Plus className="h-3 w-3" /> {labels.add}
+          </Button>
+          <Button className="gap-1 px-3 py-1 text-xs" disabled={full || !scene} onClick={() => commit(duplicateScene(scenes, active), active + 1)}>
+            <Copy className="h-3 w-3" /> {labels.duplicate}
+          </Button>
+          <Button className="gap-1 px-3 py-1 text-xs" disabled={scenes.length <= 1} onClick={() => commit(removeScene(scenes, active), Math.max(0, Math.min(active, scenes.length - 2)))}>
+            <Trash2 className="h-3 w-3" /> {labels.remove}
+          </Button>
+        </div>
+
+        {scene && shownText && (
+          <div className="flex max-h-[60vh] flex-col gap-3 overflow-y-auto pe-1">
+            <Issues issues={issuesFor(own, "")} />
+            <Field label={labels.textLanguage} issues={issuesFor(own, "translations").filter((d) => textLocale === deckLocale || !d.path.startsWith(textPath("")))}>
+              <div className="flex items-center gap-2">
+                <select value={textLocale} onChange={(e) => setPickedLocale(e.target.value as Locale)} className={`${field} bg-black/40`}>
+                  {textLocales.map((tag) => (
+                    <option key={tag} value={tag}>
+                      {tag === deckLocale ? `${localeName(tag)} · ${labels.originalText}` : localeName(tag)}
+                    </option>
+                  ))}
+                </select>
+                {textLocale !== deckLocale && scene.translations?.[textLocale] && (
+                  <Button className="shrink-0 px-3 py-1 text-xs" onClick={removeTranslation}>
+                    {labels.removeTranslation}
+                  </Button>
+                )}
+              </div>
+            </Field>
+            {textLocale !== deckLocale && <p className="text-xs text-slate-400">{formatMessage(labels.translationNote, { language: localeName(textLocale) }, locale)}</p>}
+            <Field label={labels.sceneTitle} issues={issuesFor(own, textPath("title"))}>
+              <Input value={shownText.title} onChange={(e) => editText({ title: e.target.value }, "title")} className="bg-black/40 text-sm" />
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label={labels.timePeriod} issues={issuesFor(own, textPath("timePeriod"))}>
+                <Input value={shownText.timePeriod} onChange={(e) => editText({ timePeriod: e.target.value }, "timePeriod")} className="bg-black/40 text-sm" />
+              </Field>
+              <Field label={labels.location} issues={issuesFor(own, textPath("location"))}>
+                <Input value={shownText.location} onChange={(e) => editText({ location: e.target.value }, "location")} className="bg-black/40 text-sm" />
+              </Field>
+            </div>
+            <Field label={labels.oneLine} issues={issuesFor(own, textPath("oneLine"))}>
+              <Input value={shownText.oneLine} onChange={(e) => editText({ oneLine: e.target.value }, "oneLine")} className="bg-black/40 text-sm" />
+            </Field>
+            <Field label={labels.narration} issues={issuesFor(own, textPath("narration"))}>
+              <textarea value={shownText.narration} rows={5} onChange={(e) => editText({ narration: e.target.value }, "narration")} className={`${field} bg-black/40 leading-relaxed`} />
+            </Field>
+            <Field label={labels.visualKeywords} issues={issuesFor(own, textPath("visualKeywords"))}>
+              <KeywordChips value={shownText.visualKeywords} placeholder={labels.keywordPlaceholder} onChange={(visualKeywords) => editText({ visualKeywords }, "visualKeywords")} />
+            </Field>
+            <Field label={labels.palette} issues={issuesFor(own, "palette")}>
+              <div className="flex gap-2">
+                {scene.palette.map((c, i) => (
+                  <input
+                    key={i}
+                    type="color"
+                    value={c}
+                    aria-label={`${labels.palette} ${i + 1}`}
+                    className="h-9 flex-1 cursor-pointer rounded-lg border border-white/10 bg-transparent"
+                    onChange={(e) => edit({ palette: scene.palette.map((x, j) => (j === i ? e.target.value : x)) }, `palette[${i}]`)}
+                  />
+                ))}
+              </div>
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label={labels.environment} issues={issuesFor(own, "environment")}>
+                <select value={scene.environment} onChange={(e) => edit({ environment: e.target.value as Scene["environment"] }, "environment")} className={`${field} bg-black/40`}>
+                  {ENV_NAMES.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <Field label={labels.camera} issues={issuesFor(own, "cameraStyle")}>
+                <select value={scene.cameraStyle} onChange={(e) => edit({ cameraStyle: e.target.value as Scene["cameraStyle"] }, "cameraStyle")} className={`${field} bg-black/40`}>
+                  {CAMERA_STYLES.map((style) => (
+                    <option key={style} value={style}>
+                      {style}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+            </div>
+            <Field label={labels.lighting} issues={issuesFor(own, "lighting")}>
+              <select
+                value={typeof scene.lighting === "object" ? "custom" : scene.lighting ?? ""}
+                onChange={(e) => edit({ lighting: (e.target.value || undefined) as Scene["lighting"] }, "lighting")}
+                className={`${field} bg-black/40`}
+              >
+                <option value="">{labels.automatic}</option>
+                {LIGHTING_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {preset}
+                  </option>
+                ))}
+                {typeof scene.lighting === "object" && (
+                  <option value="custom" disabled>
+                    {labels.custom}
+                  </option>
+                )}
+              </select>
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label={labels.transition} issues={issuesFor(own, "transition")}>
+                <select
+                  value={transitionType ?? ""}
+                  onChange={(e) => {
+                    const type = (e.target.value || undefined) as TransitionType | undefined;
+                    edit({ transition: type && transitionDuration !== undefined && type !== "cut" ? { type, duration: transitionDuration } : type }, "transition");
+                  }}
+                  className={`${field} bg-black/40`}
+                >
+                  <option value="">{labels.automatic}</option>
+                  {TRANSITION_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <Field label={labels.duration} issues={[]}>
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_TRANSITION_DURATION}
+                  step={0.1}
+                  disabled={!transitionType || transitionType === "cut"}
+                  placeholder={transitionType ? String(DEFAULT_TRANSITION_DURATION[transitionType]) : ""}
+                  value={transitionDuration ?? ""}
+                  onChange={(e) => {
+                    if (!transitionType) return;
+                    const duration = e.target.value === "" ? undefined : Number(e.target.value);
+                    edit({ transition: duration === undefined ? transitionType : { type: transitionType, duration } }, "transition.duration");
+                  }}
+                  className="bg-black/40 text-sm"
+                />
+              </Field>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label={labels.minDwell} issues={issuesFor(own, "minDwellMs")}>
+                <Input type="number" min={0} step={0.5} value={seconds(scene.minDwellMs)} onChange={(e) => edit({ minDwellMs: toMs(e.target.value) }, "minDwellMs")} className="bg-black/40 text-sm" />
+              </Field>
+              <Field label={labels.maxDwell} issues={issuesFor(own, "maxDwellMs")}>
+                <Input type="number" min={0} step={0.5} value={seconds(scene.maxDwellMs)} onChange={(e) => edit({ maxDwellMs: toMs(e.target.value) }, "maxDwellMs")} className="bg-black/40 text-sm" />
+              </Field>
+            </div>
+            <Field label={labels.historicity} issues={issuesFor(own, "historicity")}>
+              <select value={scene.historicity ?? ""} onChange={(e) => edit({ historicity: (e.target.value || undefined) as Historicity | undefined }, "historicity")} className={`${field} bg-black/40`}>
+                <option value="">{labels.unrated}</option>
+                {HISTORICITY_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            </Field>
+            <FieldGroup label={labels.citations} issues={own.filter((d) => d.path === "citations")}>
+              {citations.map((c, i) => (
+                <div key={i} className="flex flex-col gap-1 rounded-xl border border-white/10 bg-black/20 p-2">
+                  <div className="flex items-center gap-2">
+                    <Input value={c.title} placeholder={labels.citationTitle} aria-label={labels.citationTitle} onChange={(e) => editCitation(i, { title: e.target.value }, "title")} className="bg-black/40 text-sm" />
+                    <RemoveButton label={labels.remove} onClick={() => editCitations(citations.filter((_, j) => j !== i), "citations")} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-1">
+                    <Input value={c.author ?? ""} placeholder={labels.author} aria-label={labels.author} onChange={(e) => editCitation(i, { author: e.target.value || undefined }, "author")} className="bg-black/40 text-sm" />
+                    <Input value={c.publisher ?? ""} placeholder={labels.publisher} aria-label={labels.publisher} onChange={(e) => editCitation(i, { publisher: e.target.value || undefined }, "publisher")} className="bg-black/40 text-sm" />
+                    <Input
+                      type="number"
+                      step={1}
+                      value={c.year ?? ""}
+                      placeholder={labels.year}
+                      aria-label={labels.year}
+                      onChange={(e) => editCitation(i, { year: e.target.value === "" ? undefined : Number(e.target.value) }, "year")}
+                      className="bg-black/40 text-sm"
+                    />
+                    <Input type="url" value={c.url ?? ""} placeholder={labels.url} aria-label={labels.url} onChange={(e) => editCitation(i, { url: e.target.value || undefined }, "url")} className="bg-black/40 text-sm" />
+                  </div>
+                  <Issues issues={issuesFor(own, `citations[${i}]`)} />
+                </div>
+              ))}
+              <Button className="gap-1 self-start px-3 py-1 text-xs" onClick={() => editCitations([...citations, { title: "" }], "citations")}>
+                <Plus className="h-3 w-3" /> {labels.addCitation}
+              </Button>
+            </FieldGroup>
+            <FieldGroup label={labels.anachronisms} issues={own.filter((d) => d.path === textPath("anachronisms"))}>
+              {anachronisms.map((note, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input value={note} aria-label={`${labels.anachronisms} ${i + 1}`} onChange={(e) => editAnachronisms(anachronisms.map((n, j) => (j === i ? e.target.value : n)), `anachronisms[${i}]`)} className="bg-black/40 text-sm" />
+                  <RemoveButton label={labels.remove} onClick={() => editAnachronisms(anachronisms.filter((_, j) => j !== i), "anachronisms")} />
+                </div>
+              ))}
+              <Button className="gap-1 self-start px-3 py-1 text-xs" onClick={() => editAnachronisms([...anachronisms, ""], "anachronisms")}>
+                <Plus className="h-3 w-3" /> {labels.addAnachronism}
+              </Button>
+            </FieldGroup>
+            <FieldGroup label={labels.questions} issues={own.filter((d) => d.path === textPath("questions"))}>
+              {questions.map((q, i) => (
+                <div key={i} className="flex flex-col gap-1 rounded-xl border border-white/10 bg-black/20 p-2">
+                  <div className="flex items-center gap-2">
+                    <Input value={q.prompt} placeholder={labels.questionPrompt} aria-label={labels.questionPrompt} onChange={(e) => editQuestion(i, { prompt: e.target.value }, "prompt")} className="bg-black/40 text-sm" />
+                    <RemoveButton label={labels.remove} onClick={() => editQuestions(questions.filter((_, j) => j !== i), "questions")} />
+                  </div>
+                  {q.choices.map((choice, j) => {
+                    const name = formatMessage(labels.choice, { number: j + 1 }, locale);
+                    return (
+                      <div key={j} className="flex items-center gap-2 ps-2">
+                        <input type="radio" name={`answer-${active}-${i}`} checked={q.answer === j} title={labels.correctAnswer} aria-label={`${labels.correctAnswer}: ${name}`} onChange={() => editQuestion(i, { answer: j }, "answer")} />
+                        <Input value={choice} placeholder={name} aria-label={name} onChange={(e) => editQuestion(i, { choices: q.choices.map((c, k) => (k === j ? e.target.value : c)) }, `choices[${j}]`)} className="bg-black/40 text-sm" />
+                        <RemoveButton
+                          label={labels.remove}
+                          disabled={q.choices.length <= 2}
+                          onClick={() => editQuestion(i, { choices: q.choices.filter((_, k) => k !== j), answer: q.answer > j ? q.answer - 1 : q.answer === j ? 0 : q.answer }, "choices")}
+                        />
+                      </div>
+                    );
+                  })}
+                  <Button className="gap-1 self-start px-3 py-1 text-xs" disabled={q.choices.length >= MAX_QUESTION_CHOICES} onClick={() => editQuestion(i, { choices: [...q.choices, ""] }, "choices")}>
+                    <Plus className="h-3 w-3" /> {labels.addChoice}
+                  </Button>
+                  <Input value={q.explanation ?? ""} placeholder={labels.explanation} aria-label={labels.explanation} onChange={(e) => editQuestion(i, { explanation: e.target.value || undefined }, "explanation")} className="bg-black/40 text-sm" />
+                  <Issues issues={issuesFor(own, textPath(`questions[${i}]`))} />
+                </div>
+              ))}
+              <Button className="gap-1 self-start px-3 py-1 text-xs" onClick={() => editQuestions([...questions, { prompt: "", choices: ["", ""], answer: 0 }], "questions")}>
+                <Plus className="h-3 w-3" /> {labels.addQuestion}
+              </Button>
+            </FieldGroup>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
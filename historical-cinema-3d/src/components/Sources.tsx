@@ -0,0 +1,83 @@
+import React from "react";
+import { BookOpen, TriangleAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import type { Scene } from "@/lib/scene";
+import type { PaletteTheme } from "@/lib/palette";
+import { formatCitation, isSpeculative, type Historicity } from "@/lib/sources";
+
+export interface SourcesLabels {
+  title: string;
+  historicity: string;
+  unrated: string;
+  levels: Record<Historicity, string>;
+  descriptions: Record<Historicity, string>;
+  unsourced: string;
+  anachronisms: string;
+}
+
+/** Over the stage's top edge for speculative and mythic scenes, so nobody takes them for the record. */
+export function HistoricityBadge({ level, labels }: { level: Historicity | undefined; labels: Pick<SourcesLabels, "levels" | "descriptions"> }) {
+  if (!isSpeculative(level)) return null;
+  return (
+    <div role="note" title={labels.descriptions[level]} className={`pointer-events-none absolute top-3 left-1/2 flex -translate-x-1/2 items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium shadow-lg backdrop-blur ${level === "mythic" ? "bg-violet-950/75 text-violet-100 ring-1 ring-violet-300/40" : "bg-amber-950/75 text-amber-100 ring-1 ring-amber-300/40"}`}>
+      <TriangleAlert className="h-3.5 w-3.5" aria-hidden />
+      <span>{labels.levels[level]}</span>
+      <span className="sr-only">: {labels.descriptions[level]}</span>
+    </div>
+  );
+}
+
+// Citations come straight from the editor too, so only web links become links.
+const isWebLink = (url: string | undefined): url is string => !!url && /^https?:\/\//i.test(url.trim());
+
+/** The current scene's historicity, the works it cites and what it knowingly gets wrong. */
+export function SourcesPanel({ scene, theme, labels }: { scene: Scene; theme: PaletteTheme; labels: SourcesLabels }) {
+  const level = scene.historicity;
+  return (
+    <Card className="md:col-span-3 transition-colors duration-700" style={{ backgroundColor: theme.ui.background, borderColor: theme.ui.border }}>
+      <CardContent className="space-y-3 p-4 text-sm" style={{ color: theme.ui.text }}>
+        <div className="flex flex-wrap items-center gap-2">
+          <BookOpen className="h-4 w-4" style={{ color: theme.ui.muted }} aria-hidden />
+          <h4 className="text-sm uppercase tracking-wider" style={{ color: theme.ui.muted }}>
+            {labels.title}
+          </h4>
+          <span className={`rounded-full border px-2 py-0.5 text-xs ${isSpeculative(level) ? "border-amber-300/50 text-amber-100" : ""}`} style={isSpeculative(level) ? undefined : { borderColor: theme.ui.border }}>
+            {labels.historicity}: {level ? labels.levels[level] : labels.unrated}
+          </span>
+          {level && <span className="text-xs" style={{ color: theme.ui.muted }}>{labels.descriptions[level]}</span>}
+        </div>
+        {scene.citations?.length ? (
+          <ol className="list-decimal space-y-1 ps-5">
+            {scene.citations.map((citation, i) => (
+              <li key={i}>
+                {isWebLink(citation.url) ? (
+                  <a href={citation.url} target="_blank" rel="noopener noreferrer" className="underline decoration-dotted underline-offset-2 hover:decoration-solid" style={{ color: theme.ui.accent }}>
+                    {formatCitation({ ...citation, url: undefined })}
+                  </a>
+                ) : (
+                  formatCitation(citation)
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-xs" style={{ color: theme.ui.muted }}>
+            {labels.unsourced}
+          </p>
+        )}
+        {scene.anachronisms?.length ? (
+          <div>
+            <div className="mb-1 text-xs uppercase tracking-wider" style={{ color: theme.ui.muted }}>
+              {labels.anachronisms}
+            </div>
+            <ul className="list-disc space-y-1 ps-5">
+              {scene.anachronisms.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
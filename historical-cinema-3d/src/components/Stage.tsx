@@ -0,0 +1,131 @@
+import React, { useMemo } from "react";
+import { Text as DreiText } from "@react-three/drei";
+import type { ThreeEvent } from "@react-three/fiber";
+import { EffectComposer, Bloom, Vignette, Noise, SMAA, LUT } from "@react-three/postprocessing";
+import type { CameraStyle, Locale, Scene } from "@/lib/scene";
+import { hashString } from "@/lib/random";
+import { getPropDefinition, isHotspot, layoutProps, resolveKeywords, type PlacedProp } from "@/lib/props";
+import { EXPLORE_RETURN, buildShot, computeFocus } from "@/lib/camera";
+import { resolveLighting } from "@/lib/lighting";
+import { derivePaletteTheme, type PaletteTheme } from "@/lib/palette";
+import { expectedDwellMs } from "@/lib/speech";
+import { CameraRig } from "@/components/CameraRig";
+import { getPropComponent } from "@/components/Props";
+import { EnvironmentSet } from "@/components/EnvironmentSets";
+import { LightingRigView } from "@/components/Lighting";
+import { PaletteTint, useGradeLut } from "@/components/Palette";
+import { ReducedMotionContext } from "@/components/Accessibility";
+import { useRenderBudget } from "@/components/Performance";
+import { ExploreControls, PropHighlight, type ExploreState } from "@/components/Explore";
+
+/** Pointer handlers that make a prop a hotspot while exploring. */
+function hotspotHandlers(id: string, explore: ExploreState | undefined) {
+  if (!explore?.active || !isHotspot(id)) return {};
+  return {
+    onPointerOver(e: ThreeEvent<PointerEvent>) {
+      e.stopPropagation();
+      document.body.style.cursor = "pointer";
+      explore.onHover(id);
+    },
+    onPointerOut() {
+      document.body.style.cursor = "";
+      explore.onHover(null);
+    },
+    onClick(e: ThreeEvent<MouseEvent>) {
+      e.stopPropagation();
+      explore.onSelect(explore.selected === id ? null : id);
+    },
+  };
+}
+
+function Diorama({ scene, props, explore }: { scene: Scene; props: PlacedProp[]; explore?: ExploreState }) {
+  return (
+    <group>
+      <EnvironmentSet scene={scene} />
+      {props.map((p) => {
+        const Prop = getPropComponent(p.id);
+        const lit = isHotspot(p.id) && (explore?.highlighted === p.id || explore?.selected === p.id);
+        return (
+          Prop && (
+            <group key={p.id} position={p.position} rotation={[0, p.rotation, 0]} scale={p.scale} {...hotspotHandlers(p.id, explore)}>
+              <Prop seed={hashString(`${scene.title}:${p.id}`)} palette={scene.palette} />
+              {lit && <PropHighlight radius={getPropDefinition(p.id)?.radius ?? 1} selected={explore?.selected === p.id} />}
+            </group>
+          )
+        );
+      })}
+      <DreiText
+        position={[0, 2.6, 0]}
+        fontSize={0.34}
+        color={scene.palette?.[3] || "#fff"}
+        anchorX="center"
+        anchorY="middle"
+        outlineWidth={0.006}
+        outlineColor="#000"
+      >
+        {scene.title}
+      </DreiText>
+    </group>
+  );
+}
+
+function PostFX({ quality = 1 as 0 | 1 | 2, palette, theme, grain = true }: { quality?: 0 | 1 | 2; palette?: string[]; theme?: PaletteTheme; grain?: boolean }) {
+  const lut = useGradeLut(palette);
+  const budget = useRenderBudget();
+  return (
+    <EffectComposer multisampling={budget.multisampling}>
+      {budget.smaa && <SMAA />}
+      {budget.bloom && (
+        <Bloom
+          intensity={(theme?.bloom.intensity ?? 0.6) + 0.6 * quality}
+          luminanceThreshold={theme?.bloom.threshold ?? 0.2}
+          luminanceSmoothing={0.8}
+          height={480}
+        />
+      )}
+      <LUT lut={lut} />
+      <Vignette eskil offset={0.3} darkness={0.7} />
+      {grain && <Noise premultiply opacity={0.05} />}
+    </EffectComposer>
+  );
+}
+
+interface SceneStageProps {
+  scene: Scene;
+  cameraStyle: CameraStyle;
+  quality: 0 | 1 | 2;
+  flyIn: number;
+  /** The language the scene's text is in (the deck's own), for the dwell estimate. Never the UI language: the shot must not restart when that changes. */
+  sceneLocale: Locale;
+  /** Seconds the camera shot runs; defaults to the scene's expected dwell. */
+  duration?: number;
+  /** Film grain is random per frame; offline renders turn it off. */
+  grain?: boolean;
+  /** Holds the picture still: no handheld shake, grain or surface distortion. */
+  reducedMotion?: boolean;
+  /** Explore mode and prop hotspots; the live player only. */
+  explore?: ExploreState;
+}
+
+export function SceneStage({ scene, cameraStyle, quality, flyIn, sceneLocale, duration, grain = true, reducedMotion = false, explore }: SceneStageProps) {
+  const rig = useMemo(() => resolveLighting(scene), [scene]);
+  const theme = useMemo(() => derivePaletteTheme(scene.palette), [scene.palette]);
+  const props = useMemo(() => layoutProps(resolveKeywords(scene.visualKeywords), scene.title), [scene.visualKeywords, scene.title]);
+  const focus = useMemo(() => computeFocus(props), [props]);
+  const shot = useMemo(
+    () => buildShot(cameraStyle, { duration: duration ?? expectedDwellMs(scene, sceneLocale) / 1000, focus, seed: hashString(scene.title), shake: reducedMotion ? 0 : 1 }),
+    [cameraStyle, focus, scene, sceneLocale, duration, reducedMotion]
+  );
+  return (
+    <ReducedMotionContext.Provider value={reducedMotion}>
+      <LightingRigView rig={rig} intensity={quality === 0 ? 0.7 : 1} seed={hashString(scene.title)} />
+      {rig.preset !== "vacuum" && <fog attach="fog" args={[theme.fog, 25, 110]} />}
+      <PaletteTint color={theme.materialTint} amount={0.22}>
+        <Diorama scene={scene} props={props} explore={explore} />
+      </PaletteTint>
+      <CameraRig shot={shot} flyIn={flyIn} hold={explore?.active} returnIn={reducedMotion ? 0 : EXPLORE_RETURN} />
+      <PostFX quality={quality} palette={scene.palette} theme={theme} grain={grain && !reducedMotion} />
+      <ExploreControls enabled={!!explore?.active} focus={focus} />
+    </ReducedMotionContext.Provider>
+  );
+}
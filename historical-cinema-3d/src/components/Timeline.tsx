@@ -0,0 +1,248 @@
+import React, { useMemo, useRef } from "react";
+import type { Locale } from "@/lib/scene";
+import { formatMessage } from "@/lib/i18n";
+import { astronomicalYear, eraLabel, erasWithin, formatYear, layoutTimeline, timelinePosition, type DateInterval, type HistoricalDate, type TimelineLayout } from "@/lib/dates";
+
+export interface TimelineLabels {
+  undated: string;
+  bce: string;
+  ce: string;
+  /** A compressed gap: "{years, plural, …}". */
+  gap: string;
+  /** Uncertainty of a date: "±{years}". */
+  uncertainty: string;
+  library: string;
+}
+
+// With undated items on the track, the dated part ends here and the undated lane starts after a gap.
+const DATED_WIDTH = 0.8;
+const UNDATED_START = 0.86;
+
+interface Track {
+  layout: TimelineLayout;
+  /** Track position (0–1) of every item, dated or not. */
+  positions: number[];
+  /** Scales a dated-part position (0–1) onto the track. */
+  scale: number;
+}
+
+function buildTrack(dates: readonly HistoricalDate[]): Track {
+  const layout = layoutTimeline(dates);
+  const undated = dates.filter((d) => d.kind !== "interval").length;
+  const dated = dates.length - undated;
+  const scale = undated && dated ? DATED_WIDTH : 1;
+  let k = 0;
+  const positions = dates.map((d, i) => {
+    const p = layout.positions[i];
+    if (p !== null && p !== undefined) return p * scale;
+    const slot = k++;
+    // Undated items sit in their own lane; with nothing dated they are spaced evenly, like a plain slider.
+    const [from, width] = dated ? [UNDATED_START, 1 - UNDATED_START] : [0, 1];
+    return from + width * (undated === 1 ? 0.5 : slot / (undated - 1));
+  });
+  return { layout, positions, scale };
+}
+
+/** "2560 BCE", "1939–1945". */
+export function formatSpan(date: DateInterval, locale: Locale, labels: Pick<TimelineLabels, "bce" | "ce" | "uncertainty">): string {
+  const patterns = { bce: labels.bce, ce: labels.ce };
+  const first = formatYear(date.start, locale, patterns);
+  const last = formatYear(date.end - 1e-6, locale, patterns);
+  const text = first === last ? first : `${first}–${last}`;
+  return date.uncertainty ? `${text} ${formatMessage(labels.uncertainty, { years: date.uncertainty }, locale)}` : text;
+}
+
+/** Zero-width anchor at `position` along the inline axis; its child is centered on it either way round. */
+function At({ position, className = "", children, ...rest }: { position: number; className?: string; children?: React.ReactNode } & React.HTMLAttributes<HTMLDivElement>) {
+  return (
+    <div className={`absolute flex w-0 justify-center ${className}`} style={{ insetInlineStart: `${position * 100}%` }} {...rest}>
+      {children}
+    </div>
+  );
+}
+
+/** Eras, interval bars, compressed gaps and end years behind the markers. */
+function TimelineBackdrop({ dates, track, locale, labels }: { dates: readonly HistoricalDate[]; track: Track; locale: Locale; labels: TimelineLabels }) {
+  const { layout, scale } = track;
+  const knots = layout.knots;
+  if (!knots.length) return null;
+  const first = knots[0]!.time;
+  const last = knots[knots.length - 1]!.time;
+  const at = (time: number) => timelinePosition(layout, time) * scale;
+  const eras = erasWithin(first, last, 2);
+  const patterns = { bce: labels.bce, ce: labels.ce };
+  const startLabel = formatYear(first, locale, patterns);
+  const endLabel = formatYear(last - 1e-6, locale, patterns);
+
+  return (
+    <>
+      {eras.map((era, row) => {
+        const from = Math.max(at(astronomicalYear(era.years[0])), 0);
+        const to = Math.min(at(astronomicalYear(era.years[1]) + 1), scale);
+        return (
+          <div
+            key={era.id}
+            title={eraLabel(era, locale)}
+            className="absolute h-2 overflow-hidden rounded-sm bg-amber-200/10 text-[8px] leading-2 text-amber-100/60"
+            style={{ top: row * 10, insetInlineStart: `${from * 100}%`, width: `${Math.max(to - from, 0.01) * 100}%` }}
+          >
+            <span className="px-1 whitespace-nowrap">{eraLabel(era, locale)}</span>
+          </div>
+        );
+      })}
+      <div className="absolute top-1/2 h-px bg-white/20" style={{ insetInlineStart: 0, width: `${scale * 100}%` }} />
+      {dates.map((d, i) => {
+        if (d.kind !== "interval") return null;
+        const from = at(d.start - d.uncertainty);
+        const to = at(d.end + d.uncertainty);
+        if (to - from < 0.005) return null;
+        return <div key={i} className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full bg-white/15" style={{ insetInlineStart: `${from * 100}%`, width: `${(to - from) * 100}%` }} />;
+      })}
+      {layout.breaks.map((b, i) => {
+        const gap = formatMessage(labels.gap, { years: Math.round(b.years) }, locale);
+        return (
+          <At key={i} position={b.position * scale} className="top-1/2 -translate-y-1/2" title={gap}>
+            <span className="rounded bg-slate-900 px-0.5 text-xs leading-none text-slate-400">≈</span>
+          </At>
+        );
+      })}
+      <span className="absolute -bottom-3 text-[9px] text-slate-500" style={{ insetInlineStart: 0 }}>
+        {startLabel}
+      </span>
+      {endLabel !== startLabel && (
+        <span className="absolute -bottom-3 text-[9px] text-slate-500" style={{ insetInlineEnd: `${(1 - scale) * 100}%` }}>
+          {endLabel}
+        </span>
+      )}
+      {scale < 1 && (
+        <span className="absolute -bottom-3 text-[9px] text-slate-500" style={{ insetInlineStart: `${UNDATED_START * 100}%` }}>
+          {labels.undated}
+        </span>
+      )}
+    </>
+  );
+}
+
+function nearest(positions: readonly number[], fraction: number): number {
+  let best = 0;
+  positions.forEach((p, i) => {
+    if (Math.abs(p - fraction) < Math.abs(positions[best]! - fraction)) best = i;
+  });
+  return best;
+}
+
+interface ScrubberProps {
+  dates: readonly HistoricalDate[];
+  /** Marker tooltips, one per item. */
+  titles: readonly string[];
+  active: number;
+  onChange(index: number): void;
+  label: string;
+  valueText(index: number): string;
+  locale: Locale;
+  labels: TimelineLabels;
+}
+
+/**
+ * The scene scrubber: scenes sit where their dates fall (see lib/dates), with eras above the axis, breaks
+ * where long gaps were shortened, and undated scenes in a lane of their own. It is a slider over scene
+ * numbers for keyboards and screen readers; pointers jump to the nearest marker.
+ */
+export function TimelineScrubber({ dates, titles, active, onChange, label, valueText, locale, labels }: ScrubberProps) {
+  const track = useMemo(() => buildTrack(dates), [dates]);
+  const ref = useRef<HTMLDivElement | null>(null);
+  const count = dates.length;
+
+  function pick(clientX: number) {
+    const el = ref.current;
+    if (!el || !count) return;
+    const rect = el.getBoundingClientRect();
+    const fraction = (clientX - rect.left) / rect.width;
+    const index = nearest(track.positions, getComputedStyle(el).direction === "rtl" ? 1 - fraction : fraction);
+    if (index !== active) onChange(index);
+  }
+
+  function handleKey(e: React.KeyboardEvent<HTMLDivElement>) {
+    const rtl = getComputedStyle(e.currentTarget).direction === "rtl";
+    let next: number;
+    if (e.key === "ArrowUp" || e.key === (rtl ? "ArrowLeft" : "ArrowRight")) next = active + 1;
+    else if (e.key === "ArrowDown" || e.key === (rtl ? "ArrowRight" : "ArrowLeft")) next = active - 1;
+    else if (e.key === "Home") next = 0;
+    else if (e.key === "End") next = count - 1;
+    else return;
+    e.preventDefault();
+    next = Math.max(0, Math.min(count - 1, next));
+    if (next !== active) onChange(next);
+  }
+
+  return (
+    <div
+      ref={ref}
+      role="slider"
+      tabIndex={0}
+      aria-label={label}
+      aria-valuemin={1}
+      aria-valuemax={Math.max(1, count)}
+      aria-valuenow={active + 1}
+      aria-valuetext={valueText(active)}
+      className="relative mb-3 h-10 w-full cursor-pointer touch-none rounded-md outline-none focus-visible:ring-2 focus-visible:ring-white/30"
+      onKeyDown={handleKey}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pick(e.clientX);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) pick(e.clientX);
+      }}
+    >
+      <TimelineBackdrop dates={dates} track={track} locale={locale} labels={labels} />
+      {track.positions.map((p, i) => (
+        <At key={i} position={p} className="top-1/2 -translate-y-1/2" aria-hidden>
+          <span
+            title={titles[i]}
+            className={`block shrink-0 rounded-full border transition-all ${
+              i === active ? "h-3.5 w-3.5 border-white bg-white" : dates[i]?.kind === "interval" ? "h-2.5 w-2.5 border-white/60 bg-slate-400" : "h-2.5 w-2.5 border-dashed border-white/50 bg-transparent"
+            }`}
+          />
+        </At>
+      ))}
+    </div>
+  );
+}
+
+export interface TimelineEntry {
+  id: string;
+  title: string;
+  date: HistoricalDate;
+}
+
+/** Saved chronicles side by side in time; each bar opens its chronicle. */
+export function ChronicleTimeline({ entries, locale, labels, onOpen }: { entries: readonly TimelineEntry[]; locale: Locale; labels: TimelineLabels; onOpen(id: string): void }) {
+  const dates = useMemo(() => entries.map((e) => e.date), [entries]);
+  const track = useMemo(() => buildTrack(dates), [dates]);
+  const at = (time: number) => timelinePosition(track.layout, time) * track.scale;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <p className="text-xs text-slate-500">{labels.library}</p>
+      <div className="relative mb-3 h-10 w-full">
+        <TimelineBackdrop dates={[]} track={track} locale={locale} labels={labels} />
+        {entries.map((entry, i) => {
+          const d = entry.date;
+          const text = `${entry.title} · ${d.kind === "interval" ? formatSpan(d, locale, labels) : labels.undated}`;
+          const from = d.kind === "interval" ? at(d.start) : track.positions[i]!;
+          const width = d.kind === "interval" ? at(d.end) - from : 0;
+          const bar = "h-3 rounded-full border border-white/40 bg-sky-300/40 hover:bg-sky-200/70 focus-visible:outline-2 focus-visible:outline-white";
+          // Long spans are drawn to scale; short ones as a dot centered on when they happened.
+          return width > 0.02 ? (
+            <button key={entry.id} type="button" aria-label={text} title={text} className={`absolute top-1/2 -translate-y-1/2 ${bar}`} style={{ insetInlineStart: `${from * 100}%`, width: `${width * 100}%` }} onClick={() => onOpen(entry.id)} />
+          ) : (
+            <At key={entry.id} position={from + width / 2} className="top-1/2 -translate-y-1/2">
+              <button type="button" aria-label={text} title={text} className={`w-3 shrink-0 ${bar}`} onClick={() => onOpen(entry.id)} />
+            </At>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
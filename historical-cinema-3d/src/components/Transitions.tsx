@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import type { Scene } from "@/lib/scene";
+import { FADE_BLACK_KEYS, FILM_BURN_KEYS, FLY_THROUGH_DISSOLVE, resolveTransition, swapsAtMidpoint, type GradientStops, type TransitionSpec } from "@/lib/transitions";
+
+export interface ActiveTransition extends TransitionSpec {
+  key: number;
+  /** Last frame of the outgoing scene, for transitions that dissolve out of it. */
+  snapshot: string | null;
+}
+
+/**
+ * Follows `active` and decides which scene the stage should show while a transition plays. Every way of
+ * changing scenes (autoplay, skip buttons, the slider) goes through here, so they all transition alike;
+ * a change mid-transition cancels the pending one and starts the next from where the stage is.
+ */
+export function useSceneTransition(active: number, scenes: readonly Scene[], capture: () => string | null) {
+  const [shown, setShown] = useState(active);
+  const [fx, setFx] = useState<ActiveTransition | null>(null);
+  const seq = useRef(0);
+
+  useEffect(() => {
+    if (active === shown) {
+      setFx(null);
+      return;
+    }
+    const spec = resolveTransition(scenes[active]);
+    if (!scenes[active] || spec.type === "cut" || spec.duration === 0) {
+      setFx(null);
+      setShown(active);
+      return;
+    }
+    const key = ++seq.current;
+    const midpoint = swapsAtMidpoint(spec.type);
+    setFx({ ...spec, key, snapshot: midpoint ? null : capture() });
+    let swap: number | undefined;
+    if (midpoint) swap = window.setTimeout(() => setShown(active), spec.duration * 500);
+    else setShown(active);
+    const done = window.setTimeout(() => setFx((f) => (f?.key === key ? null : f)), spec.duration * 1000);
+    return () => {
+      window.clearTimeout(swap);
+      window.clearTimeout(done);
+    };
+  }, [active]);
+
+  return { shown, fx };
+}
+
+const cssStops = (stops: GradientStops) => stops.map(([offset, color]) => `${color} ${offset * 100}%`).join(", ");
+const at = ([x, y]: readonly [number, number]) => `${x * 100}% ${y * 100}%`;
+
+/** DOM layer over the canvas that draws the 2D part of a transition. */
+export function TransitionOverlay({ fx }: { fx: ActiveTransition | null }) {
+  if (!fx) return null;
+  const layer = "pointer-events-none absolute inset-0";
+  switch (fx.type) {
+    case "crossfade":
+    case "fly-through":
+      if (!fx.snapshot) return null;
+      return (
+        <motion.img
+          key={fx.key}
+          src={fx.snapshot}
+          alt=""
+          className={`${layer} h-full w-full object-cover`}
+          initial={{ opacity: 1, scale: 1 }}
+          animate={{ opacity: 0, scale: fx.type === "fly-through" ? FLY_THROUGH_DISSOLVE.scale : 1 }}
+          transition={{ duration: fx.type === "fly-through" ? fx.duration * FLY_THROUGH_DISSOLVE.portion : fx.duration, ease: "easeInOut" }}
+        />
+      );
+    case "fade-black":
+      return <motion.div key={fx.key} className={`${layer} bg-black`} initial={{ opacity: 0 }} animate={{ opacity: [...FADE_BLACK_KEYS.opacity] }} transition={{ duration: fx.duration, times: [...FADE_BLACK_KEYS.times] }} />;
+    case "film-burn":
+      return (
+        <div key={fx.key} className={layer}>
+          <motion.div
+            className="absolute inset-0"
+            style={{ background: `radial-gradient(circle at ${at(FILM_BURN_KEYS.base.center)}, ${cssStops(FILM_BURN_KEYS.base.stops)})` }}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: [...FILM_BURN_KEYS.base.opacity] }}
+            transition={{ duration: fx.duration, times: [...FILM_BURN_KEYS.base.times] }}
+          />
+          <motion.div
+            className="absolute inset-0 mix-blend-screen"
+            style={{ background: `radial-gradient(ellipse at ${at(FILM_BURN_KEYS.flare.center)}, ${cssStops(FILM_BURN_KEYS.flare.stops)})` }}
+            initial={{ opacity: 0, scale: FILM_BURN_KEYS.flare.scale[0] }}
+            animate={{ opacity: [...FILM_BURN_KEYS.flare.opacity], scale: [...FILM_BURN_KEYS.flare.scale] }}
+            transition={{ duration: fx.duration, times: [...FILM_BURN_KEYS.flare.times] }}
+          />
+        </div>
+      );
+    default:
+      return null;
+  }
+}
@@ -1,33 +1,212 @@
 import * as React from "react";
 
-type SelectContext = { value?: string; setValue?: (v: string) => void };
-const Ctx = React.createContext<SelectContext>({});
+/*
+ * Select-only combobox (WAI-ARIA APG pattern): focus stays on the trigger, which owns the listbox through
+ * aria-activedescendant. Arrows, Home/End, Page keys and type-ahead move; Enter/Space pick; Escape and
+ * Tab close. The options stay mounted while closed so the trigger can show the chosen one's label.
+ */
+
+type SelectContext = {
+  value?: string;
+  open: boolean;
+  active?: string;
+  listId: string;
+  labels: React.MutableRefObject<Map<string, React.ReactNode>>;
+  listRef: React.RefObject<HTMLDivElement | null>;
+  setOpen(open: boolean): void;
+  setActive(value: string | undefined): void;
+  select(value: string): void;
+  registered(): void;
+};
+const Ctx = React.createContext<SelectContext | null>(null);
+
+function useSelect(): SelectContext {
+  const ctx = React.useContext(Ctx);
+  if (!ctx) throw new Error("Select parts must be used inside <Select>.");
+  return ctx;
+}
+
+const optionId = (listId: string, value: string) => `${listId}-${encodeURIComponent(value).replace(/%/g, "_")}`;
 
 type RootProps = { value?: string; onValueChange?: (v: string) => void; children: React.ReactNode };
 export function Select({ value, onValueChange, children }: RootProps) {
   const [v, setV] = React.useState(value);
+  const [open, setOpen] = React.useState(false);
+  const [active, setActive] = React.useState<string | undefined>();
+  const [, setVersion] = React.useState(0);
+  const labels = React.useRef(new Map<string, React.ReactNode>());
+  const listRef = React.useRef<HTMLDivElement | null>(null);
+  const listId = React.useId();
   React.useEffect(() => setV(value), [value]);
-  return <Ctx.Provider value={{ value: v, setValue: (x) => { setV(x); onValueChange?.(x); } }}>{children}</Ctx.Provider>;
+  const ctx: SelectContext = {
+    value: v,
+    open,
+    active,
+    listId,
+    labels,
+    listRef,
+    setOpen: (next) => {
+      setOpen(next);
+      if (next) setActive(v);
+    },
+    setActive,
+    select: (x) => {
+      setV(x);
+      setOpen(false);
+      onValueChange?.(x);
+    },
+    registered: () => setVersion((n) => n + 1),
+  };
+  return (
+    <Ctx.Provider value={ctx}>
+      <div className="relative inline-block">{children}</div>
+    </Ctx.Provider>
+  );
 }
 
-export function SelectTrigger({ className = "", children, ...rest }: React.HTMLAttributes<HTMLDivElement>) {
-  return <div className={`flex items-center gap-2 px-3 py-2 rounded-xl border border-white/10 bg-white/5 ${className}`} {...rest}>{children}</div>;
+export function SelectTrigger({ className = "", children, onKeyDown, onClick, onBlur, ...rest }: React.HTMLAttributes<HTMLDivElement>) {
+  const { value, open, active, listId, listRef, setOpen, setActive, select } = useSelect();
+  const typed = React.useRef({ text: "", at: 0 });
+
+  const options = () => [...(listRef.current?.querySelectorAll<HTMLElement>('[role="option"]') ?? [])].map((el) => ({ value: el.dataset.value!, text: el.textContent ?? "" }));
+
+  function move(to: (index: number, count: number) => number) {
+    const list = options();
+    if (!list.length) return;
+    const current = list.findIndex((o) => o.value === (open ? active : value));
+    const next = list[Math.max(0, Math.min(list.length - 1, to(current, list.length)))]!;
+    if (!open) setOpen(true);
+    setActive(next.value);
+  }
+
+  function typeAhead(key: string) {
+    const now = Date.now();
+    typed.current = { text: (now - typed.current.at < 600 ? typed.current.text : "") + key.toLowerCase(), at: now };
+    const list = options();
+    const start = Math.max(0, list.findIndex((o) => o.value === (open ? active : value)));
+    const ordered = [...list.slice(start + (typed.current.text.length === 1 ? 1 : 0)), ...list.slice(0, start + 1)];
+    const hit = ordered.find((o) => o.text.trim().toLowerCase().startsWith(typed.current.text));
+    if (hit) {
+      if (!open) setOpen(true);
+      setActive(hit.value);
+    }
+  }
+
+  function handleKey(e: React.KeyboardEvent<HTMLDivElement>) {
+    onKeyDown?.(e);
+    if (e.defaultPrevented || (e.altKey && e.key !== "ArrowDown" && e.key !== "ArrowUp")) return;
+    switch (e.key) {
+      case "ArrowDown":
+        if (e.altKey || !open) setOpen(true);
+        else move((i) => i + 1);
+        break;
+      case "ArrowUp":
+        if (e.altKey && open && active !== undefined) select(active);
+        else if (e.altKey) setOpen(false);
+        else move((i) => (i < 0 ? 0 : i - 1));
+        break;
+      case "Home":
+        move(() => 0);
+        break;
+      case "End":
+        move((_, n) => n - 1);
+        break;
+      case "PageDown":
+        move((i) => i + 10);
+        break;
+      case "PageUp":
+        move((i) => i - 10);
+        break;
+      case "Enter":
+      case " ":
+        if (e.key === " " && typed.current.text && Date.now() - typed.current.at < 600) typeAhead(" ");
+        else if (open && active !== undefined) select(active);
+        else setOpen(!open);
+        break;
+      case "Escape":
+        if (!open) return;
+        setOpen(false);
+        break;
+      case "Tab":
+        if (open && active !== undefined) select(active);
+        return;
+      default:
+        if (e.key.length !== 1 || e.ctrlKey || e.metaKey) return;
+        typeAhead(e.key);
+    }
+    e.preventDefault();
+  }
+
+  return (
+    <div
+      role="combobox"
+      tabIndex={0}
+      aria-haspopup="listbox"
+      aria-expanded={open}
+      aria-controls={listId}
+      aria-activedescendant={open && active !== undefined ? optionId(listId, active) : undefined}
+      className={`flex cursor-pointer items-center gap-2 px-3 py-2 rounded-xl border border-white/10 bg-white/5 outline-none focus-visible:ring-2 focus-visible:ring-white/30 ${className}`}
+      onKeyDown={handleKey}
+      onClick={(e) => {
+        onClick?.(e);
+        setOpen(!open);
+      }}
+      onBlur={(e) => {
+        onBlur?.(e);
+        setOpen(false);
+      }}
+      {...rest}
+    >
+      {children}
+    </div>
+  );
 }
 
 export function SelectValue({ placeholder }: { placeholder?: string }) {
-  const { value } = React.useContext(Ctx);
-  return <span className="truncate text-sm text-white/90">{value ?? placeholder ?? "Select"}</span>;
+  const { value, labels } = useSelect();
+  const label = value !== undefined ? labels.current.get(value) ?? value : undefined;
+  return <span className="truncate text-sm text-white/90">{label ?? placeholder ?? "Select"}</span>;
 }
 
 export function SelectContent({ children, className = "" }: React.HTMLAttributes<HTMLDivElement>) {
-  return <div className={`mt-2 rounded-xl border border-white/10 bg-black/60 p-1 ${className}`}>{children}</div>;
+  const { open, listId, listRef } = useSelect();
+  return (
+    <div ref={listRef} id={listId} role="listbox" hidden={!open} className={`absolute inset-x-0 top-full z-30 mt-2 max-h-64 overflow-y-auto rounded-xl border border-white/10 bg-black/80 p-1 backdrop-blur-md ${className}`}>
+      {children}
+    </div>
+  );
 }
 
 export function SelectItem({ value, children }: { value: string; children: React.ReactNode }) {
-  const { setValue } = React.useContext(Ctx);
+  const { value: selected, active, open, listId, labels, setActive, select, registered } = useSelect();
+  const ref = React.useRef<HTMLDivElement | null>(null);
+  const isActive = open && active === value;
+
+  React.useEffect(() => {
+    labels.current.set(value, children);
+  });
+  React.useEffect(() => {
+    registered();
+    return () => void labels.current.delete(value);
+  }, [value]);
+
+  React.useEffect(() => {
+    if (isActive) ref.current?.scrollIntoView?.({ block: "nearest" });
+  }, [isActive]);
+
   return (
-    <button type="button" onClick={() => setValue?.(value)} className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10">
+    <div
+      ref={ref}
+      id={optionId(listId, value)}
+      role="option"
+      data-value={value}
+      aria-selected={value === selected}
+      className={`w-full cursor-pointer text-start px-3 py-2 rounded-lg ${isActive ? "bg-white/15" : "hover:bg-white/10"} ${value === selected ? "font-medium" : ""}`}
+      onMouseDown={(e) => e.preventDefault()}
+      onMouseEnter={() => setActive(value)}
+      onClick={() => select(value)}
+    >
       {children}
-    </button>
+    </div>
   );
 }
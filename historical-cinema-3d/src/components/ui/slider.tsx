@@ -7,17 +7,27 @@ type Props = {
   step?: number;
   onValueChange?: (v: [number]) => void;
   className?: string;
+  /** Accessible name; required unless `aria-labelledby` points at a visible label. */
+  label?: string;
+  "aria-labelledby"?: string;
+  /** What screen readers announce for a value, e.g. "Scene 3 of 8" instead of "2". */
+  valueText?: (value: number) => string;
+  disabled?: boolean;
 };
 
-export function Slider({ value, min = 0, max = 100, step = 1, onValueChange, className = "" }: Props) {
+export function Slider({ value, min = 0, max = 100, step = 1, onValueChange, className = "", label, valueText, disabled, ...aria }: Props) {
   return (
     <input
       type="range"
-      className={`w-full cursor-pointer accent-white ${className}`}
+      className={`w-full cursor-pointer accent-white disabled:cursor-not-allowed disabled:opacity-50 ${className}`}
       min={min}
       max={max}
       step={step}
       value={value[0]}
+      disabled={disabled}
+      aria-label={label}
+      aria-labelledby={aria["aria-labelledby"]}
+      aria-valuetext={valueText?.(value[0])}
       onChange={(e) => onValueChange?.([Number(e.target.value)])}
     />
   );
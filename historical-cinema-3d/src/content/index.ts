@@ -0,0 +1,17 @@
+import { parseChronicle, type Chronicle } from "@/lib/chronicle";
+import { buildPackIndex, type PackIndex } from "@/lib/packs";
+import { buildGazetteer, parseGazetteer, type Gazetteer } from "@/lib/gazetteer";
+import moonLanding from "@/content/moon-landing.chronicle.json";
+import ancientEgypt from "@/content/ancient-egypt.chronicle.json";
+import worldWarII from "@/content/world-war-ii.chronicle.json";
+import generic from "@/content/generic.chronicle.json";
+import gazetteer from "@/content/gazetteer.json";
+
+/** Chronicles shipped with the app; the generic template comes last and plays when no pack matches. */
+export const BUILTIN_CHRONICLES: readonly Chronicle[] = [moonLanding, ancientEgypt, worldWarII, generic].map((doc) => parseChronicle(doc).chronicle);
+
+/** Search index over the shipped chronicles' content packs. */
+export const BUILTIN_PACKS: PackIndex = buildPackIndex(BUILTIN_CHRONICLES);
+
+/** Places the map can show, bundled so locations resolve offline. */
+export const BUILTIN_GAZETTEER: Gazetteer = buildGazetteer(parseGazetteer(gazetteer));
@@ -0,0 +1,127 @@
+import type { EnvName, Scene } from "@/lib/scene";
+import { resolveKeywords } from "@/lib/props";
+import type { Random } from "@/lib/random";
+
+/*
+ * The ambient soundscape as data: which layers a scene gets (one bed per environment, plus layers for
+ * keywords that make noise), and how each layer is synthesized. Everything is built from filtered noise
+ * and a couple of oscillators, so there are no audio files to ship. components/Ambience turns a plan into
+ * a Web Audio graph.
+ */
+
+export type LayerKind = "surf" | "wind" | "gale" | "static" | "rumble" | "room" | "leaves" | "traffic" | "siren" | "crackle";
+
+export type NoiseColor = "white" | "pink" | "brown";
+
+export interface LayerVoice {
+  /** Looped noise buffer the layer is filtered from; "crackle" is sparse pops instead. */
+  source: NoiseColor | "crackle";
+  filter: { type: BiquadFilterType; frequency: number; q: number };
+  /** Slow swell on the layer's gain: waves breaking, gusts. */
+  swell?: { rate: number; depth: number };
+  /** Swept tone on top of the noise (sirens), in Hz. */
+  tone?: { low: number; high: number; rate: number; level: number };
+}
+
+export const LAYER_VOICES: Record<LayerKind, LayerVoice> = {
+  surf: { source: "pink", filter: { type: "lowpass", frequency: 900, q: 0.7 }, swell: { rate: 0.09, depth: 0.7 } },
+  wind: { source: "pink", filter: { type: "bandpass", frequency: 500, q: 0.8 }, swell: { rate: 0.05, depth: 0.5 } },
+  gale: { source: "white", filter: { type: "bandpass", frequency: 1200, q: 1.4 }, swell: { rate: 0.13, depth: 0.6 } },
+  static: { source: "white", filter: { type: "highpass", frequency: 2500, q: 0.5 }, swell: { rate: 0.7, depth: 0.3 } },
+  rumble: { source: "brown", filter: { type: "lowpass", frequency: 140, q: 0.9 }, swell: { rate: 0.03, depth: 0.4 } },
+  room: { source: "brown", filter: { type: "lowpass", frequency: 320, q: 0.5 } },
+  leaves: { source: "pink", filter: { type: "highpass", frequency: 1800, q: 0.6 }, swell: { rate: 0.11, depth: 0.6 } },
+  traffic: { source: "brown", filter: { type: "bandpass", frequency: 260, q: 0.6 }, swell: { rate: 0.04, depth: 0.3 } },
+  siren: { source: "pink", filter: { type: "lowpass", frequency: 200, q: 0.5 }, tone: { low: 420, high: 780, rate: 0.18, level: 0.6 } },
+  crackle: { source: "crackle", filter: { type: "highpass", frequency: 900, q: 0.5 } },
+};
+
+export interface AmbienceLayer {
+  kind: LayerKind;
+  /** Linear gain before the ambience volume. */
+  gain: number;
+}
+
+const ENV_BEDS: Record<EnvName, AmbienceLayer[]> = {
+  sea: [{ kind: "surf", gain: 0.8 }, { kind: "wind", gain: 0.2 }],
+  tundra: [{ kind: "gale", gain: 0.5 }, { kind: "wind", gain: 0.5 }],
+  desert: [{ kind: "wind", gain: 0.45 }],
+  mountain: [{ kind: "wind", gain: 0.5 }],
+  space: [{ kind: "static", gain: 0.12 }],
+  forest: [{ kind: "leaves", gain: 0.25 }, { kind: "wind", gain: 0.2 }],
+  city: [{ kind: "traffic", gain: 0.4 }],
+  interior: [{ kind: "room", gain: 0.35 }],
+  ceremonial: [{ kind: "room", gain: 0.3 }, { kind: "wind", gain: 0.1 }],
+  battlefield: [{ kind: "rumble", gain: 0.6 }, { kind: "wind", gain: 0.2 }],
+};
+
+/** Props (see lib/props) that make a sound of their own. */
+const PROP_LAYERS: Record<string, AmbienceLayer> = {
+  siren: { kind: "siren", gain: 0.25 },
+  torch: { kind: "crackle", gain: 0.5 },
+  waves: { kind: "surf", gain: 0.6 },
+  smoke: { kind: "crackle", gain: 0.25 },
+};
+
+/** The layers for `scene`: its environment's bed plus keyword layers, one per kind at the loudest gain asked for. */
+export function planAmbience(scene: Pick<Scene, "environment" | "visualKeywords">): AmbienceLayer[] {
+  const layers = new Map<LayerKind, number>();
+  const add = ({ kind, gain }: AmbienceLayer) => layers.set(kind, Math.max(layers.get(kind) ?? 0, gain));
+  (ENV_BEDS[scene.environment] ?? []).forEach(add);
+  for (const match of resolveKeywords(scene.visualKeywords)) {
+    const layer = PROP_LAYERS[match.id];
+    if (layer) add(layer);
+  }
+  return [...layers].map(([kind, gain]) => ({ kind, gain }));
+}
+
+/** Fills `out` with noise; pink and brown are normalized to roughly the same loudness as white. */
+export function fillNoise(out: Float32Array, color: NoiseColor, rng: Random) {
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+  for (let i = 0; i < out.length; i++) {
+    const white = rng.next() * 2 - 1;
+    if (color === "white") {
+      out[i] = white;
+    } else if (color === "pink") {
+      // Paul Kellet's economy filter.
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      out[i] = (b0 + b1 + b2 + white * 0.1848) * 0.2;
+    } else {
+      last = (last + 0.02 * white) / 1.02;
+      out[i] = last * 3.5;
+    }
+  }
+}
+
+/** Fills `out` with the pops of a fire: short decaying clicks, about `perSecond` of them. */
+export function fillCrackle(out: Float32Array, sampleRate: number, rng: Random, perSecond = 9) {
+  out.fill(0);
+  const chance = perSecond / sampleRate;
+  for (let i = 0; i < out.length; i++) {
+    if (rng.next() >= chance) continue;
+    const amplitude = 0.3 + 0.7 * rng.next();
+    const length = Math.floor(sampleRate * (0.002 + 0.01 * rng.next()));
+    for (let j = 0; j < length && i + j < out.length; j++) out[i + j]! += amplitude * (rng.next() * 2 - 1) * Math.exp((-6 * j) / length);
+  }
+}
+
+/** Slider percent (0–100) to linear gain, on a squared curve so the low end isn't all silence-or-loud. */
+export function volumeGain(percent: number): number {
+  const x = Math.max(0, Math.min(100, percent)) / 100;
+  return x * x;
+}
+
+export interface DuckingOptions {
+  /** Ambience gain while narration speaks. */
+  depth: number;
+  /** Time constants (seconds) for ducking down and coming back up. */
+  attack: number;
+  release: number;
+}
+
+export const DUCKING_DEFAULTS: DuckingOptions = { depth: 0.35, attack: 0.12, release: 0.9 };
+
+/** Seconds scene ambience takes to crossfade into the next scene's. */
+export const AMBIENCE_CROSSFADE = 1.6;
@@ -0,0 +1,208 @@
+import * as THREE from "three";
+import type { CameraStyle } from "@/lib/scene";
+import { getPropDefinition, type PlacedProp } from "@/lib/props";
+import { createNoise2D } from "@/lib/noise";
+
+/*
+ * Shots are pure functions of time: sample(t) for the same shot always yields the same pose, so
+ * playback, tests and offline rendering agree frame for frame. Nothing here reads a clock.
+ */
+
+export interface ShotFocus {
+  center: THREE.Vector3;
+  /** Radius that should stay in frame. */
+  radius: number;
+}
+
+export interface CameraPose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  /** Rotation around the view axis, in radians. */
+  roll: number;
+  fov: number;
+}
+
+export interface Shot {
+  style: CameraStyle;
+  duration: number;
+  /** Writes the pose at `time` seconds into `out` (allocation-free) and returns it. Paths hold their end pose past `duration`. */
+  sample(time: number, out?: CameraPose): CameraPose;
+}
+
+export interface ShotOptions {
+  /** Seconds. */
+  duration: number;
+  focus?: ShotFocus;
+  seed?: number;
+  /** Scales handheld shake; 0 disables it. */
+  shake?: number;
+}
+
+export type Easing = (t: number) => number;
+
+export const easing = {
+  linear: ((t) => t) as Easing,
+  inOutSine: ((t) => 0.5 - 0.5 * Math.cos(Math.PI * t)) as Easing,
+  inOutCubic: ((t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2)) as Easing,
+  outQuad: ((t) => 1 - (1 - t) * (1 - t)) as Easing,
+};
+
+export const BASE_FOV = 45;
+
+export function createPose(): CameraPose {
+  return { position: new THREE.Vector3(0, 2, 8), target: new THREE.Vector3(0, 1, 0), roll: 0, fov: BASE_FOV };
+}
+
+export function copyPose(from: CameraPose, to: CameraPose): CameraPose {
+  to.position.copy(from.position);
+  to.target.copy(from.target);
+  to.roll = from.roll;
+  to.fov = from.fov;
+  return to;
+}
+
+export const DEFAULT_FOCUS: ShotFocus = { center: new THREE.Vector3(0, 0, -1), radius: 3 };
+
+/** Frames the scene's grounded props (center, ring and backdrop placements); overlays don't count. */
+export function computeFocus(props: readonly PlacedProp[]): ShotFocus {
+  const solid = props.filter((p) => (getPropDefinition(p.id)?.placement ?? "overlay") !== "overlay" && p.position[2] > -7);
+  if (!solid.length) return DEFAULT_FOCUS;
+  const box = new THREE.Box3();
+  for (const p of solid) {
+    const r = getPropDefinition(p.id)?.radius ?? 1;
+    box.expandByPoint(new THREE.Vector3(p.position[0] - r, 0, p.position[2] - r));
+    box.expandByPoint(new THREE.Vector3(p.position[0] + r, 1.5, p.position[2] + r));
+  }
+  const center = box.getCenter(new THREE.Vector3());
+  center.y = 0;
+  const size = box.getSize(new THREE.Vector3());
+  return { center, radius: Math.max(2, Math.hypot(size.x, size.z) / 2) };
+}
+
+const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z);
+
+/** A spline path for the camera and another for its look-at point, both eased over the shot. */
+function splineShot(style: CameraStyle, duration: number, points: THREE.Vector3[], targets: THREE.Vector3[], ease: Easing, fov: (u: number) => number = () => BASE_FOV): Shot {
+  const path = new THREE.CatmullRomCurve3(points, false, "centripetal");
+  const look = targets.length > 1 ? new THREE.CatmullRomCurve3(targets, false, "centripetal") : null;
+  return {
+    style,
+    duration,
+    sample(time, out = createPose()) {
+      const u = ease(duration > 0 ? Math.min(1, Math.max(0, time / duration)) : 1);
+      path.getPoint(u, out.position);
+      if (look) look.getPoint(u, out.target);
+      else out.target.copy(targets[0]!);
+      out.roll = 0;
+      out.fov = fov(u);
+      return out;
+    },
+  };
+}
+
+export function buildShot(style: CameraStyle, { duration, focus = DEFAULT_FOCUS, seed = 0, shake = 1 }: ShotOptions): Shot {
+  const c = focus.center;
+  const d = Math.max(5, focus.radius * 1.8);
+  const at = (x: number, y: number, z: number) => v(c.x + x, c.y + y, c.z + z);
+
+  switch (style) {
+    case "dolly-in":
+      return splineShot(style, duration, [at(0, 1.7, d * 1.5), at(0.25, 1.55, d * 1.1), at(0.35, 1.4, d * 0.75)], [at(0, 1, 0)], easing.inOutCubic);
+
+    case "crane-up":
+      return splineShot(
+        style,
+        duration,
+        [at(-d * 0.3, 0.6, d), at(0, 1.8, d * 1.1), at(d * 0.2, 4.5, d * 1.25)],
+        [at(0, 1.4, 0), at(0, 0.6, 0)],
+        easing.inOutSine
+      );
+
+    case "locked-off":
+      return splineShot(style, duration, [at(0, 1.6, d), at(0, 1.6, d)], [at(0, 1, 0)], easing.linear);
+
+    case "push-pull": {
+      // Dolly zoom: the camera pushes in while the lens widens, so the subject holds its size and the set stretches.
+      const far = d * 1.5;
+      const near = d * 0.6;
+      const subject = 2 * far * Math.tan(THREE.MathUtils.degToRad(BASE_FOV * 0.6) / 2);
+      return splineShot(style, duration, [at(0, 1.5, far), at(0, 1.3, near)], [at(0, 1, 0)], easing.inOutSine, (u) => {
+        const dist = far + (near - far) * u;
+        return THREE.MathUtils.radToDeg(2 * Math.atan(subject / (2 * dist)));
+      });
+    }
+
+    case "handheld": {
+      const noise = createNoise2D(seed);
+      const base = splineShot(style, duration, [at(0.4, 1.6, d * 0.95), at(0.2, 1.55, d * 0.8)], [at(0, 1.1, 0)], easing.linear);
+      return {
+        style,
+        duration,
+        sample(time, out = createPose()) {
+          base.sample(time, out);
+          // The path holds at its end, but the operator keeps breathing: noise runs on unclamped time.
+          const t = Math.max(0, time);
+          // Two octaves of seeded noise: slow body sway plus faster hand tremor.
+          const n = (channel: number) => noise(t * 0.6, channel) * 0.8 + noise(t * 3.1, channel + 40) * 0.2;
+          out.position.x += n(1) * 0.12 * shake;
+          out.position.y += n(2) * 0.08 * shake;
+          out.target.x += n(3) * 0.06 * shake;
+          out.target.y += n(4) * 0.05 * shake;
+          out.roll = n(5) * 0.02 * shake;
+          return out;
+        },
+      };
+    }
+
+    case "orbit-slow":
+    default: {
+      const sweep = Math.min(1.2, 0.1 * duration);
+      return {
+        style: "orbit-slow",
+        duration,
+        sample(time, out = createPose()) {
+          const u = duration > 0 ? Math.min(1, Math.max(0, time / duration)) : 1;
+          const angle = -sweep / 2 + sweep * easing.inOutSine(u);
+          out.position.set(c.x + Math.sin(angle) * d, c.y + 2, c.z + Math.cos(angle) * d);
+          out.target.set(c.x, c.y + 1.2, c.z);
+          out.roll = 0;
+          out.fov = BASE_FOV;
+          return out;
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Carries the camera from `from` into `to` at eased progress `u`, for fly-through transitions. The path
+ * arcs upward by `lift` at its midpoint so the camera clears the set it is leaving. Writes into `to`.
+ */
+export function blendPose(from: CameraPose, to: CameraPose, u: number, lift = 1.5): CameraPose {
+  const k = easing.inOutCubic(Math.min(1, Math.max(0, u)));
+  to.position.lerpVectors(from.position, to.position, k);
+  to.position.y += Math.sin(Math.PI * k) * lift;
+  to.target.lerpVectors(from.target, to.target, k);
+  to.roll = from.roll + (to.roll - from.roll) * k;
+  to.fov = from.fov + (to.fov - from.fov) * k;
+  return to;
+}
+
+/** Seconds the camera takes to fly back into the scripted shot after the viewer has explored. */
+export const EXPLORE_RETURN = 1.4;
+
+export interface OrbitLimits {
+  minDistance: number;
+  maxDistance: number;
+  minPolarAngle: number;
+  maxPolarAngle: number;
+}
+
+/**
+ * How far the viewer may take the camera in explore mode: no closer than arm's length, no farther than the
+ * widest scripted shot allows and never far below the set, so the diorama's unbuilt edges stay out of view.
+ */
+export function exploreLimits(focus: ShotFocus = DEFAULT_FOCUS): OrbitLimits {
+  const d = Math.max(5, focus.radius * 1.8);
+  return { minDistance: 1.5, maxDistance: d * 2.5, minPolarAngle: 0.1, maxPolarAngle: Math.PI * 0.56 };
+}
@@ -0,0 +1,141 @@
+import type { Locale, Scene } from "@/lib/scene";
+import { estimateWordTimings, expectedDwellMs, splitWords } from "@/lib/speech";
+
+/*
+ * Caption and transcript export. Cues are placed on the deck's playback timeline: each scene's window
+ * comes from how long it actually played (when known) or from the same dwell estimate autoplay uses,
+ * and words inside a window are timed like the narration estimate, squeezed if the window is shorter.
+ */
+
+export interface SceneTiming {
+  /** Milliseconds from the start of the show. */
+  start: number;
+  end: number;
+}
+
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  /** Index of the scene the cue belongs to. */
+  scene: number;
+}
+
+/** Back-to-back scene windows; `durations[i]` overrides the estimate for scene i (e.g. how long it really played). */
+export function planTimings(scenes: readonly Scene[], locale: Locale, durations: readonly (number | undefined)[] = []): SceneTiming[] {
+  let t = 0;
+  return scenes.map((scene, i) => {
+    const start = t;
+    t += Math.max(1000, durations[i] ?? expectedDwellMs(scene, locale));
+    return { start, end: t };
+  });
+}
+
+/** Two lines of this many characters is the usual subtitle limit. */
+const LINE_CHARS = 42;
+const MIN_CUE_MS = 1000;
+
+function wrapLines(text: string, width = LINE_CHARS): string {
+  if (text.length <= width) return text;
+  // Break at the space closest to the middle so the two lines are balanced.
+  const mid = text.length / 2;
+  let best = -1;
+  for (let i = text.indexOf(" "); i !== -1; i = text.indexOf(" ", i + 1)) if (best === -1 || Math.abs(i - mid) < Math.abs(best - mid)) best = i;
+  return best === -1 ? text : text.slice(0, best) + "\n" + text.slice(best + 1);
+}
+
+export function buildCues(scenes: readonly Scene[], timings: readonly SceneTiming[], locale: Locale): Cue[] {
+  const cues: Cue[] = [];
+  scenes.forEach((scene, si) => {
+    const span = timings[si];
+    const words = splitWords(scene.narration.replace(/-->/g, "→"));
+    if (!span || !words.length) return;
+    const { starts, total } = estimateWordTimings(words, locale);
+    const scale = Math.min(1, (span.end - span.start) / Math.max(1, total));
+    const at = (ms: number) => Math.round(span.start + ms * scale);
+
+    // Group words into cues that end at sentence breaks or when two lines are full.
+    const groups: number[][] = [];
+    let group: number[] = [];
+    let length = 0;
+    words.forEach((w, wi) => {
+      if (group.length && length + 1 + w.text.length > LINE_CHARS * 2) {
+        groups.push(group);
+        group = [];
+        length = 0;
+      }
+      group.push(wi);
+      length += (length ? 1 : 0) + w.text.length;
+      if (/[.!?…]["')\]]*$/.test(w.text)) {
+        groups.push(group);
+        group = [];
+        length = 0;
+      }
+    });
+    if (group.length) groups.push(group);
+
+    groups.forEach((g, gi) => {
+      const next = groups[gi + 1];
+      const start = at(starts[g[0]!]!);
+      // A cue runs until the next one starts, so cues never overlap; only the scene's last cue is stretched to a minimum.
+      const end = next ? at(starts[next[0]!]!) : Math.min(span.end, Math.max(start + MIN_CUE_MS, at(total)));
+      cues.push({ start, end, scene: si, text: wrapLines(g.map((wi) => words[wi]!.text).join(" ")) });
+    });
+  });
+  return cues;
+}
+
+export function formatTimestamp(ms: number, separator: "." | "," = "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, w = 2) => String(n).padStart(w, "0");
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor(total / 60000) % 60;
+  const s = Math.floor(total / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export interface TranscriptLabels {
+  scene: string;
+  timePeriod: string;
+  location: string;
+  startsAt: string;
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** WebVTT forbids "-->" in headers, notes and cue text. */
+const noArrow = (text: string) => text.replace(/-->/g, "→");
+
+/** Cue text is markup in WebVTT: "&" and "<" would start entities and tags. */
+const vttText = (text: string) => noArrow(text).replace(/&/g, "&amp;").replace(/</g, "&lt;");
+
+export function toWebVTT(cues: readonly Cue[], { title, locale, scenes, labels }: { title: string; locale: Locale; scenes: readonly Scene[]; labels: Pick<TranscriptLabels, "scene"> }): string {
+  const out = [`WEBVTT - ${noArrow(oneLine(title))}`, `Language: ${locale}`, ""];
+  let lastScene = -1;
+  cues.forEach((cue, i) => {
+    if (cue.scene !== lastScene) {
+      lastScene = cue.scene;
+      // NOTE blocks end at the first blank line.
+      out.push(`NOTE ${labels.scene} ${cue.scene + 1}: ${noArrow(oneLine(scenes[cue.scene]?.title ?? ""))}`, "");
+    }
+    out.push(String(i + 1), `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}`, vttText(cue.text), "");
+  });
+  return out.join("\n");
+}
+
+export function toSRT(cues: readonly Cue[]): string {
+  return cues.map((cue, i) => [String(i + 1), `${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}`, cue.text, ""].join("\n")).join("\n");
+}
+
+export function toMarkdown(scenes: readonly Scene[], { title, labels, timings }: { title: string; labels: TranscriptLabels; timings?: readonly SceneTiming[] }): string {
+  const out = [`# ${oneLine(title)}`, ""];
+  scenes.forEach((scene, i) => {
+    out.push(`## ${labels.scene} ${i + 1}: ${oneLine(scene.title)}`, "");
+    if (scene.timePeriod) out.push(`**${labels.timePeriod}:** ${oneLine(scene.timePeriod)}  `);
+    if (scene.location) out.push(`**${labels.location}:** ${oneLine(scene.location)}  `);
+    const timing = timings?.[i];
+    if (timing) out.push(`**${labels.startsAt}:** ${formatTimestamp(timing.start).slice(0, 8)}  `);
+    out.push("", oneLine(scene.narration), "");
+  });
+  return out.join("\n");
+}
@@ -0,0 +1,51 @@
+import baseCatalog from "@/locales/en-US.json";
+import type { Locale } from "@/lib/scene";
+import { DEFAULT_LOCALE, fallbackChain, mergeCatalogs } from "@/lib/i18n";
+
+/*
+ * UI message catalogs: one JSON file per locale in src/locales, fetched when first needed. en-US is the
+ * reference catalog; it defines every key (and so the Messages type) and ships in the main bundle as the
+ * last fallback. Other catalogs may leave keys out; those fall through the locale's fallback chain.
+ * Adding a language is adding a file.
+ */
+
+export type Messages = typeof baseCatalog;
+
+export const DEFAULT_MESSAGES: Messages = baseCatalog;
+
+const loaders = import.meta.glob<unknown>(["../locales/*.json", "!../locales/en-US.json"], { import: "default" });
+
+const pathLocale = (path: string) => /([^/]+)\.json$/.exec(path)![1]!;
+
+/** Locales with a catalog, reference first. */
+export const AVAILABLE_LOCALES: readonly Locale[] = [DEFAULT_LOCALE, ...Object.keys(loaders).map(pathLocale).sort()];
+
+const catalogs = new Map<Locale, unknown>([[DEFAULT_LOCALE, baseCatalog]]);
+const merged = new Map<Locale, Messages>();
+
+function combine(locale: Locale, chain: readonly Locale[]): Messages {
+  let messages = merged.get(locale);
+  if (!messages) {
+    messages = mergeCatalogs(baseCatalog, ...[...chain].reverse().map((tag) => catalogs.get(tag)));
+    merged.set(locale, messages);
+  }
+  return messages;
+}
+
+/** Messages for `locale` if every catalog in its chain is loaded already, else null. */
+export function cachedMessages(locale: Locale): Messages | null {
+  const chain = fallbackChain(locale, AVAILABLE_LOCALES);
+  return chain.every((tag) => catalogs.has(tag)) ? combine(locale, chain) : null;
+}
+
+export async function loadMessages(locale: Locale): Promise<Messages> {
+  const chain = fallbackChain(locale, AVAILABLE_LOCALES);
+  await Promise.all(
+    chain
+      .filter((tag) => !catalogs.has(tag))
+      .map(async (tag) => {
+        catalogs.set(tag, await loaders[`../locales/${tag}.json`]!());
+      })
+  );
+  return combine(locale, chain);
+}
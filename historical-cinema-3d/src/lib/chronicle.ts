@@ -0,0 +1,144 @@
+import type { Locale, Scene } from "@/lib/scene";
+import { validateDeck, type SceneDiagnostic } from "@/lib/validate";
+import { DEFAULT_LOCALE, canonicalLocale, type MessageValues } from "@/lib/i18n";
+import type { Messages } from "@/lib/catalogs";
+import { parsePack, type ContentPack } from "@/lib/packs";
+import { slugify } from "@/lib/text";
+
+/*
+ * The .chronicle.json format: a deck of scenes plus what it is about and where it came from. Per-scene
+ * overrides (lighting, transition, dwell) travel inside the scenes. Files are migrated forward one
+ * version at a time on load, so old files keep opening as the format grows.
+ *
+ * Version history:
+ *   0 – no envelope: a bare Scene[] or { scenes }, as scene backends return them.
+ *   1 – { format, version, eventName, locale, scenes, meta?, matches?, template? }.
+ *   2 – `matches` replaced by `pack` (see lib/packs): aliases per locale, tags, era and years.
+ */
+
+export const CHRONICLE_FORMAT = "historical-cinema/chronicle";
+export const CHRONICLE_VERSION = 2;
+export const CHRONICLE_EXTENSION = ".chronicle.json";
+
+export interface ChronicleMeta {
+  author?: string;
+  /** What produced the scenes: a provider id, a model name, "hand-authored"… */
+  generator?: string;
+  description?: string;
+  /** ISO 8601. */
+  createdAt?: string;
+  license?: string;
+}
+
+export interface Chronicle {
+  format: typeof CHRONICLE_FORMAT;
+  version: typeof CHRONICLE_VERSION;
+  eventName: string;
+  locale: Locale;
+  scenes: Scene[];
+  meta: ChronicleMeta;
+  /** Shipped content: the event names and topics this chronicle answers. */
+  pack?: ContentPack;
+  /** Shipped content: "{event}" in the event name and scene text is replaced with the requested event. */
+  template?: boolean;
+}
+
+/** Key of the error's message in the catalogs' "chronicleErrors" section. */
+export type ChronicleErrorCode = keyof Messages["chronicleErrors"];
+
+export class ChronicleError extends Error {
+  constructor(
+    readonly code: ChronicleErrorCode,
+    /** Placeholders in the message. */
+    readonly values: MessageValues = {}
+  ) {
+    super(code);
+    this.name = "ChronicleError";
+  }
+}
+
+type RawDocument = Record<string, unknown> & { version: number };
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {
+  0: (doc) => ({ format: CHRONICLE_FORMAT, version: 1, eventName: "", locale: "en-US", scenes: Array.isArray(doc.scenes) ? doc.scenes : [], meta: {} }),
+  1: ({ matches, ...doc }) => ({ ...doc, version: 2, ...(Array.isArray(matches) && matches.length ? { pack: { aliases: { [canonicalLocale(doc.locale) ?? DEFAULT_LOCALE]: matches } } } : {}) }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Brings any supported version up to CHRONICLE_VERSION; returns the document and the version it started at. */
+export function migrateChronicle(raw: unknown): { doc: RawDocument; from: number } {
+  let doc: RawDocument;
+  if (Array.isArray(raw)) doc = { version: 0, scenes: raw };
+  else if (isRecord(raw) && raw.format === undefined && raw.version === undefined && Array.isArray(raw.scenes)) doc = { version: 0, scenes: raw.scenes };
+  else if (isRecord(raw) && raw.format === CHRONICLE_FORMAT && typeof raw.version === "number") doc = raw as RawDocument;
+  else throw new ChronicleError("notChronicle");
+
+  const from = doc.version;
+  if (from > CHRONICLE_VERSION) throw new ChronicleError("newerVersion", { version: from, supported: CHRONICLE_VERSION });
+  while (doc.version < CHRONICLE_VERSION) {
+    const step = MIGRATIONS[doc.version];
+    if (!step) throw new ChronicleError("unsupportedVersion", { version: doc.version });
+    doc = step(doc);
+  }
+  return { doc, from };
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+/** Parses and validates a chronicle (as JSON text or an already-parsed value). Scenes are repaired like generated ones. */
+export function parseChronicle(input: unknown): { chronicle: Chronicle; diagnostics: SceneDiagnostic[] } {
+  let raw = input;
+  if (typeof input === "string") {
+    try {
+      raw = JSON.parse(input);
+    } catch (e) {
+      throw new ChronicleError("invalidJson", { detail: (e as Error).message });
+    }
+  }
+  const { doc, from } = migrateChronicle(raw);
+  const { scenes, diagnostics } = validateDeck(doc.scenes);
+  if (!scenes.length) throw new ChronicleError("noScenes");
+  if (from < CHRONICLE_VERSION) diagnostics.unshift({ severity: "info", scene: null, path: "version", code: "upgradedFormat", values: { from, to: CHRONICLE_VERSION } });
+
+  const locale: Locale = canonicalLocale(doc.locale) ?? DEFAULT_LOCALE;
+  if (doc.locale !== undefined && !canonicalLocale(doc.locale)) diagnostics.push({ severity: "warning", scene: null, path: "locale", code: "deckLocale", values: { value: String(doc.locale), locale: DEFAULT_LOCALE } });
+
+  const rawMeta = isRecord(doc.meta) ? doc.meta : {};
+  const meta: ChronicleMeta = {};
+  for (const key of ["author", "generator", "description", "createdAt", "license"] as const) if (text(rawMeta[key])) meta[key] = text(rawMeta[key]);
+
+  const chronicle: Chronicle = { format: CHRONICLE_FORMAT, version: CHRONICLE_VERSION, eventName: text(doc.eventName), locale, scenes, meta };
+  const pack = parsePack(doc.pack, slugify(chronicle.eventName), diagnostics);
+  if (pack) chronicle.pack = pack;
+  if (doc.template === true) chronicle.template = true;
+  return { chronicle, diagnostics };
+}
+
+export function createChronicle(eventName: string, locale: Locale, scenes: Scene[], meta: ChronicleMeta = {}): Chronicle {
+  return { format: CHRONICLE_FORMAT, version: CHRONICLE_VERSION, eventName, locale, scenes, meta: { createdAt: new Date().toISOString(), ...meta } };
+}
+
+export function serializeChronicle(chronicle: Chronicle): string {
+  return JSON.stringify(chronicle, null, 2) + "\n";
+}
+
+export async function readChronicleFile(file: Blob): Promise<{ chronicle: Chronicle; diagnostics: SceneDiagnostic[] }> {
+  return parseChronicle(await file.text());
+}
+
+function fill<T>(value: T, eventName: string): T {
+  // A replacer function, so "$&" and the like in a typed event name stay literal.
+  if (typeof value === "string") return value.replace(/\{event\}/g, () => eventName) as T;
+  if (Array.isArray(value)) return value.map((v) => fill(v, eventName)) as T;
+  if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fill(v, eventName)])) as T;
+  return value;
+}
+
+/** The chronicle as played for `eventName`: template placeholders filled in, otherwise unchanged. */
+export function instantiateChronicle(chronicle: Chronicle, eventName: string): Chronicle {
+  if (!chronicle.template) return chronicle;
+  return { ...chronicle, eventName: fill(chronicle.eventName, eventName), scenes: fill(chronicle.scenes, eventName), template: undefined };
+}
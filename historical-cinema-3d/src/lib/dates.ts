@@ -0,0 +1,424 @@
+import type { Locale, Scene } from "@/lib/scene";
+import type { Chronicle } from "@/lib/chronicle";
+import { normalizeText } from "@/lib/text";
+import { fallbackChain } from "@/lib/i18n";
+
+/*
+ * Reads the free-text `timePeriod` of a scene ("c. 2560 BCE", "20 de julio de 1969", "Old Kingdom",
+ * "late 5th century BC", "1939–45") as an interval of time, so scenes and chronicles can be ordered and
+ * placed on a timeline. Times are fractional years in astronomical numbering — 1 BCE is year 0 and
+ * 2560 BCE is -2559 — so spans subtract cleanly; formatYear turns them back into BCE/CE years.
+ * Anything that names no time ("Mythic time", "") comes back as undatable rather than as a guess.
+ */
+
+export type DatePrecision = "day" | "month" | "year" | "decade" | "century" | "millennium" | "era";
+
+export interface DateInterval {
+  kind: "interval";
+  /** Inclusive start and exclusive end, in fractional astronomical years. */
+  start: number;
+  end: number;
+  /** How many years either bound may be off by: circa dates, and eras whose limits are disputed. */
+  uncertainty: number;
+  precision: DatePrecision;
+  circa: boolean;
+}
+
+export interface Undatable {
+  kind: "undatable";
+  reason: "empty" | "mythic" | "unrecognized";
+}
+
+export type HistoricalDate = DateInterval | Undatable;
+
+export interface NamedEra {
+  id: string;
+  /** Display name first, then other spellings; matched without case or accents. */
+  names: Record<Locale, string[]>;
+  /** Historical years (negative = BCE, no year 0), first and last. */
+  years: [number, number];
+  uncertainty: number;
+}
+
+const PRESENT = new Date().getUTCFullYear();
+
+export const NAMED_ERAS: NamedEra[] = [
+  { id: "prehistory", names: { "en-US": ["Prehistory", "prehistoric"], "es-ES": ["Prehistoria", "prehistorico"] }, years: [-10000, -3001], uncertainty: 2000 },
+  { id: "bronze-age", names: { "en-US": ["Bronze Age"], "es-ES": ["Edad del Bronce"] }, years: [-3300, -1201], uncertainty: 200 },
+  { id: "old-kingdom", names: { "en-US": ["Old Kingdom"], "es-ES": ["Imperio Antiguo"] }, years: [-2686, -2181], uncertainty: 50 },
+  { id: "middle-kingdom", names: { "en-US": ["Middle Kingdom"], "es-ES": ["Imperio Medio"] }, years: [-2055, -1650], uncertainty: 30 },
+  { id: "new-kingdom", names: { "en-US": ["New Kingdom"], "es-ES": ["Imperio Nuevo"] }, years: [-1550, -1069], uncertainty: 25 },
+  { id: "iron-age", names: { "en-US": ["Iron Age"], "es-ES": ["Edad del Hierro"] }, years: [-1200, -550], uncertainty: 200 },
+  { id: "classical-antiquity", names: { "en-US": ["Classical antiquity", "antiquity"], "es-ES": ["Antigüedad clásica", "antigüedad"] }, years: [-800, 476], uncertainty: 100 },
+  { id: "roman-empire", names: { "en-US": ["Roman Empire"], "es-ES": ["Imperio romano"] }, years: [-27, 476], uncertainty: 5 },
+  { id: "middle-ages", names: { "en-US": ["Middle Ages", "medieval", "medieval period"], "es-ES": ["Edad Media", "medieval"] }, years: [476, 1492], uncertainty: 50 },
+  { id: "renaissance", names: { "en-US": ["Renaissance"], "es-ES": ["Renacimiento"] }, years: [1400, 1600], uncertainty: 50 },
+  { id: "age-of-discovery", names: { "en-US": ["Age of Discovery", "age of exploration"], "es-ES": ["Era de los descubrimientos"] }, years: [1415, 1600], uncertainty: 25 },
+  { id: "enlightenment", names: { "en-US": ["Enlightenment", "age of reason"], "es-ES": ["Ilustración", "siglo de las luces"] }, years: [1685, 1815], uncertainty: 20 },
+  { id: "industrial-revolution", names: { "en-US": ["Industrial Revolution"], "es-ES": ["Revolución industrial"] }, years: [1760, 1840], uncertainty: 20 },
+  { id: "victorian-era", names: { "en-US": ["Victorian era"], "es-ES": ["Época victoriana", "era victoriana"] }, years: [1837, 1901], uncertainty: 0 },
+  { id: "world-war-i", names: { "en-US": ["World War I", "first world war", "great war", "ww1", "wwi"], "es-ES": ["Primera Guerra Mundial", "gran guerra"] }, years: [1914, 1918], uncertainty: 0 },
+  { id: "interwar", names: { "en-US": ["Interwar period", "interwar"], "es-ES": ["Periodo de entreguerras", "entreguerras"] }, years: [1918, 1939], uncertainty: 0 },
+  { id: "world-war-ii", names: { "en-US": ["World War II", "second world war", "ww2", "wwii"], "es-ES": ["Segunda Guerra Mundial"] }, years: [1939, 1945], uncertainty: 0 },
+  { id: "cold-war", names: { "en-US": ["Cold War"], "es-ES": ["Guerra Fría"] }, years: [1947, 1991], uncertainty: 2 },
+  { id: "space-age", names: { "en-US": ["Space Age"], "es-ES": ["Era espacial"] }, years: [1957, PRESENT], uncertainty: 0 },
+];
+
+const MYTHIC = /\b(myth|mythic|mythical|mythological|legend|legendary|timeless|primordial|fabled|mitico|mitica|mitologico|leyenda|legendario|legendaria|atemporal|fabuloso)\b/;
+
+// Era markers, matched on lowercased, accent-free text. "a. C." needs its dots so it can't eat words.
+const BCE = /(?:\bb\.?\s?c\.?\s?e\b\.?|\bb\.\s?c\.|\bbc\b|(?<![a-z])a\.\s?c\.|\ba\.\s?n\.\s?e\.|\bantes de cristo\b|\bantes de nuestra era\b|\bbefore christ\b)/;
+const CE = /(?:\bc\.?\s?e\b\.?|\ba\.\s?d\.|\bad\b|(?<![a-z])d\.\s?c\.|\bn\.\s?e\.|\bdespues de cristo\b|\bde nuestra era\b|\banno domini\b)/;
+const CIRCA = /(?:\bc\.|\bca\.?(?=\s|\d)|\bcirca\b|\bapprox(?:imately|\.)?|\baround\b|\babout\b|~|\bh\.|\bhacia\b|\baprox(?:imadamente|\.)?|\balrededor de\b|\ben torno a\b|\bcerca de\b)/;
+
+const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, enero: 1, ene: 1,
+  february: 2, feb: 2, febrero: 2,
+  march: 3, mar: 3, marzo: 3,
+  april: 4, apr: 4, abril: 4, abr: 4,
+  may: 5, mayo: 5,
+  june: 6, jun: 6, junio: 6,
+  july: 7, jul: 7, julio: 7,
+  august: 8, aug: 8, agosto: 8, ago: 8,
+  september: 9, sep: 9, sept: 9, septiembre: 9, setiembre: 9,
+  october: 10, oct: 10, octubre: 10,
+  november: 11, nov: 11, noviembre: 11,
+  december: 12, dec: 12, diciembre: 12, dic: 12,
+};
+const MONTH = `(${Object.keys(MONTHS).join("|")})`;
+const DAYS_BEFORE_MONTH = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334, 365];
+
+const ORDINAL_WORDS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth", "eleventh", "twelfth", "thirteenth", "fourteenth", "fifteenth", "sixteenth", "seventeenth", "eighteenth", "nineteenth", "twentieth", "twenty first"];
+const ROMAN: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+
+// Parts of a century or decade: "early", "mid-", "late", "first half of", "principios de"…
+const PORTIONS: [RegExp, number, number][] = [
+  [/\b(first half|primera mitad)\b/, 0, 0.5],
+  [/\b(second half|segunda mitad)\b/, 0.5, 1],
+  [/\b(early|beginning|start|principios|comienzos|inicios)\b/, 0, 1 / 3],
+  [/\b(mid|middle|mediados)\b/, 1 / 3, 2 / 3],
+  [/\b(late|end|finales|fines)\b/, 2 / 3, 1],
+];
+
+function romanToInt(value: string): number | null {
+  if (!/^[ivxlc]+$/.test(value)) return null;
+  let total = 0;
+  for (let i = 0; i < value.length; i++) {
+    const n = ROMAN[value[i]!]!;
+    const next = ROMAN[value[i + 1] ?? ""] ?? 0;
+    total += n < next ? -n : n;
+  }
+  return total > 0 ? total : null;
+}
+
+function ordinal(value: string): number | null {
+  const digits = /^(\d{1,2})(?:st|nd|rd|th|o|º|er)?$/.exec(value);
+  if (digits) return Number(digits[1]);
+  const word = ORDINAL_WORDS.indexOf(value.replace(/-/g, " "));
+  return word >= 0 ? word + 1 : romanToInt(value);
+}
+
+/** Start of historical `year` (negative = BCE) in astronomical years. */
+export function astronomicalYear(year: number): number {
+  return year < 0 ? year + 1 : year;
+}
+
+function yearSpan(year: number, bce: boolean): [number, number] {
+  const start = bce ? 1 - year : year;
+  return [start, start + 1];
+}
+
+/** Circa widens a date by about 2% of its age, at least 5 and at most 500 years. */
+function circaYears(start: number): number {
+  return Math.max(5, Math.min(500, Math.round(0.02 * (PRESENT - start))));
+}
+
+interface Parsed {
+  start: number;
+  end: number;
+  precision: DatePrecision;
+  uncertainty: number;
+}
+
+interface Side {
+  /** Era-free text, circa and era markers removed. */
+  text: string;
+  bce: boolean | null;
+  circa: boolean;
+}
+
+function readSide(text: string): Side {
+  let s = text;
+  let bce: boolean | null = null;
+  if (BCE.test(s)) {
+    bce = true;
+    s = s.replace(BCE, " ");
+  } else if (CE.test(s)) {
+    bce = false;
+    s = s.replace(CE, " ");
+  }
+  const circa = CIRCA.test(s);
+  if (circa) s = s.replace(new RegExp(CIRCA.source, "g"), " ");
+  return { text: s, bce, circa };
+}
+
+function parsePortion(s: string, span: [number, number]): [number, number] {
+  for (const [pattern, from, to] of PORTIONS) {
+    if (!pattern.test(s)) continue;
+    const length = span[1] - span[0];
+    return [span[0] + length * from, span[0] + length * to];
+  }
+  return span;
+}
+
+/** One date (no ranges) with its era already read off. */
+function parseSimple({ text, bce }: Side): Parsed | null {
+  const raw = text.replace(/\s+/g, " ").trim();
+  const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(raw);
+  if (iso) return dayOrMonth(Number(iso[1]), Number(iso[2]), iso[3] ? Number(iso[3]) : null, !!bce);
+
+  // From here on punctuation and filler words only get in the way; digit grouping ("10,000", "10.000") goes first.
+  const s = raw.replace(/(?<=\d)[,.](?=\d{3}\b)/g, "").replace(/[,.]/g, " ").replace(/\b(early|mid|late)-/g, "$1 ").replace(/\b(the|of|in|year|de|del|el|la|los|las|ano|anos|en)\b/g, " ").replace(/\s+/g, " ").trim();
+  const isBce = !!bce;
+
+  const century = /\b(?:(\S+?)(?:-| )century|centuries|(?:siglo|s) (\S+))\b/.exec(s);
+  if (century) {
+    const n = ordinal(century[1] ?? century[2] ?? "");
+    if (n) {
+      // The 5th century runs 401–500 (CE) or 500–401 BCE, in yearSpan's astronomical years.
+      const span: [number, number] = isBce ? [1 - 100 * n, 101 - 100 * n] : [100 * (n - 1) + 1, 100 * n + 1];
+      const part = parsePortion(s, span);
+      return { start: part[0], end: part[1], precision: "century", uncertainty: 0 };
+    }
+  }
+  const millennium = /\b(?:(\S+?)(?:-| )millenni(?:um|a)|milenio (\S+))\b/.exec(s);
+  if (millennium) {
+    const n = ordinal(millennium[1] ?? millennium[2] ?? "");
+    if (n) {
+      const span: [number, number] = isBce ? [1 - 1000 * n, 1001 - 1000 * n] : [1000 * (n - 1) + 1, 1000 * n + 1];
+      const part = parsePortion(s, span);
+      return { start: part[0], end: part[1], precision: "millennium", uncertainty: 0 };
+    }
+  }
+  const decade = /\b(\d{2,3}0)'?s\b/.exec(s) ?? /\bdecada (\d{2,3}0)\b/.exec(s) ?? (/^(\d{3}0)$/.test(s) && /\b(decada|anos)\b/.test(raw) ? [s, s] : null);
+  if (decade) {
+    const d = Number(decade[1]);
+    const span: [number, number] = isBce ? [1 - (d + 9), 2 - d] : [d, d + 10];
+    const part = parsePortion(s, span);
+    return { start: part[0], end: part[1], precision: "decade", uncertainty: 0 };
+  }
+
+  let m: RegExpExecArray | null;
+  if ((m = new RegExp(`^(\\d{1,2}) ${MONTH} (\\d{1,4})$`).exec(s))) return dayOrMonth(Number(m[3]), MONTHS[m[2]!]!, Number(m[1]), isBce);
+  if ((m = new RegExp(`^${MONTH} (\\d{1,2}) (\\d{1,4})$`).exec(s))) return dayOrMonth(Number(m[3]), MONTHS[m[1]!]!, Number(m[2]), isBce);
+  if ((m = new RegExp(`^${MONTH} (\\d{1,4})$`).exec(s))) return dayOrMonth(Number(m[2]), MONTHS[m[1]!]!, null, isBce);
+  if ((m = /^(\d{1,6})$/.exec(s))) {
+    const [start, end] = yearSpan(Number(m[1]), isBce);
+    return { start, end, precision: "year", uncertainty: 0 };
+  }
+  return null;
+}
+
+function dayOrMonth(year: number, month: number, day: number | null, bce: boolean): Parsed | null {
+  if (month < 1 || month > 12 || (day !== null && (day < 1 || day > 31))) return null;
+  const [y] = yearSpan(year, bce);
+  if (day === null) return { start: y + DAYS_BEFORE_MONTH[month - 1]! / 365, end: y + DAYS_BEFORE_MONTH[month]! / 365, precision: "month", uncertainty: 0 };
+  const at = y + (DAYS_BEFORE_MONTH[month - 1]! + day - 1) / 365;
+  return { start: at, end: at + 1 / 365, precision: "day", uncertainty: 0 };
+}
+
+function parseEra(text: string): Parsed | null {
+  const s = ` ${normalizeText(text)} `;
+  let best: NamedEra | null = null;
+  let bestLength = 0;
+  for (const era of NAMED_ERAS) {
+    for (const name of Object.values(era.names).flat()) {
+      const n = normalizeText(name);
+      if (n.length > bestLength && s.includes(` ${n} `)) {
+        best = era;
+        bestLength = n.length;
+      }
+    }
+  }
+  if (!best) return null;
+  return { start: astronomicalYear(best.years[0]), end: astronomicalYear(best.years[1]) + 1, precision: "era", uncertainty: best.uncertainty };
+}
+
+const PRECISION_ORDER: DatePrecision[] = ["day", "month", "year", "decade", "century", "millennium", "era"];
+const RANGE = /^(?:from |between |entre |desde |de )?(.+?)(?:\s*[–—]\s*|\s+-\s+|(?<=\d)-(?=\d)|\s+(?:to|until|till|through|and|hasta|y|al?)\s+)(.+)$/;
+
+/** Reads a free-text time period; see the top of this file. */
+export function parseHistoricalDate(text: string | undefined): HistoricalDate {
+  const s = (text ?? "").normalize("NFD").replace(/[̀-ͯ]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+  if (!s || /^[-–—?.\s]*$/.test(s)) return { kind: "undatable", reason: "empty" };
+  if (MYTHIC.test(s)) return { kind: "undatable", reason: "mythic" };
+
+  let parsed: Parsed | null = null;
+  let circa = false;
+  // "1969-07" is a month; "1939-45" is a range.
+  const range = /^\d{4}-(0[1-9]|1[0-2])(-\d{2})?$/.test(s) ? null : RANGE.exec(s);
+  if (range) {
+    const left = readSide(range[1]!);
+    const right = readSide(range[2]!);
+    // "3100–2686 BCE": an era given once covers both ends. "1939–45": the short end borrows the century.
+    left.bce ??= right.bce;
+    right.bce ??= left.bce;
+    if (/^\s*\d{2}\s*$/.test(right.text) && /^\s*\d{4}\s*$/.test(left.text)) right.text = left.text.trim().slice(0, 2) + right.text.trim();
+    const a = parseSimple(left);
+    const b = parseSimple(right);
+    if (a && b) {
+      circa = left.circa || right.circa;
+      const precision = PRECISION_ORDER[Math.max(PRECISION_ORDER.indexOf(a.precision), PRECISION_ORDER.indexOf(b.precision))]!;
+      parsed = { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end), precision, uncertainty: Math.max(a.uncertainty, b.uncertainty) };
+    }
+  }
+  if (!parsed) {
+    const side = readSide(s);
+    circa = side.circa;
+    parsed = parseSimple(side);
+  }
+  parsed ??= parseEra(s);
+  if (!parsed) return { kind: "undatable", reason: "unrecognized" };
+  const uncertainty = Math.max(parsed.uncertainty, circa ? circaYears(parsed.start) : 0);
+  return { kind: "interval", start: parsed.start, end: parsed.end, uncertainty, precision: parsed.precision, circa };
+}
+
+/** The scene's date, from its own time period or, failing that, a translated one. */
+export function sceneDate(scene: Pick<Scene, "timePeriod" | "translations">): HistoricalDate {
+  const own = parseHistoricalDate(scene.timePeriod);
+  if (own.kind === "interval" || own.reason === "mythic") return own;
+  for (const translation of Object.values(scene.translations ?? {})) {
+    const other = parseHistoricalDate(translation.timePeriod);
+    if (other.kind === "interval") return other;
+  }
+  return own;
+}
+
+/** The interval covering every dated item, or null when none is. */
+export function spanOf(dates: readonly HistoricalDate[]): DateInterval | null {
+  const dated = dates.filter((d): d is DateInterval => d.kind === "interval");
+  if (!dated.length) return null;
+  return {
+    kind: "interval",
+    start: Math.min(...dated.map((d) => d.start)),
+    end: Math.max(...dated.map((d) => d.end)),
+    uncertainty: Math.max(...dated.map((d) => d.uncertainty)),
+    precision: PRECISION_ORDER[Math.max(...dated.map((d) => PRECISION_ORDER.indexOf(d.precision)))]!,
+    circa: dated.some((d) => d.circa),
+  };
+}
+
+/** When a chronicle takes place: the span of its dated scenes, else its pack's years. */
+export function chronicleSpan(chronicle: Pick<Chronicle, "scenes" | "pack">): DateInterval | null {
+  const span = spanOf(chronicle.scenes.map(sceneDate));
+  if (span || !chronicle.pack?.years) return span;
+  const [first, last] = chronicle.pack.years;
+  return { kind: "interval", start: astronomicalYear(first), end: astronomicalYear(last) + 1, uncertainty: 0, precision: "year", circa: false };
+}
+
+export const midpoint = (d: DateInterval) => (d.start + d.end) / 2;
+
+/** "2560 BCE" / "1969" for an astronomical year, using the catalog's `bce` and `ce` patterns ({year}). */
+export function formatYear(year: number, locale: Locale, patterns: { bce: string; ce: string }): string {
+  const whole = Math.floor(year);
+  const historical = whole <= 0 ? 1 - whole : whole;
+  const text = new Intl.NumberFormat(locale, { useGrouping: historical >= 10000 }).format(historical);
+  return (whole <= 0 ? patterns.bce : patterns.ce).replace("{year}", text);
+}
+
+/** Named eras overlapping [start, end), shortest first. */
+export function erasWithin(start: number, end: number, limit = 3): NamedEra[] {
+  return NAMED_ERAS.filter((era) => astronomicalYear(era.years[0]) < end && astronomicalYear(era.years[1]) + 1 > start)
+    .sort((a, b) => a.years[1] - a.years[0] - (b.years[1] - b.years[0]))
+    .slice(0, limit);
+}
+
+/** The era's display name in `locale`, following its fallback chain. */
+export function eraLabel(era: NamedEra, locale: Locale): string {
+  const tag = fallbackChain(locale, Object.keys(era.names))[0] ?? Object.keys(era.names)[0]!;
+  return era.names[tag]?.[0] ?? era.id;
+}
+
+export interface TimelineBreak {
+  /** Where the compressed gap sits on the track, 0–1. */
+  position: number;
+  /** How many years it stands for. */
+  years: number;
+}
+
+export interface TimelineLayout {
+  /** Track position (0–1) of each item's marker, null for undatable ones. */
+  positions: (number | null)[];
+  /** Time → position knots, ascending; empty when nothing is dated. */
+  knots: { time: number; position: number }[];
+  breaks: TimelineBreak[];
+}
+
+export interface TimelineOptions {
+  /** A gap longer than this many times the median gap is drawn at that length, with a break. */
+  breakRatio: number;
+  /** Markers closer than this (fraction of the track) are pushed apart so each stays clickable. */
+  minSpacing: number;
+}
+
+export const TIMELINE_DEFAULTS: TimelineOptions = { breakRatio: 4, minSpacing: 0.06 };
+
+/**
+ * Places dated items proportionally to time, except that gaps far longer than the typical one are cut
+ * down and reported as breaks, so 3000 BCE and 1969 can share a track without squashing either end.
+ */
+export function layoutTimeline(dates: readonly HistoricalDate[], options: TimelineOptions = TIMELINE_DEFAULTS): TimelineLayout {
+  const dated = dates.filter((d): d is DateInterval => d.kind === "interval");
+  if (!dated.length) return { positions: dates.map(() => null), knots: [], breaks: [] };
+
+  const times = [...new Set(dated.flatMap((d) => [d.start, d.end]))].sort((a, b) => a - b);
+  const gaps = times.slice(1).map((t, i) => t - times[i]!);
+  const sorted = gaps.filter((g) => g > 0).sort((a, b) => a - b);
+  const median = sorted[Math.floor((sorted.length - 1) / 2)] ?? 0;
+  const cap = sorted.length > 1 ? median * options.breakRatio : Infinity;
+  const shown = gaps.map((g) => Math.min(g, cap));
+  const total = shown.reduce((a, b) => a + b, 0);
+
+  const knots: TimelineLayout["knots"] = [{ time: times[0]!, position: 0 }];
+  const breaks: TimelineBreak[] = [];
+  let at = 0;
+  gaps.forEach((gap, i) => {
+    const from = total ? at / total : 0.5;
+    at += shown[i]!;
+    const to = total ? at / total : 0.5;
+    knots.push({ time: times[i + 1]!, position: to });
+    if (gap > cap) breaks.push({ position: (from + to) / 2, years: gap });
+  });
+  if (!total) knots.forEach((k) => (k.position = 0.5));
+
+  const layout: TimelineLayout = { positions: [], knots, breaks };
+  const raw = dates.map((d) => (d.kind === "interval" ? timelinePosition(layout, midpoint(d)) : null));
+  layout.positions = spread(raw, options.minSpacing);
+  return layout;
+}
+
+/** Pushes markers at least `gap` apart, keeping their order and the 0–1 bounds. */
+function spread(positions: (number | null)[], gap: number): (number | null)[] {
+  const order = positions.map((p, i) => [p, i] as const).filter((e): e is readonly [number, number] => e[0] !== null).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const step = Math.min(gap, order.length > 1 ? 1 / (order.length - 1) : gap);
+  const out = order.map(([p]) => p);
+  for (let i = 1; i < out.length; i++) out[i] = Math.max(out[i]!, out[i - 1]! + step);
+  if (out.length) out[out.length - 1] = Math.min(out[out.length - 1]!, 1);
+  for (let i = out.length - 2; i >= 0; i--) out[i] = Math.min(out[i]!, out[i + 1]! - step);
+  const result = positions.slice();
+  order.forEach(([, index], i) => (result[index] = Math.max(0, out[i]!)));
+  return result;
+}
+
+/** Where `time` falls on the track, clamped to its ends. */
+export function timelinePosition(layout: Pick<TimelineLayout, "knots">, time: number): number {
+  const { knots } = layout;
+  if (!knots.length) return 0;
+  if (time <= knots[0]!.time) return knots[0]!.position;
+  for (let i = 1; i < knots.length; i++) {
+    const a = knots[i - 1]!;
+    const b = knots[i]!;
+    if (time <= b.time) return b.time === a.time ? b.position : a.position + ((time - a.time) / (b.time - a.time)) * (b.position - a.position);
+  }
+  return knots[knots.length - 1]!.position;
+}
@@ -0,0 +1,12 @@
+/** Saves `content` as a file through a temporary object URL. */
+export function downloadFile(filename: string, content: BlobPart, type = "text/plain;charset=utf-8") {
+  const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers start the download asynchronously; give them a moment before revoking.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
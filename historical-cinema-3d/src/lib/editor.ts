@@ -0,0 +1,97 @@
+import type { Locale, Scene, SceneTranslation } from "@/lib/scene";
+import { DEFAULT_PALETTE, checkSceneCount, validateScene, type SceneDiagnostic } from "@/lib/validate";
+
+/*
+ * Deck editing: pure operations on a Scene[] and an undo history of whole snapshots. Decks are a handful
+ * of small scenes, so keeping copies is simpler than recording inverse operations.
+ */
+
+export interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Key and time of the last edit, so a run of keystrokes in one field undoes as one step. */
+  lastKey: string | null;
+  lastAt: number;
+}
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_MS = 1000;
+
+export function createHistory<T>(present: T): EditHistory<T> {
+  return { past: [], present, future: [], lastKey: null, lastAt: 0 };
+}
+
+/** Records `next` as an edit. Edits sharing `key` within COALESCE_MS of each other merge into one step. */
+export function recordEdit<T>(history: EditHistory<T>, next: T, key: string | null = null, now = Date.now()): EditHistory<T> {
+  if (key !== null && key === history.lastKey && now - history.lastAt < COALESCE_MS) {
+    return { ...history, present: next, future: [], lastAt: now };
+  }
+  return { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: next, future: [], lastKey: key, lastAt: now };
+}
+
+export function undo<T>(history: EditHistory<T>): EditHistory<T> {
+  const previous = history.past[history.past.length - 1];
+  if (previous === undefined) return history;
+  return { past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future], lastKey: null, lastAt: 0 };
+}
+
+export function redo<T>(history: EditHistory<T>): EditHistory<T> {
+  const [next, ...rest] = history.future;
+  if (next === undefined) return history;
+  return { past: [...history.past, history.present], present: next, future: rest, lastKey: null, lastAt: 0 };
+}
+
+export function blankScene(title: string): Scene {
+  return { title, timePeriod: "", location: "", oneLine: "", narration: "", visualKeywords: [], palette: [...DEFAULT_PALETTE], environment: "city", cameraStyle: "orbit-slow" };
+}
+
+/** `scenes` with `patch` applied to one scene; optional fields patched to undefined are removed. */
+export function updateScene(scenes: readonly Scene[], index: number, patch: Partial<Scene>): Scene[] {
+  return scenes.map((scene, i) => {
+    if (i !== index) return scene;
+    const next = { ...scene, ...patch };
+    for (const key of Object.keys(patch) as (keyof Scene)[]) if (next[key] === undefined) delete next[key];
+    return next;
+  });
+}
+
+/** Like updateScene for text fields, but writes into the scene's `textLocale` translation unless that is the deck's own language. */
+export function updateSceneText(scenes: readonly Scene[], index: number, patch: SceneTranslation, textLocale: Locale, deckLocale: Locale): Scene[] {
+  const scene = scenes[index];
+  if (!scene || textLocale === deckLocale) return updateScene(scenes, index, patch);
+  return updateScene(scenes, index, { translations: { ...scene.translations, [textLocale]: { ...scene.translations?.[textLocale], ...patch } } });
+}
+
+export function insertScene(scenes: readonly Scene[], index: number, scene: Scene): Scene[] {
+  return [...scenes.slice(0, index), scene, ...scenes.slice(index)];
+}
+
+export function duplicateScene(scenes: readonly Scene[], index: number): Scene[] {
+  const scene = scenes[index];
+  return scene ? insertScene(scenes, index + 1, structuredClone(scene)) : [...scenes];
+}
+
+export function removeScene(scenes: readonly Scene[], index: number): Scene[] {
+  return scenes.filter((_, i) => i !== index);
+}
+
+export function moveScene(scenes: readonly Scene[], from: number, to: number): Scene[] {
+  const next = [...scenes];
+  const [scene] = next.splice(from, 1);
+  if (scene) next.splice(Math.max(0, Math.min(to, next.length)), 0, scene);
+  return next;
+}
+
+/** Where the scene at `index` ends up after moveScene(…, from, to). */
+export function movedIndex(index: number, from: number, to: number): number {
+  if (index === from) return to;
+  if (from < index && to >= index) return index - 1;
+  if (from > index && to <= index) return index + 1;
+  return index;
+}
+
+/** What the validator would say about the deck as edited, without repairing anything. */
+export function lintDeck(scenes: readonly Scene[]): SceneDiagnostic[] {
+  return [...scenes.flatMap((scene, i) => validateScene(scene, i).diagnostics), ...checkSceneCount(scenes.length)];
+}
@@ -0,0 +1,201 @@
+import type { Locale, Scene } from "@/lib/scene";
+import type { SceneDiagnostic } from "@/lib/validate";
+import { fallbackChain } from "@/lib/i18n";
+import { findRun, normalizeText, words } from "@/lib/text";
+
+/*
+ * Offline gazetteer: resolves a scene's free-text `location` ("Giza Plateau", "Aboard the USS Missouri",
+ * "Low lunar orbit") to a place with coordinates, or to a celestial body when the scene is somewhere in
+ * space. Places are matched by alias in any language, as a run of words inside the location, and with
+ * small typos; the other words may only be filler ("aboard", "near") or name places that contain the
+ * match ("Giza, Egypt"). A location that matches nothing stays unresolved and is reported, never placed
+ * at a guess: "Paris, Texas" is not Paris.
+ */
+
+export const CELESTIAL_BODIES = ["earth", "moon", "mars"] as const;
+export type CelestialBody = (typeof CELESTIAL_BODIES)[number];
+
+/** Most specific first; decides between two equally good matches ("London, England" is London). */
+export const PLACE_KINDS = ["site", "ship", "city", "water", "region", "country", "body"] as const;
+export type PlaceKind = (typeof PLACE_KINDS)[number];
+
+export interface Place {
+  id: string;
+  kind: PlaceKind;
+  body: CelestialBody;
+  /** Degrees; absent for whole bodies ("Low lunar orbit"). */
+  lat?: number;
+  lon?: number;
+  /** Ids of the places this one lies in ("giza" is within "egypt"); followed transitively. */
+  within?: string[];
+  /** Display name first, then aliases, by language tag. */
+  names: Record<Locale, string[]>;
+}
+
+export type LocationMatch =
+  | { kind: "resolved"; place: Place; alias: string; score: number }
+  | { kind: "unresolved"; reason: "empty" | "unknown" };
+
+interface Alias {
+  place: Place;
+  text: string;
+  words: string[];
+}
+
+export interface Gazetteer {
+  places: Place[];
+  aliases: Alias[];
+}
+
+export const GAZETTEER_FORMAT = "historical-cinema/gazetteer";
+
+/** Below this a location counts as unresolved. */
+export const LOCATION_THRESHOLD = 0.7;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The places in a gazetteer document; malformed entries are skipped. */
+export function parseGazetteer(raw: unknown): Place[] {
+  if (!isRecord(raw) || raw.format !== GAZETTEER_FORMAT || !Array.isArray(raw.places)) return [];
+  const places: Place[] = [];
+  for (const entry of raw.places) {
+    if (!isRecord(entry) || typeof entry.id !== "string" || !isRecord(entry.names)) continue;
+    const kind = PLACE_KINDS.find((k) => k === entry.kind);
+    const body = CELESTIAL_BODIES.find((b) => b === entry.body);
+    if (!kind || !body) continue;
+    const names: Record<Locale, string[]> = {};
+    for (const [tag, list] of Object.entries(entry.names)) {
+      if (Array.isArray(list)) names[tag] = list.filter((n): n is string => typeof n === "string" && !!n.trim());
+    }
+    const place: Place = { id: entry.id, kind, body, names };
+    if (Array.isArray(entry.within)) place.within = entry.within.filter((id): id is string => typeof id === "string");
+    const { lat, lon } = entry;
+    if (typeof lat === "number" && typeof lon === "number" && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+      place.lat = lat;
+      place.lon = lon;
+    } else if (kind !== "body") {
+      continue;
+    }
+    places.push(place);
+  }
+  return places;
+}
+
+export function buildGazetteer(places: readonly Place[]): Gazetteer {
+  const aliases = places.flatMap((place) =>
+    [...new Set(Object.values(place.names).flat())].map((text) => ({ place, text, words: words(text) })).filter((a) => a.words.length)
+  );
+  return { places: [...places], aliases };
+}
+
+/** The place's display name in `locale`, following its fallback chain. */
+export function placeLabel(place: Place, locale: Locale): string {
+  const tag = fallbackChain(locale, Object.keys(place.names))[0] ?? Object.keys(place.names)[0]!;
+  return place.names[tag]?.[0] ?? place.id;
+}
+
+// Leading words that say how the scene relates to the place, not which place it is.
+const LEADING = /^(?:(?:aboard|on board|onboard|near|outside|inside|off the coast of|off|above|over|beneath|below|at|in|on|the|a bordo del|a bordo de|cerca de|junto a|frente a|fuera de|dentro de|sobre|en|el|la|los|las|del|de)\s+)+/;
+
+/** Ids of every place `place` lies in, following `within` up. */
+function containers(gazetteer: Gazetteer, place: Place): Set<string> {
+  const out = new Set<string>();
+  const queue = [...(place.within ?? [])];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (out.has(id)) continue;
+    out.add(id);
+    queue.push(...(gazetteer.places.find((p) => p.id === id)?.within ?? []));
+  }
+  return out;
+}
+
+/** True when `rest` is nothing but filler and names of the places in `outer`. */
+function onlyContext(rest: readonly string[], outer: readonly Alias[]): boolean {
+  let left = rest;
+  while (left.length) {
+    left = `${left.join(" ")} `.replace(LEADING, "").split(" ").filter(Boolean);
+    if (!left.length) return true;
+    const named = outer.filter((a) => a.words.length <= left.length && findRun(left.slice(0, a.words.length), a.words, true) === 0);
+    if (!named.length) return false;
+    left = left.slice(Math.max(...named.map((a) => a.words.length)));
+  }
+  return true;
+}
+
+function scoreAlias(gazetteer: Gazetteer, location: readonly string[], alias: Alias): number {
+  const exact = findRun(location, alias.words, false);
+  const at = exact >= 0 ? exact : findRun(location, alias.words, true);
+  if (at < 0) return 0;
+  const whole = location.length === alias.words.length;
+  if (!whole) {
+    const within = containers(gazetteer, alias.place);
+    const outer = gazetteer.aliases.filter((a) => within.has(a.place.id));
+    if (!onlyContext(location.slice(0, at), outer) || !onlyContext(location.slice(at + alias.words.length), outer)) return 0;
+  }
+  if (exact >= 0) return whole ? 1 : 0.9;
+  return whole ? 0.8 : 0.75;
+}
+
+/** Resolves free text to the most specific place it names; see the top of this file. */
+export function resolveLocation(gazetteer: Gazetteer, text: string | undefined): LocationMatch {
+  const normalized = normalizeText(text ?? "");
+  if (!normalized) return { kind: "unresolved", reason: "empty" };
+  const location = words(normalized.replace(LEADING, ""));
+  let best: { alias: Alias; score: number; rank: number } | null = null;
+  for (const alias of gazetteer.aliases) {
+    const score = scoreAlias(gazetteer, location, alias);
+    if (score < LOCATION_THRESHOLD) continue;
+    // Equal scores go to the more specific place, then to the longer alias.
+    const rank = score * 100 - PLACE_KINDS.indexOf(alias.place.kind) + alias.words.length * 0.1;
+    if (!best || rank > best.rank) best = { alias, score, rank };
+  }
+  if (!best) return { kind: "unresolved", reason: "unknown" };
+  return { kind: "resolved", place: best.alias.place, alias: best.alias.text, score: best.score };
+}
+
+/** The scene's place, from its own location or, failing that, a translated one. */
+export function resolveSceneLocation(gazetteer: Gazetteer, scene: Pick<Scene, "location" | "translations">): LocationMatch {
+  const own = resolveLocation(gazetteer, scene.location);
+  if (own.kind === "resolved") return own;
+  for (const translation of Object.values(scene.translations ?? {})) {
+    const other = resolveLocation(gazetteer, translation.location);
+    if (other.kind === "resolved") return other;
+  }
+  return own;
+}
+
+/** An info note for every scene whose (non-empty) location isn't in the gazetteer. */
+export function locationDiagnostics(gazetteer: Gazetteer, scenes: readonly Pick<Scene, "location" | "translations">[]): SceneDiagnostic[] {
+  return scenes.flatMap((scene, i) => {
+    const match = resolveSceneLocation(gazetteer, scene);
+    if (match.kind === "resolved" || match.reason === "empty") return [];
+    return [{ severity: "info" as const, scene: i, path: "location", code: "unplacedLocation" as const, values: { location: scene.location } }];
+  });
+}
+
+export type Vec3 = [number, number, number];
+
+/** Point on the unit sphere; latitude 0, longitude 0 faces +z and north is +y. */
+export function latLonToUnit(lat: number, lon: number): Vec3 {
+  const phi = (lat * Math.PI) / 180;
+  const lambda = (lon * Math.PI) / 180;
+  return [Math.cos(phi) * Math.sin(lambda), Math.sin(phi), Math.cos(phi) * Math.cos(lambda)];
+}
+
+/** `segments + 1` points along the shorter great circle from `a` to `b` (unit vectors). */
+export function greatCircle(a: Vec3, b: Vec3, segments = 32): Vec3[] {
+  const dot = Math.max(-1, Math.min(1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2]));
+  const angle = Math.acos(dot);
+  const s = Math.sin(angle);
+  // Same point, or exactly opposite (no single shorter circle): nothing to draw.
+  if (s < 1e-6) return [a, b];
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const t = i / segments;
+    const wa = Math.sin((1 - t) * angle) / s;
+    const wb = Math.sin(t * angle) / s;
+    return [a[0] * wa + b[0] * wb, a[1] * wa + b[1] * wb, a[2] * wa + b[2] * wb] as Vec3;
+  });
+}
@@ -0,0 +1,165 @@
+import type { LocalizedField, Locale, Scene, SceneTranslation } from "@/lib/scene";
+
+/*
+ * Locale plumbing shared by the UI catalogs and localized scene text: fallback chains (es-MX → es → es-ES
+ * → en-US), writing direction, and a small ICU MessageFormat subset for interpolation and plurals:
+ *   "{name}", "{count, number}", "{count, plural, =0 {none} one {# scene} other {# scenes}}",
+ *   "{kind, select, video {…} other {…}}". "#" inside a plural branch is the localized count.
+ */
+
+export const DEFAULT_LOCALE: Locale = "en-US";
+
+/** The canonical form of a BCP 47 tag ("es-mx" → "es-MX"), or null if it isn't one. */
+export function canonicalLocale(tag: unknown): Locale | null {
+  if (typeof tag !== "string" || !tag.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(tag.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function languageOf(locale: Locale): string {
+  return locale.split("-")[0]!.toLowerCase();
+}
+
+/**
+ * The tags from `available` to try for `locale`, best first: the tag itself, then ever shorter prefixes
+ * of it, then any other variant of the same language, then DEFAULT_LOCALE.
+ */
+export function fallbackChain(locale: Locale, available: readonly Locale[]): Locale[] {
+  const chain: Locale[] = [];
+  const add = (tag: Locale) => {
+    if (available.includes(tag) && !chain.includes(tag)) chain.push(tag);
+  };
+  const parts = locale.split("-");
+  for (let n = parts.length; n > 0; n--) add(parts.slice(0, n).join("-"));
+  for (const tag of available) if (languageOf(tag) === languageOf(locale)) add(tag);
+  add(DEFAULT_LOCALE);
+  return chain;
+}
+
+const RTL_LANGUAGES = new Set(["ar", "arc", "ckb", "dv", "fa", "ha", "he", "khw", "ks", "ps", "sd", "ur", "yi"]);
+
+export function textDirection(locale: Locale): "ltr" | "rtl" {
+  try {
+    const info = (new Intl.Locale(locale) as Intl.Locale & { textInfo?: { direction?: string }; getTextInfo?(): { direction?: string } });
+    const direction = info.getTextInfo?.().direction ?? info.textInfo?.direction;
+    if (direction === "rtl" || direction === "ltr") return direction;
+  } catch {}
+  return RTL_LANGUAGES.has(languageOf(locale)) ? "rtl" : "ltr";
+}
+
+/** The language's own name for itself, e.g. "Español (España)"; the tag when the browser can't say. */
+export function localeName(locale: Locale): string {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: "language" }).of(locale);
+    if (name) return name.charAt(0).toLocaleUpperCase(locale) + name.slice(1);
+  } catch {}
+  return locale;
+}
+
+export type MessageValues = Record<string, string | number>;
+
+/** Formats an ICU-style `message` (see above). Unknown arguments are left as "{name}"; malformed input degrades to text. */
+export function formatMessage(message: string, values: MessageValues = {}, locale: Locale = DEFAULT_LOCALE): string {
+  let i = 0;
+  const number = (n: number) => new Intl.NumberFormat(locale).format(n);
+
+  const readUntil = (stop: RegExp) => {
+    const start = i;
+    while (i < message.length && !stop.test(message[i]!)) i++;
+    return message.slice(start, i).trim();
+  };
+
+  function text(pound: number | null, nested: boolean): string {
+    let out = "";
+    while (i < message.length) {
+      const c = message[i]!;
+      if (c === "}" && nested) break;
+      i++;
+      if (c === "{") out += argument(pound);
+      else if (c === "#" && pound !== null) out += number(pound);
+      else out += c;
+    }
+    return out;
+  }
+
+  function argument(pound: number | null): string {
+    const name = readUntil(/[,}]/);
+    const value = values[name];
+    if (message[i] !== ",") {
+      i++;
+      return value === undefined ? `{${name}}` : typeof value === "number" ? number(value) : value;
+    }
+    i++;
+    const type = readUntil(/[,}]/);
+    if (message[i] !== ",") {
+      i++;
+      return value === undefined ? `{${name}}` : type === "number" ? number(Number(value)) : String(value);
+    }
+    i++;
+    const count = Number(value);
+    const branches: Record<string, string> = {};
+    while (i < message.length) {
+      readUntil(/\S/);
+      if (message[i] === "}") {
+        i++;
+        break;
+      }
+      const selector = readUntil(/[\s{]/);
+      readUntil(/\S/);
+      if (message[i] !== "{") break;
+      i++;
+      branches[selector] = text(type === "plural" ? count : pound, true);
+      i++;
+    }
+    if (type === "plural") {
+      return branches[`=${count}`] ?? branches[new Intl.PluralRules(locale).select(count)] ?? branches.other ?? "";
+    }
+    return branches[String(value)] ?? branches.other ?? "";
+  }
+
+  return text(null, false);
+}
+
+/** Deep-merges catalogs; later ones win. */
+export function mergeCatalogs<T extends object>(base: T, ...overrides: readonly unknown[]): T {
+  const merge = (a: unknown, b: unknown): unknown => {
+    if (typeof a !== "object" || a === null || typeof b !== "object" || b === null || Array.isArray(a) || Array.isArray(b)) return b === undefined ? a : b;
+    const out: Record<string, unknown> = { ...(a as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(b)) out[key] = merge(out[key], value);
+    return out;
+  };
+  return overrides.reduce<unknown>(merge, base) as T;
+}
+
+export const LOCALIZED_FIELDS: readonly LocalizedField[] = ["title", "timePeriod", "location", "oneLine", "narration", "visualKeywords", "questions", "anachronisms"];
+
+/** Which language's text `scene` shows in `locale`: `base` (the deck's own language) or one of its translations. */
+export function sceneTextLocale(scene: Pick<Scene, "translations">, locale: Locale, base: Locale): Locale {
+  return fallbackChain(locale, [base, ...Object.keys(scene.translations ?? {})])[0] ?? base;
+}
+
+/** `scene` with its text in `locale`, where it has a translation for it. Staging fields are never translated. */
+export function localizeScene(scene: Scene, locale: Locale, base: Locale): Scene {
+  const source = sceneTextLocale(scene, locale, base);
+  const translation = source === base ? undefined : scene.translations?.[source];
+  if (!translation) return scene;
+  const out: Scene = { ...scene };
+  for (const key of LOCALIZED_FIELDS) {
+    const value = translation[key];
+    if (value?.length) Object.assign(out, { [key]: value });
+  }
+  return out;
+}
+
+/** `scene` with `to` as its own language: the text shown for `to` moves into the fields, the old text into translations[from]. */
+export function rebaseScene(scene: Scene, from: Locale, to: Locale): Scene {
+  const source = sceneTextLocale(scene, to, from);
+  if (source === from) return scene;
+  const { [source]: _, ...others } = scene.translations ?? {};
+  const original: SceneTranslation = {};
+  for (const key of LOCALIZED_FIELDS) Object.assign(original, { [key]: scene[key] });
+  return { ...localizeScene(scene, to, from), translations: { ...others, [from]: original } };
+}
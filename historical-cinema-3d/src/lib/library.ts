@@ -0,0 +1,241 @@
+import { parseChronicle, type Chronicle } from "@/lib/chronicle";
+import { hashString } from "@/lib/random";
+import { normalizeText } from "@/lib/text";
+
+/*
+ * The local library: every chronicle generated or opened on this device, with where playback stopped,
+ * favorites and tags. Entries live in IndexedDB; where that is unavailable (some private modes, old
+ * embedded browsers) in localStorage, and failing that in memory for the session.
+ */
+
+export interface LibraryEntry {
+  id: string;
+  chronicle: Chronicle;
+  /** The scene playback was on last, to continue from. */
+  lastScene: number;
+  favorite: boolean;
+  tags: string[];
+  /** ISO 8601. */
+  createdAt: string;
+  /** ISO 8601; last saved or watched. */
+  updatedAt: string;
+}
+
+export type LibraryStoreKind = "indexeddb" | "localstorage" | "memory";
+
+export interface LibraryStore {
+  kind: LibraryStoreKind;
+  list(): Promise<LibraryEntry[]>;
+  put(entry: LibraryEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type LibraryErrorKind = "quota" | "unavailable";
+
+export class LibraryError extends Error {
+  constructor(
+    readonly kind: LibraryErrorKind,
+    message: string
+  ) {
+    super(message);
+    this.name = "LibraryError";
+  }
+}
+
+export const LIBRARY_FORMAT = "historical-cinema/library";
+const DB_NAME = "historical-cinema";
+const DB_STORE = "library";
+const STORAGE_KEY = "historical-cinema:library";
+
+function isQuotaError(e: unknown): boolean {
+  const name = (e as { name?: string } | null)?.name;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+async function guarded(write: () => Promise<void> | void): Promise<void> {
+  try {
+    await write();
+  } catch (e) {
+    if (isQuotaError(e)) throw new LibraryError("quota", "Storage is full.");
+    throw e;
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted.", "AbortError"));
+  });
+}
+
+export async function indexedDBStore(): Promise<LibraryStore> {
+  if (typeof indexedDB === "undefined") throw new LibraryError("unavailable", "IndexedDB is not available.");
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(DB_STORE, { keyPath: "id" });
+  const db = await request(open);
+  const write = (change: (store: IDBObjectStore) => void) =>
+    guarded(() => {
+      const tx = db.transaction(DB_STORE, "readwrite");
+      change(tx.objectStore(DB_STORE));
+      return committed(tx);
+    });
+  return {
+    kind: "indexeddb",
+    list: () => request(db.transaction(DB_STORE, "readonly").objectStore(DB_STORE).getAll() as IDBRequest<LibraryEntry[]>),
+    put: (entry) => write((store) => store.put(entry)),
+    remove: (id) => write((store) => store.delete(id)),
+    clear: () => write((store) => store.clear()),
+  };
+}
+
+/** All entries under one key; fine for the handful of decks localStorage can hold anyway. */
+export function localStorageStore(storage: Storage = localStorage): LibraryStore {
+  const read = (): LibraryEntry[] => {
+    try {
+      const value = JSON.parse(storage.getItem(STORAGE_KEY) ?? "[]");
+      return Array.isArray(value) ? value : [];
+    } catch {
+      return [];
+    }
+  };
+  const write = (entries: LibraryEntry[]) => guarded(() => storage.setItem(STORAGE_KEY, JSON.stringify(entries)));
+  // Probe, so private modes that throw on every write are caught up front rather than on the first save.
+  storage.setItem(`${STORAGE_KEY}:probe`, "1");
+  storage.removeItem(`${STORAGE_KEY}:probe`);
+  return {
+    kind: "localstorage",
+    list: async () => read(),
+    put: (entry) => write([...read().filter((e) => e.id !== entry.id), entry]),
+    remove: (id) => write(read().filter((e) => e.id !== id)),
+    clear: () => guarded(() => storage.removeItem(STORAGE_KEY)),
+  };
+}
+
+export function memoryStore(): LibraryStore {
+  const entries = new Map<string, LibraryEntry>();
+  return {
+    kind: "memory",
+    list: async () => [...entries.values()],
+    put: async (entry) => void entries.set(entry.id, entry),
+    remove: async (id) => void entries.delete(id),
+    clear: async () => entries.clear(),
+  };
+}
+
+/** The best store this browser offers. */
+export async function openLibraryStore(): Promise<LibraryStore> {
+  try {
+    return await indexedDBStore();
+  } catch (e) {
+    console.warn("Library: IndexedDB unavailable, falling back to localStorage.", e);
+  }
+  try {
+    return localStorageStore();
+  } catch (e) {
+    console.warn("Library: localStorage unavailable, keeping the library in memory.", e);
+  }
+  return memoryStore();
+}
+
+/** Stored entries, newest first. Chronicles go through parseChronicle so older formats migrate; unreadable entries are skipped. */
+export async function loadLibrary(store: LibraryStore): Promise<LibraryEntry[]> {
+  const entries: LibraryEntry[] = [];
+  for (const entry of await store.list()) {
+    try {
+      const { chronicle } = parseChronicle(entry.chronicle);
+      entries.push({ ...entry, chronicle, lastScene: Math.max(0, Math.min(entry.lastScene | 0, chronicle.scenes.length - 1)), favorite: !!entry.favorite, tags: Array.isArray(entry.tags) ? entry.tags : [] });
+    } catch (e) {
+      console.warn(`Library: skipping unreadable entry ${entry?.id}.`, e);
+    }
+  }
+  return sortLibrary(entries);
+}
+
+export function sortLibrary(entries: readonly LibraryEntry[]): LibraryEntry[] {
+  return [...entries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Identifies a deck by its content, so regenerating or reopening the same chronicle doesn't add a duplicate. */
+export function chronicleFingerprint(chronicle: Chronicle): string {
+  return hashString(JSON.stringify([chronicle.eventName, chronicle.locale, chronicle.scenes])).toString(36);
+}
+
+/**
+ * Writes `entry`; when storage is full, drops the least recently used non-favorite entries until it fits.
+ * Resolves to the ids it dropped. Throws a "quota" LibraryError when nothing more can go.
+ */
+export async function putWithEviction(store: LibraryStore, entry: LibraryEntry, entries: readonly LibraryEntry[]): Promise<string[]> {
+  const candidates = sortLibrary(entries)
+    .reverse()
+    .filter((e) => !e.favorite && e.id !== entry.id);
+  const evicted: string[] = [];
+  for (;;) {
+    try {
+      await store.put(entry);
+      return evicted;
+    } catch (e) {
+      const victim = candidates.shift();
+      if (!(e instanceof LibraryError) || e.kind !== "quota" || !victim) throw e;
+      await store.remove(victim.id);
+      evicted.push(victim.id);
+    }
+  }
+}
+
+export interface LibraryFilter {
+  query?: string;
+  favoritesOnly?: boolean;
+  tag?: string | null;
+}
+
+/** Entries whose event, description, scene titles or tags contain every word of the query. */
+export function filterLibrary(entries: readonly LibraryEntry[], { query = "", favoritesOnly = false, tag = null }: LibraryFilter): LibraryEntry[] {
+  const words = normalizeText(query).split(" ").filter(Boolean);
+  return entries.filter((entry) => {
+    if (favoritesOnly && !entry.favorite) return false;
+    if (tag && !entry.tags.includes(tag)) return false;
+    if (!words.length) return true;
+    const { chronicle } = entry;
+    const hay = normalizeText([chronicle.eventName, chronicle.meta.description ?? "", ...chronicle.scenes.map((s) => s.title), ...entry.tags].join(" "));
+    return words.every((w) => hay.includes(w));
+  });
+}
+
+export function libraryTags(entries: readonly LibraryEntry[]): string[] {
+  return [...new Set(entries.flatMap((e) => e.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+/** Tags as typed, trimmed, de-duplicated case-insensitively. */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim().replace(/\s+/g, " "))
+    .filter((tag) => tag && !seen.has(tag.toLowerCase()) && seen.add(tag.toLowerCase()));
+}
+
+/** The most recently watched chronicle that was left part way through. */
+export function resumeCandidate(entries: readonly LibraryEntry[]): LibraryEntry | undefined {
+  return sortLibrary(entries).find((e) => e.lastScene > 0 && e.lastScene < e.chronicle.scenes.length - 1);
+}
+
+export function exportLibrary(entries: readonly LibraryEntry[]): string {
+  return JSON.stringify({ format: LIBRARY_FORMAT, version: 1, exportedAt: new Date().toISOString(), entries }, null, 2) + "\n";
+}
+
+/** Bytes used and available to this origin, where the browser reports it. */
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return estimate?.usage !== undefined && estimate.quota !== undefined ? { usage: estimate.usage, quota: estimate.quota } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+import type { Scene } from "@/lib/scene";
+import { normalizeText, singular } from "@/lib/text";
+
+export type LightingPreset = "day" | "dawn" | "dusk" | "overcast" | "night" | "torchlight" | "interior" | "vacuum";
+
+export const LIGHTING_PRESETS: readonly LightingPreset[] = ["day", "dawn", "dusk", "overcast", "night", "torchlight", "interior", "vacuum"];
+
+/** drei <Environment> presets used for image-based light, or "none". */
+export type SkyLight = "none" | "dawn" | "sunset" | "night" | "park" | "city" | "warehouse" | "forest";
+
+export interface LightColor {
+  color: string;
+  intensity: number;
+}
+
+export interface LightingRig {
+  preset: LightingPreset;
+  /** Direction of the key light, scaled to a distance; also feeds the physical sky. */
+  sunPosition: [number, number, number];
+  /** Physical sky dome (drei <Sky>) vs a flat background color. */
+  skyDome: boolean;
+  background: string;
+  environment: SkyLight;
+  environmentIntensity: number;
+  ambient: LightColor;
+  sun: LightColor;
+  fill: LightColor;
+  shadows: boolean;
+  /** 0 = steady, 1 = strong fire flicker on the practical lights. */
+  flicker: number;
+  /** Number of sweeping searchlight beams. */
+  searchlights: number;
+}
+
+/** What a scene may put in its `lighting` field: a preset name or a partial rig. */
+export type LightingOverride = LightingPreset | (Partial<LightingRig> & { preset?: LightingPreset });
+
+const RIGS: Record<LightingPreset, Omit<LightingRig, "preset" | "searchlights">> = {
+  day: {
+    sunPosition: [8, 14, 6],
+    skyDome: true,
+    background: "#87a9c9",
+    environment: "park",
+    environmentIntensity: 0.6,
+    ambient: { color: "#dfe8f5", intensity: 0.35 },
+    sun: { color: "#fff4e0", intensity: 1.6 },
+    fill: { color: "#9ab8ff", intensity: 0.3 },
+    shadows: true,
+    flicker: 0,
+  },
+  dawn: {
+    sunPosition: [-14, 2.5, -8],
+    skyDome: true,
+    background: "#d9a27c",
+    environment: "dawn",
+    environmentIntensity: 0.5,
+    ambient: { color: "#f2c6a8", intensity: 0.25 },
+    sun: { color: "#ffb37a", intensity: 1.2 },
+    fill: { color: "#7d8cc4", intensity: 0.35 },
+    shadows: true,
+    flicker: 0,
+  },
+  dusk: {
+    sunPosition: [14, 2, -10],
+    skyDome: true,
+    background: "#b8674a",
+    environment: "sunset",
+    environmentIntensity: 0.55,
+    ambient: { color: "#e8a37e", intensity: 0.25 },
+    sun: { color: "#ff9152", intensity: 1.1 },
+    fill: { color: "#5f6fb0", intensity: 0.3 },
+    shadows: true,
+    flicker: 0,
+  },
+  overcast: {
+    sunPosition: [4, 16, 2],
+    skyDome: false,
+    background: "#6b7280",
+    environment: "city",
+    environmentIntensity: 0.45,
+    ambient: { color: "#c7ccd4", intensity: 0.6 },
+    sun: { color: "#e5e7eb", intensity: 0.5 },
+    fill: { color: "#9ca3af", intensity: 0.3 },
+    shadows: false,
+    flicker: 0,
+  },
+  night: {
+    sunPosition: [-6, 10, -8],
+    skyDome: false,
+    background: "#05070d",
+    environment: "night",
+    environmentIntensity: 0.15,
+    ambient: { color: "#3b4a6b", intensity: 0.12 },
+    sun: { color: "#9fb4ff", intensity: 0.35 },
+    fill: { color: "#1e293b", intensity: 0.1 },
+    shadows: true,
+    flicker: 0,
+  },
+  torchlight: {
+    sunPosition: [0, 4, 2],
+    skyDome: false,
+    background: "#0a0604",
+    environment: "none",
+    environmentIntensity: 0,
+    ambient: { color: "#5a3a1e", intensity: 0.08 },
+    sun: { color: "#ff9a3c", intensity: 0 },
+    fill: { color: "#ffb15c", intensity: 1.4 },
+    shadows: true,
+    flicker: 1,
+  },
+  interior: {
+    sunPosition: [0, 4, 1],
+    skyDome: false,
+    background: "#111111",
+    environment: "warehouse",
+    environmentIntensity: 0.35,
+    ambient: { color: "#f5e6cc", intensity: 0.25 },
+    sun: { color: "#fff1d6", intensity: 0.9 },
+    fill: { color: "#cbd5e1", intensity: 0.3 },
+    shadows: true,
+    flicker: 0,
+  },
+  vacuum: {
+    sunPosition: [12, 6, 4],
+    skyDome: false,
+    background: "#000000",
+    environment: "none",
+    environmentIntensity: 0,
+    ambient: { color: "#000000", intensity: 0 },
+    sun: { color: "#ffffff", intensity: 3 },
+    fill: { color: "#000000", intensity: 0 },
+    shadows: true,
+    flicker: 0,
+  },
+};
+
+const CUES: { preset: LightingPreset; words: string[] }[] = [
+  { preset: "torchlight", words: ["torch", "torchlight", "torchlit", "candle", "candlelight", "lantern", "firelight", "brazier", "campfire"] },
+  { preset: "night", words: ["night", "midnight", "blackout", "moonlight", "searchlight", "starlight", "nocturne"] },
+  { preset: "dawn", words: ["dawn", "sunrise", "daybreak", "morning"] },
+  { preset: "dusk", words: ["dusk", "sunset", "twilight", "evening", "gloaming"] },
+  { preset: "overcast", words: ["overcast", "storm", "rain", "fog", "mist", "smoke", "smokescreen", "gray", "grey"] },
+];
+
+function sceneWords(scene: Pick<Scene, "timePeriod" | "visualKeywords" | "title">): Set<string> {
+  const text = normalizeText([scene.title, scene.timePeriod, ...(scene.visualKeywords ?? [])].join(" "));
+  return new Set(text.split(" ").map(singular));
+}
+
+/** Picks a lighting setup from the scene's environment, time period, title and keywords. */
+export function inferLighting(scene: Pick<Scene, "environment" | "timePeriod" | "visualKeywords" | "title">): LightingRig {
+  const words = sceneWords(scene);
+  const searchlights = words.has("searchlight") ? 3 : 0;
+  let preset: LightingPreset;
+  if (scene.environment === "space") preset = "vacuum";
+  else preset = CUES.find((c) => c.words.some((w) => words.has(w)))?.preset ?? (scene.environment === "interior" ? "interior" : "day");
+  return { preset, ...RIGS[preset], searchlights };
+}
+
+/** The scene's lighting: its explicit `lighting` override layered over the inferred rig. */
+export function resolveLighting(scene: Pick<Scene, "environment" | "timePeriod" | "visualKeywords" | "title" | "lighting">): LightingRig {
+  const inferred = inferLighting(scene);
+  const override = scene.lighting;
+  if (!override) return inferred;
+  if (typeof override === "string") return { ...inferred, preset: override, ...RIGS[override] };
+  const base = override.preset ? { ...inferred, preset: override.preset, ...RIGS[override.preset] } : inferred;
+  return { ...base, ...override, preset: base.preset };
+}
@@ -0,0 +1,40 @@
+import { mulberry32 } from "@/lib/random";
+
+export type Noise2D = (x: number, y: number) => number;
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+/** Seeded 2D value noise in [-1, 1]. */
+export function createNoise2D(seed: number): Noise2D {
+  const rand = mulberry32(seed);
+  const size = 256;
+  const values = Float32Array.from({ length: size }, () => rand() * 2 - 1);
+  const perm = Uint8Array.from({ length: size }, (_, i) => i);
+  for (let i = size - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [perm[i], perm[j]] = [perm[j]!, perm[i]!];
+  }
+  const lattice = (x: number, y: number) => values[perm[(perm[x & 255]! + y) & 255]!]!;
+  return (x, y) => {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const tx = smooth(x - xi);
+    const ty = smooth(y - yi);
+    const a = lattice(xi, yi) + (lattice(xi + 1, yi) - lattice(xi, yi)) * tx;
+    const b = lattice(xi, yi + 1) + (lattice(xi + 1, yi + 1) - lattice(xi, yi + 1)) * tx;
+    return a + (b - a) * ty;
+  };
+}
+
+/** Fractal sum of `octaves` noise layers, roughly in [-1, 1]. */
+export function fbm(noise: Noise2D, x: number, y: number, octaves = 4): number {
+  let sum = 0;
+  let amp = 0.5;
+  let freq = 1;
+  for (let i = 0; i < octaves; i++) {
+    sum += amp * noise(x * freq, y * freq);
+    freq *= 2;
+    amp *= 0.5;
+  }
+  return sum / (1 - 0.5 ** octaves);
+}
@@ -0,0 +1,188 @@
+import type { Locale } from "@/lib/scene";
+import type { Chronicle } from "@/lib/chronicle";
+import type { DiagnosticCode, SceneDiagnostic } from "@/lib/validate";
+import { canonicalLocale, fallbackChain, type MessageValues } from "@/lib/i18n";
+import { findRun, normalizeText, sameWord, words } from "@/lib/text";
+
+/*
+ * Content packs: what a shipped chronicle is about, so an event typed in any language finds it. A pack
+ * lists aliases per locale (the first one is the display name there), topic tags and an era. Search is
+ * case-, diacritic- and plural-insensitive, tolerates small typos and completes partial input.
+ */
+
+export const ERAS = ["prehistory", "ancient", "medieval", "early-modern", "modern", "contemporary"] as const;
+export type Era = (typeof ERAS)[number];
+
+export interface ContentPack {
+  id: string;
+  /** Names the event goes by, per locale; the first of each list is its display name in that locale. */
+  aliases: Record<Locale, string[]>;
+  /** Topics ("space", "war"…); they match too, but weaker than aliases. */
+  tags: string[];
+  era?: Era;
+  /** First and last year, negative for BCE. */
+  years?: [number, number];
+}
+
+const strings = (value: unknown): string[] => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && !!v.trim()).map((v) => v.trim()) : []);
+
+/** Reads a chronicle's `pack`; malformed parts are dropped with a warning. Null when no aliases survive. */
+export function parsePack(raw: unknown, fallbackId: string, diagnostics: SceneDiagnostic[]): ContentPack | null {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return null;
+  const doc = raw as Record<string, unknown>;
+  const warn = (path: string, code: DiagnosticCode, values?: MessageValues) => diagnostics.push({ severity: "warning", scene: null, path: `pack.${path}`, code, ...(values && { values }) });
+
+  const aliases: Record<Locale, string[]> = {};
+  const rawAliases = typeof doc.aliases === "object" && doc.aliases !== null ? (doc.aliases as Record<string, unknown>) : {};
+  for (const [tag, names] of Object.entries(rawAliases)) {
+    const locale = canonicalLocale(tag);
+    if (!locale) warn(`aliases.${tag}`, "packAliasTag", { tag });
+    else if (strings(names).length) aliases[locale] = [...(aliases[locale] ?? []), ...strings(names)];
+  }
+  if (!Object.keys(aliases).length) return null;
+
+  const pack: ContentPack = { id: typeof doc.id === "string" && doc.id.trim() ? doc.id.trim() : fallbackId, aliases, tags: strings(doc.tags) };
+  if ((ERAS as readonly unknown[]).includes(doc.era)) pack.era = doc.era as Era;
+  else if (doc.era !== undefined) warn("era", "packEra", { value: String(doc.era), eras: ERAS.join(", ") });
+  if (Array.isArray(doc.years) && doc.years.length === 2 && doc.years.every(Number.isInteger)) pack.years = [Math.min(...doc.years), Math.max(...doc.years)] as [number, number];
+  else if (doc.years !== undefined) warn("years", "packYears");
+  return pack;
+}
+
+interface Term {
+  locale: Locale | null;
+  text: string;
+  words: string[];
+  weight: number;
+}
+
+interface PackEntry {
+  chronicle: Chronicle;
+  pack: ContentPack;
+  terms: Term[];
+}
+
+export interface PackIndex {
+  entries: PackEntry[];
+  /** Played when nothing matches: the first template chronicle. */
+  fallback?: Chronicle;
+}
+
+export interface PackResult {
+  chronicle: Chronicle;
+  pack: ContentPack;
+  /** The pack's display name in the requested locale. */
+  label: string;
+  /** The alias or tag that matched, as written in the pack. */
+  matched: string;
+  /** 1 = exact alias, lower for partial and fuzzy matches. */
+  score: number;
+}
+
+export interface PackSearchOptions {
+  locale: Locale;
+  limit?: number;
+  era?: Era;
+  tag?: string;
+  /** Read the query as still being typed, so prefixes and parts of a name count. Defaults to true. */
+  partial?: boolean;
+}
+
+/**
+ * Scores at or above this pick a pack for playback; below it the template plays instead. Above
+ * TAG_WEIGHT, so only a whole alias (exact, inside the event name, or with typos) can reach it.
+ */
+export const MATCH_THRESHOLD = 0.7;
+const MIN_SCORE = 0.3;
+const TAG_WEIGHT = 0.5;
+
+function scoreTerm(query: string[], queryText: string, term: Term, partial: boolean): number {
+  if (!query.length || !term.words.length) return 0;
+  const termText = term.words.join(" ");
+  if (queryText === termText) return 1;
+  // Autocomplete: "segunda gue" → "segunda guerra mundial".
+  if (partial && termText.startsWith(queryText)) return 0.9 * (0.5 + (0.5 * queryText.length) / termText.length);
+  if (findRun(query, term.words, false) >= 0) return 0.85;
+  if (partial && findRun(term.words, query, false) >= 0) return 0.75;
+  // Token by token with typos; while typing, the last query word may still be half typed.
+  let matched = 0;
+  query.forEach((q, i) => {
+    const last = partial && i === query.length - 1 && q.length >= 3;
+    if (term.words.some((w) => sameWord(q, w) || (last && w.startsWith(q)))) matched++;
+  });
+  if (!matched) return 0;
+  return 0.7 * (matched / query.length) * (0.75 + (0.25 * Math.min(matched, term.words.length)) / term.words.length);
+}
+
+export function buildPackIndex(chronicles: readonly Chronicle[]): PackIndex {
+  const entries: PackEntry[] = [];
+  for (const chronicle of chronicles) {
+    const pack = chronicle.pack;
+    if (!pack) continue;
+    const terms: Term[] = [
+      ...Object.entries(pack.aliases).flatMap(([locale, names]) => names.map((text) => ({ locale, text, words: words(text), weight: 1 }))),
+      ...pack.tags.map((text) => ({ locale: null, text, words: words(text), weight: TAG_WEIGHT })),
+    ];
+    entries.push({ chronicle, pack, terms });
+  }
+  return { entries, fallback: chronicles.find((c) => c.template) };
+}
+
+/** The pack's display name in `locale`, following its fallback chain. */
+export function packLabel(pack: ContentPack, locale: Locale): string {
+  const tag = fallbackChain(locale, Object.keys(pack.aliases))[0] ?? Object.keys(pack.aliases)[0]!;
+  return pack.aliases[tag]?.[0] ?? pack.id;
+}
+
+function filtered(index: PackIndex, { era, tag }: PackSearchOptions): PackEntry[] {
+  const wanted = tag ? normalizeText(tag) : null;
+  return index.entries.filter((e) => (!era || e.pack.era === era) && (!wanted || e.pack.tags.some((t) => normalizeText(t) === wanted)));
+}
+
+/** Packs matching free text, best first. Ties go to aliases in the requested language. */
+export function searchPacks(index: PackIndex, query: string, options: PackSearchOptions): PackResult[] {
+  const q = words(query);
+  const qText = q.join(" ");
+  if (!q.length) return [];
+  const preferred = fallbackChain(options.locale, [...new Set(index.entries.flatMap((e) => Object.keys(e.pack.aliases)))]);
+  const results: (PackResult & { rank: number })[] = [];
+  for (const entry of filtered(index, options)) {
+    let best: { term: Term; score: number; rank: number } | null = null;
+    for (const term of entry.terms) {
+      const score = scoreTerm(q, qText, term, options.partial ?? true) * term.weight;
+      const rank = term.locale !== null && preferred.includes(term.locale) ? preferred.indexOf(term.locale) : preferred.length;
+      if (score > (best?.score ?? 0) || (best && score === best.score && rank < best.rank)) best = { term, score, rank };
+    }
+    if (best && best.score >= MIN_SCORE) results.push({ chronicle: entry.chronicle, pack: entry.pack, label: packLabel(entry.pack, options.locale), matched: best.term.text, score: best.score, rank: best.rank });
+  }
+  return results
+    .sort((a, b) => b.score - a.score || a.rank - b.rank)
+    .slice(0, options.limit ?? 8)
+    .map(({ rank: _, ...result }) => result);
+}
+
+/**
+ * The chronicle to play for `eventName`: the best pack scoring at least MATCH_THRESHOLD, else the template.
+ * The name is read as finished, so "World War I" doesn't pick World War II the way a suggestion would.
+ */
+export function matchChronicle(index: PackIndex, eventName: string, locale: Locale): Chronicle | undefined {
+  const [best] = searchPacks(index, eventName, { locale, limit: 1, partial: false });
+  return best && best.score >= MATCH_THRESHOLD ? best.chronicle : index.fallback;
+}
+
+/** Roughly where each era begins, to sort packs that give no years. */
+const ERA_START: Record<Era, number> = { prehistory: -10000, ancient: -3000, medieval: 500, "early-modern": 1500, modern: 1789, contemporary: 1945 };
+
+const startYear = (pack: ContentPack) => pack.years?.[0] ?? (pack.era ? ERA_START[pack.era] : Infinity);
+
+/** Every pack as a suggestion, oldest first (by years, then era). */
+export function suggestPacks(index: PackIndex, locale: Locale, options: Omit<PackSearchOptions, "locale"> = {}): PackResult[] {
+  return filtered(index, { locale, ...options })
+    .slice()
+    .sort((a, b) => startYear(a.pack) - startYear(b.pack))
+    .slice(0, options.limit ?? Infinity)
+    .map(({ chronicle, pack }) => {
+      const label = packLabel(pack, locale);
+      return { chronicle, pack, label, matched: label, score: 1 };
+    });
+}
@@ -0,0 +1,110 @@
+import { DEFAULT_PALETTE, normalizeHex } from "@/lib/validate";
+
+/*
+ * Scene palettes are four colors: [shadow, base, accent, highlight]. Everything here derives the
+ * scene's look from them: the color grade, material tints, fog, bloom and the UI card theme.
+ */
+
+export type RGB = [number, number, number];
+
+export function hexToRgb(hex: string): RGB {
+  const h = (normalizeHex(hex) ?? "#000000").slice(1);
+  return [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16) / 255) as RGB;
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return "#" + [r, g, b].map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, "0")).join("");
+}
+
+export function mixRgb(a: RGB, b: RGB, t: number): RGB {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+export function mixHex(a: string, b: string, t: number): string {
+  return rgbToHex(mixRgb(hexToRgb(a), hexToRgb(b), t));
+}
+
+export function luminance([r, g, b]: RGB): number {
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** Rescales a color so its luminance is `target`, keeping its hue; used for neutral-brightness tints. */
+function withLuminance(c: RGB, target: number): RGB {
+  const l = luminance(c);
+  if (l < 1e-4) return [target, target, target];
+  return c.map((v) => Math.min(1, (v * target) / l)) as RGB;
+}
+
+export interface PaletteTheme {
+  shadow: string;
+  base: string;
+  accent: string;
+  highlight: string;
+  fog: string;
+  /** Color that set and prop materials are nudged toward. */
+  materialTint: string;
+  bloom: { intensity: number; threshold: number };
+  ui: { background: string; border: string; accent: string; text: string; muted: string };
+}
+
+function paletteColor(palette: readonly string[] | undefined, i: number): string {
+  return normalizeHex(palette?.[i]) ?? DEFAULT_PALETTE[i]!;
+}
+
+export function derivePaletteTheme(palette: readonly string[] | undefined): PaletteTheme {
+  const [shadow, base, accent, highlight] = [0, 1, 2, 3].map((i) => paletteColor(palette, i)) as [string, string, string, string];
+  const hl = luminance(hexToRgb(highlight));
+  const readableAccent = luminance(hexToRgb(accent)) < 0.25 ? mixHex(accent, "#ffffff", 0.55) : accent;
+  return {
+    shadow,
+    base,
+    accent,
+    highlight,
+    fog: mixHex(shadow, base, 0.3),
+    materialTint: rgbToHex(withLuminance(hexToRgb(mixHex(base, accent, 0.4)), 0.6)),
+    // Bright highlights bloom readily; dark palettes get a lower threshold so their few lights still glow.
+    bloom: { intensity: 0.5 + 0.6 * hl, threshold: 0.15 + 0.25 * hl },
+    ui: {
+      background: rgbToHex(mixRgb(hexToRgb(shadow), [0, 0, 0], 0.35)) + "cc",
+      border: mixHex(accent, "#ffffff", 0.1) + "55",
+      accent: readableAccent,
+      text: luminance(hexToRgb(base)) < 0.5 ? mixHex(base, "#ffffff", 0.7) : base,
+      muted: mixHex(readableAccent, "#94a3b8", 0.5),
+    },
+  };
+}
+
+const smoothstep = (a: number, b: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - a) / (b - a)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * RGBA float data for a size³ 3D LUT (postprocessing's LookupTexture layout: r fastest, then g, then b).
+ * It split-tones: shadows lean toward the palette's shadow hue, highlights toward its highlight/accent hue,
+ * so bloom halos pick up the palette too.
+ */
+export function buildGradeLut(palette: readonly string[] | undefined, size = 16, strength = 0.35): Float32Array {
+  const theme = derivePaletteTheme(palette);
+  const shadowTint = withLuminance(hexToRgb(theme.shadow), 0.5);
+  const highlightTint = withLuminance(hexToRgb(mixHex(theme.highlight, theme.accent, 0.35)), 0.5);
+  const data = new Float32Array(size ** 3 * 4);
+  const s = 1 / (size - 1);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const input: RGB = [r * s, g * s, b * s];
+        const l = luminance(input);
+        const tint = mixRgb(shadowTint, highlightTint, smoothstep(0.15, 0.75, l));
+        // Overlay-style tint around mid-gray: 0.5 leaves a channel untouched.
+        const graded = input.map((c, i) => c + (tint[i]! - 0.5) * strength * (1 - Math.abs(2 * l - 1) * 0.5)) as RGB;
+        const i4 = (r + g * size + b * size * size) * 4;
+        data[i4] = Math.min(1, Math.max(0, graded[0]));
+        data[i4 + 1] = Math.min(1, Math.max(0, graded[1]));
+        data[i4 + 2] = Math.min(1, Math.max(0, graded[2]));
+        data[i4 + 3] = 1;
+      }
+    }
+  }
+  return data;
+}
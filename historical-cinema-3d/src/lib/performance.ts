@@ -0,0 +1,111 @@
+/*
+ * Render quality tiers and the governor that picks one from measured frame rate. The governor is a small
+ * state machine fed one frame delta at a time; it mutates its state in place so it can run every frame
+ * without allocating. Hysteresis comes from three places: a dead band between the downshift and upshift
+ * rates, a cooldown after every change (shader compiles make the first frames of a new tier slow), and an
+ * upshift hold that doubles each time a tier it stepped up to turns out to be too slow.
+ */
+
+export type QualityTier = 0 | 1 | 2;
+export type QualitySetting = QualityTier | "auto";
+
+export interface RenderBudget {
+  /** Device pixel ratio range handed to the canvas. */
+  dpr: [number, number];
+  shadows: boolean;
+  shadowMapSize: number;
+  /** Scales star field counts; 1 = full density. */
+  starDensity: number;
+  /** Segments per side of the water plane. */
+  waterSegments: number;
+  bloom: boolean;
+  smaa: boolean;
+  multisampling: number;
+}
+
+export const RENDER_BUDGETS: Record<QualityTier, RenderBudget> = {
+  0: { dpr: [0.75, 1], shadows: false, shadowMapSize: 512, starDensity: 0.2, waterSegments: 48, bloom: false, smaa: false, multisampling: 0 },
+  1: { dpr: [1, 1.5], shadows: true, shadowMapSize: 1024, starDensity: 0.5, waterSegments: 128, bloom: true, smaa: true, multisampling: 2 },
+  2: { dpr: [1, 2], shadows: true, shadowMapSize: 2048, starDensity: 1, waterSegments: 256, bloom: true, smaa: true, multisampling: 4 },
+};
+
+export const MAX_TIER: QualityTier = 2;
+
+export interface GovernorOptions {
+  /** Frame rate is averaged over windows this long. */
+  windowMs: number;
+  /** Below this the tier steps down. */
+  downFps: number;
+  /** At or above this for `upHoldMs` the tier steps up. */
+  upFps: number;
+  upHoldMs: number;
+  /** No decisions this long after a change. */
+  cooldownMs: number;
+  /** Longer frames are stalls (tab switches, GC, scene loads), not load, and are left out. */
+  maxFrameMs: number;
+}
+
+export const GOVERNOR_DEFAULTS: GovernorOptions = { windowMs: 1500, downFps: 40, upFps: 55, upHoldMs: 4000, cooldownMs: 2500, maxFrameMs: 250 };
+
+export interface GovernorState {
+  tier: QualityTier;
+  /** Average frame rate of the last complete window; null until one completes. */
+  fps: number | null;
+  frames: number;
+  elapsedMs: number;
+  clockMs: number;
+  lastChangeMs: number;
+  lastUpMs: number;
+  goodSinceMs: number | null;
+  /** Multiplies upHoldMs; doubles when an upshift is undone soon after. */
+  backoff: number;
+}
+
+export function createGovernor(tier: QualityTier): GovernorState {
+  return { tier, fps: null, frames: 0, elapsedMs: 0, clockMs: 0, lastChangeMs: -Infinity, lastUpMs: -Infinity, goodSinceMs: null, backoff: 1 };
+}
+
+/** Forces `tier` (a manual choice) and restarts measurement. */
+export function resetGovernor(state: GovernorState, tier: QualityTier) {
+  state.tier = tier;
+  state.frames = 0;
+  state.elapsedMs = 0;
+  state.goodSinceMs = null;
+  state.lastChangeMs = state.clockMs;
+}
+
+/**
+ * Feeds one frame. Returns true when a window completed (state.fps is fresh); with `adapt`, the tier may
+ * have changed too.
+ */
+export function governFrame(state: GovernorState, deltaMs: number, adapt = true, options: GovernorOptions = GOVERNOR_DEFAULTS): boolean {
+  if (!(deltaMs > 0) || deltaMs > options.maxFrameMs) return false;
+  state.clockMs += deltaMs;
+  state.frames++;
+  state.elapsedMs += deltaMs;
+  if (state.elapsedMs < options.windowMs) return false;
+
+  const now = state.clockMs;
+  state.fps = (state.frames * 1000) / state.elapsedMs;
+  state.frames = 0;
+  state.elapsedMs = 0;
+  if (!adapt || now - state.lastChangeMs < options.cooldownMs) return true;
+
+  if (state.fps < options.downFps) {
+    state.goodSinceMs = null;
+    if (state.tier === 0) return true;
+    if (now - state.lastUpMs < options.upHoldMs * state.backoff * 2) state.backoff = Math.min(state.backoff * 2, 16);
+    state.tier = (state.tier - 1) as QualityTier;
+    state.lastChangeMs = now;
+  } else if (state.fps >= options.upFps) {
+    state.goodSinceMs ??= now - options.windowMs;
+    if (state.tier < MAX_TIER && now - state.goodSinceMs >= options.upHoldMs * state.backoff) {
+      state.tier = (state.tier + 1) as QualityTier;
+      state.lastChangeMs = state.lastUpMs = now;
+      state.goodSinceMs = null;
+    }
+  } else {
+    state.goodSinceMs = null;
+  }
+  return true;
+}
@@ -0,0 +1,181 @@
+import { createRandom } from "@/lib/random";
+import { findRun, words } from "@/lib/text";
+
+/**
+ * Where a prop goes in the diorama:
+ * - center: the hero object, placed at the focal point (later ones fall back to the ring),
+ * - ring: scattered around the focal point without overlapping,
+ * - backdrop: a row behind the set,
+ * - overlay: set-wide dressing (haze, stars, waves) mounted at the origin.
+ */
+export type PropPlacement = "center" | "ring" | "backdrop" | "overlay";
+
+export interface PropDefinition {
+  id: string;
+  /** Words and phrases that summon this prop; plurals and small typos are handled by the matcher. */
+  terms: string[];
+  placement: PropPlacement;
+  /** Footprint radius used to keep props from overlapping. */
+  radius: number;
+}
+
+export interface PropMatch {
+  id: string;
+  keyword: string;
+  /** 1 = exact term, lower for partial and fuzzy matches. */
+  score: number;
+}
+
+export interface PlacedProp extends PropMatch {
+  position: [number, number, number];
+  rotation: number;
+  scale: number;
+}
+
+const definitions = new Map<string, PropDefinition>();
+
+export function registerPropDefinition(def: PropDefinition) {
+  definitions.set(def.id, def);
+}
+
+export function getPropDefinition(id: string): PropDefinition | undefined {
+  return definitions.get(id);
+}
+
+export const BUILTIN_PROPS: PropDefinition[] = [
+  { id: "pyramid", terms: ["pyramid", "ziggurat", "monument", "obelisk"], placement: "center", radius: 2 },
+  { id: "spacecraft", terms: ["command module", "spacecraft", "capsule", "space capsule", "rocket", "satellite"], placement: "center", radius: 1 },
+  { id: "lunar-module", terms: ["lunar module", "lunar lander", "lander", "lander legs", "lem", "lm"], placement: "center", radius: 1.2 },
+  { id: "barge", terms: ["barge", "boat", "ship", "vessel", "raft", "canoe", "royal barge"], placement: "center", radius: 1.8 },
+  { id: "landing-craft", terms: ["landing craft", "higgins boat", "lcvp", "landing ship", "amphibious craft"], placement: "center", radius: 1.6 },
+  { id: "table", terms: ["table", "desk", "conference table", "altar", "workbench"], placement: "center", radius: 1.2 },
+  { id: "moon", terms: ["moon", "crescent moon", "full moon", "planet", "earthrise"], placement: "backdrop", radius: 2 },
+  { id: "sun", terms: ["sun", "sunset", "sunrise", "dawn", "dusk", "dawn light", "harsh light", "sun glare", "glare", "sunlight", "golden hour"], placement: "backdrop", radius: 1.5 },
+  { id: "buildings", terms: ["rooftops", "roof", "skyline", "building", "structures", "house", "chimney", "tower"], placement: "backdrop", radius: 2.4 },
+  { id: "hieroglyphs", terms: ["hieroglyphs", "carving", "relief", "inscription", "mural", "fresco"], placement: "backdrop", radius: 1.6 },
+  { id: "flag", terms: ["flag", "banner", "standard", "pennant", "american flag", "ensign"], placement: "ring", radius: 0.6 },
+  { id: "footprints", terms: ["footprints", "boot prints", "tracks", "footsteps"], placement: "ring", radius: 0.8 },
+  { id: "craters", terms: ["crater", "surface craters", "impact", "shell hole"], placement: "ring", radius: 1.2 },
+  { id: "dust", terms: ["dust", "dust plume", "dust cloud", "moon dust", "regolith", "exhaust plume"], placement: "ring", radius: 1 },
+  { id: "ramp", terms: ["ramp", "causeway", "slope", "incline"], placement: "ring", radius: 1.3 },
+  { id: "crowd", terms: ["crowd", "workers", "people", "soldiers", "troops", "figures", "laborers", "onlookers", "delegates"], placement: "ring", radius: 1.3 },
+  { id: "smoke", terms: ["smoke", "smoke column", "smokescreen", "steam"], placement: "ring", radius: 0.9 },
+  { id: "torch", terms: ["torch", "torchlight", "lantern", "flame", "fire", "candle", "brazier"], placement: "ring", radius: 0.4 },
+  { id: "reeds", terms: ["reeds", "papyrus", "rushes", "grass", "cattails"], placement: "ring", radius: 1 },
+  { id: "oars", terms: ["oars", "paddle", "rowing"], placement: "ring", radius: 0.7 },
+  { id: "barriers", terms: ["barriers", "hedgehog", "czech hedgehog", "tank trap", "obstacle", "barricade", "barbed wire"], placement: "ring", radius: 1.1 },
+  { id: "searchlight", terms: ["searchlights", "spotlight", "floodlight", "light beam", "beacon"], placement: "ring", radius: 0.6 },
+  { id: "siren", terms: ["sirens", "air raid siren", "alarm", "loudspeaker", "horn"], placement: "ring", radius: 0.5 },
+  { id: "sandbags", terms: ["sandbags", "sandbag wall", "bunker", "fortification", "trench"], placement: "ring", radius: 1 },
+  { id: "documents", terms: ["documents", "paper", "papers", "treaty", "scroll", "letter", "map", "ink"], placement: "ring", radius: 0.5 },
+  { id: "medals", terms: ["medals", "decoration", "insignia", "badge", "coin", "award"], placement: "ring", radius: 0.4 },
+  { id: "debris", terms: ["debris", "paper debris", "rubble", "litter", "wreckage", "ruins"], placement: "ring", radius: 1.2 },
+  { id: "stars", terms: ["starfield", "stars", "night sky", "dark space", "void", "galaxy", "milky way"], placement: "overlay", radius: 0 },
+  { id: "haze", terms: ["haze", "sand haze", "fog", "mist", "heat shimmer", "sandstorm"], placement: "overlay", radius: 0 },
+  { id: "glitter", terms: ["sun glitter", "glitter", "sparkle", "glint", "shimmer", "reflections"], placement: "overlay", radius: 0 },
+  { id: "corridor", terms: ["narrow hallway", "hallway", "corridor", "passage", "tunnel", "gallery"], placement: "overlay", radius: 0 },
+  { id: "waves", terms: ["waves", "surf", "breakers", "swell", "ripples"], placement: "overlay", radius: 0 },
+  { id: "plaza", terms: ["wide plaza", "plaza", "square", "forum", "courtyard", "town square"], placement: "overlay", radius: 0 },
+  { id: "street", terms: ["street", "empty street", "road", "avenue", "alley", "boulevard"], placement: "overlay", radius: 0 },
+  { id: "motion", terms: ["movement", "motion", "march", "charge", "stampede", "procession", "wheels", "hooves"], placement: "overlay", radius: 0 },
+  { id: "shadows", terms: ["shadows", "long shadows", "silhouette", "darkness", "shade"], placement: "overlay", radius: 0 },
+];
+
+BUILTIN_PROPS.forEach(registerPropDefinition);
+
+/** Words this short are only matched exactly: one letter off is usually another word ("horse", "house"). */
+const MIN_FUZZY_LENGTH = 6;
+
+function scoreTerm(keyword: string[], term: string[]): number {
+  if (!term.length || !keyword.length) return 0;
+  const extra = keyword.length - term.length;
+  if (findRun(keyword, term, false) >= 0) return extra === 0 ? 1 : 0.9 - 0.05 * extra + 0.02 * term.length;
+  const at = findRun(keyword, term, true);
+  if (at >= 0 && term.every((w, j) => w === keyword[at + j] || w.length >= MIN_FUZZY_LENGTH)) return extra === 0 ? 0.8 : 0.7 - 0.05 * extra + 0.02 * term.length;
+  // "moon" vs "crescent moon": the keyword is the end of a longer term, so names the same thing ("tank" in "tank trap" doesn't).
+  if (keyword.length < term.length && findRun(term, keyword, false) === term.length - keyword.length) return 0.5;
+  return 0;
+}
+
+/** Finds the best prop for a free-text keyword such as "American flag" or "lunar modules". */
+export function resolveKeyword(keyword: string): PropMatch | null {
+  const kw = words(keyword);
+  let best: PropMatch | null = null;
+  for (const def of definitions.values()) {
+    for (const term of def.terms) {
+      const score = scoreTerm(kw, words(term));
+      if (score > (best?.score ?? 0)) best = { id: def.id, keyword, score };
+    }
+  }
+  return best;
+}
+
+export function resolveKeywords(keywords: readonly string[] | undefined): PropMatch[] {
+  return (keywords ?? []).map(resolveKeyword).filter((m): m is PropMatch => !!m);
+}
+
+/**
+ * The prop each shown keyword summons, or null. Translated keywords are read through the scene's own list
+ * when the two line up one to one, since prop terms are English.
+ */
+export function keywordProps(shown: readonly string[], original: readonly string[] = shown): (string | null)[] {
+  const source = shown.length === original.length ? original : shown;
+  return source.map((keyword) => resolveKeyword(keyword)?.id ?? null);
+}
+
+/** Props that stand somewhere on the set and can be picked out; overlays dress the whole set. */
+export function isHotspot(id: string): boolean {
+  const placement = definitions.get(id)?.placement;
+  return !!placement && placement !== "overlay";
+}
+
+/**
+ * Lays out one instance per matched prop id, seeded so a scene always looks the same.
+ * Ring props are scattered behind and beside the focal point (the camera sits at +z) and never overlap.
+ */
+export function layoutProps(matches: readonly PropMatch[], seed: string | number): PlacedProp[] {
+  const rng = createRandom(seed);
+  const placed: PlacedProp[] = [];
+  const seen = new Set<string>();
+  const occupied: { x: number; z: number; r: number }[] = [];
+  const free = (x: number, z: number, r: number) => occupied.every((o) => Math.hypot(o.x - x, o.z - z) >= o.r + r + 0.2);
+  let hasCenter = false;
+  let backdropSlot = 0;
+
+  for (const match of matches) {
+    if (seen.has(match.id)) continue;
+    seen.add(match.id);
+    const def = definitions.get(match.id);
+    if (!def) continue;
+    let placement = def.placement;
+    if (placement === "center" && hasCenter) placement = "ring";
+
+    let x = 0;
+    let z = 0;
+    if (placement === "center") {
+      hasCenter = true;
+      z = -1;
+    } else if (placement === "backdrop") {
+      x = (backdropSlot % 2 === 0 ? -1 : 1) * (2 + 3 * Math.floor(backdropSlot / 2)) + rng.range(-0.5, 0.5);
+      z = -8 - rng.range(0, 2);
+      backdropSlot++;
+    } else if (placement === "ring") {
+      let radius = 2.2 + def.radius;
+      for (let attempt = 0; attempt < 48; attempt++) {
+        const angle = rng.range(-1.9, 1.9);
+        x = Math.sin(angle) * radius;
+        z = -1 - Math.cos(angle) * radius;
+        if (free(x, z, def.radius)) break;
+        if (attempt % 6 === 5) radius += 0.8;
+      }
+    }
+    if (placement !== "overlay") occupied.push({ x, z, r: def.radius });
+    placed.push({
+      ...match,
+      position: [x, 0, z],
+      rotation: placement === "ring" ? rng.range(-Math.PI, Math.PI) : 0,
+      scale: placement === "ring" ? rng.range(0.85, 1.15) : 1,
+    });
+  }
+  return placed;
+}
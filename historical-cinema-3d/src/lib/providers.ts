@@ -0,0 +1,277 @@
+import type { Locale, Scene } from "@/lib/scene";
+import { SCENE_COUNT, checkSceneCount, validateScene, type SceneDiagnostic } from "@/lib/validate";
+import { instantiateChronicle } from "@/lib/chronicle";
+import { matchChronicle } from "@/lib/packs";
+import { DEFAULT_LOCALE, rebaseScene } from "@/lib/i18n";
+import { BUILTIN_PACKS } from "@/content";
+
+/*
+ * Scene providers
+ * ---------------
+ * A provider turns an event name into a stream of scenes. Scenes are yielded one at a time so the
+ * player can start on scene 1 while the rest are still being generated.
+ *
+ * To plug in an LLM, point VITE_SCENE_ENDPOINT at a backend that:
+ * 1) accepts POST { eventName, locale, prompt } where prompt is SCENE_PROMPT_TEMPLATE,
+ * 2) answers with application/x-ndjson (one Scene object per line, flushed as each is ready)
+ *    or with a plain JSON array of scenes.
+ * `npm run mock:scenes` starts a local backend that does exactly this (see mock/scene-server.mjs).
+ */
+
+export const SCENE_PROMPT_TEMPLATE: string = `You are a historical dramaturg and cinematic director.
+Given a historical event, produce 3 to 5 sequential scenes as JSON.
+Each scene must include: {title, timePeriod, location, oneLine, narration, visualKeywords, palette, environment, cameraStyle}.
+The visualKeywords should be concrete objects (e.g., pyramid, torchlight, moon dust, flags, uniforms), not abstract words.
+The environment is one of: [space, desert, sea, forest, city, tundra, interior, mountain, ceremonial, battlefield].
+The cameraStyle is one of: [dolly-in, crane-up, orbit-slow, handheld, locked-off, push-pull].
+Optionally add lighting, one of: [day, dawn, dusk, overcast, night, torchlight, interior, vacuum], when the time of day matters.
+Optionally add transition, one of: [cut, crossfade, fade-black, film-burn, fly-through], for how the scene is entered; use fade-black for jumps in time and fly-through for moves between places.
+Optionally add minDwellMs and maxDwellMs (milliseconds) to bound how long autoplay holds a scene; by default it holds for the narration.
+Keep narration to 1–3 vivid sentences with sensory detail. Use simple, declarative language.
+Each scene must also say where it comes from:
+- citations: the published works it draws on, each {title, author, publisher, year, url}, with author as "Surname, Given names" and url only for a real, stable web page; cite only works that exist.
+- historicity, one of: [documented, reconstructed, speculative, mythic]: documented when sources close to the event record it, reconstructed when details are filled in from evidence, speculative when it is plausible but unrecorded, mythic for belief and legend.
+- anachronisms: a list of short notes on what the scene knowingly gets wrong or invents (an empty list when nothing).
+Write the text fields (title, timePeriod, location, oneLine, narration, visualKeywords, questions, anachronisms) in the requested locale; the other values stay exactly as listed above.
+Optionally add translations, keyed by language tag, e.g. {"es-ES": {title, timePeriod, location, oneLine, narration, visualKeywords, questions, anachronisms}}.
+Optionally add questions: a list of multiple-choice questions about the scene for a classroom quiz, each {prompt, choices, answer, explanation}, where answer is the index of the right choice among 2 to 6 choices.
+Stream the result as newline-delimited JSON: one scene object per line, in order.`;
+
+export interface SceneRequest {
+  eventName: string;
+  locale: Locale;
+}
+
+export interface SceneStreamOptions {
+  signal?: AbortSignal;
+  /** Called when a provider gives up and a fallback provider takes over. */
+  onFallback?: (error: ProviderError) => void;
+  /** Receives validation findings as scenes are checked (see withValidation). */
+  onDiagnostics?: (diagnostics: SceneDiagnostic[]) => void;
+}
+
+export interface SceneProvider {
+  id: string;
+  stream(request: SceneRequest, options?: SceneStreamOptions): AsyncIterable<Scene>;
+}
+
+export type ProviderErrorKind = "aborted" | "timeout" | "network" | "http" | "parse";
+
+export class ProviderError extends Error {
+  constructor(
+    readonly kind: ProviderErrorKind,
+    message: string,
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof ProviderError ? e.kind === "aborted" : (e as { name?: string } | null)?.name === "AbortError";
+}
+
+function abortError() {
+  return new ProviderError("aborted", "Scene request was cancelled");
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const handle = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(handle);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Scenes from the shipped chronicle whose content pack best matches `eventName` (see src/content), in `locale` where it has a translation. */
+export function generateScenesLocally(eventName: string, locale: Locale = DEFAULT_LOCALE): Scene[] {
+  const chronicle = matchChronicle(BUILTIN_PACKS, eventName, locale);
+  return chronicle ? instantiateChronicle(chronicle, eventName.trim()).scenes.map((scene) => rebaseScene(scene, chronicle.locale, locale)) : [];
+}
+
+export const localProvider: SceneProvider = {
+  id: "local",
+  async *stream({ eventName, locale }, { signal } = {}) {
+    for (const scene of generateScenesLocally(eventName, locale)) {
+      if (signal?.aborted) throw abortError();
+      yield scene;
+    }
+  },
+};
+
+export interface HttpProviderOptions {
+  endpoint: string;
+  /** Idle timeout: max wait for the first byte and between scenes. */
+  timeoutMs?: number;
+  /** Extra attempts for network errors, timeouts and 429/5xx responses before any scene arrived. */
+  retries?: number;
+  retryDelayMs?: number;
+  headers?: Record<string, string>;
+}
+
+function watchdog(signal: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let handle: ReturnType<typeof setTimeout> | undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+  const arm = () => {
+    clearTimeout(handle);
+    handle = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  arm();
+  return {
+    signal: controller.signal,
+    arm,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(handle);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new ProviderError("parse", `Scene backend sent malformed JSON: ${line.slice(0, 80)}`);
+  }
+}
+
+async function* readScenes(res: Response, onChunk: () => void): AsyncGenerator<unknown> {
+  const type = res.headers.get("content-type") ?? "";
+  if (!res.body || (type.includes("json") && !type.includes("ndjson"))) {
+    const body = parseLine(await res.text()) as unknown;
+    const list = Array.isArray(body) ? body : (body as { scenes?: unknown } | null)?.scenes;
+    if (!Array.isArray(list)) throw new ProviderError("parse", "Scene backend response is not a scene array");
+    yield* list;
+    return;
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      onChunk();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) yield parseLine(line);
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export function httpProvider({ endpoint, timeoutMs = 20000, retries = 2, retryDelayMs = 600, headers }: HttpProviderOptions): SceneProvider {
+  return {
+    id: "http",
+    async *stream({ eventName, locale }, { signal } = {}) {
+      let yielded = 0;
+      for (let attempt = 0; ; attempt++) {
+        const dog = watchdog(signal, timeoutMs);
+        try {
+          const res = await fetch(endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "application/x-ndjson, application/json", ...headers },
+            body: JSON.stringify({ eventName, locale, prompt: SCENE_PROMPT_TEMPLATE }),
+            signal: dog.signal,
+          });
+          if (!res.ok) {
+            throw new ProviderError("http", `Scene backend responded ${res.status}`, res.status === 429 || res.status >= 500);
+          }
+          for await (const scene of readScenes(res, dog.arm)) {
+            yielded++;
+            yield scene as Scene; // raw model output; wrap in withValidation before use
+            dog.arm();
+          }
+          return;
+        } catch (e) {
+          let err: ProviderError;
+          if (e instanceof ProviderError) err = e;
+          else if (signal?.aborted) err = abortError();
+          else if (dog.timedOut()) err = new ProviderError("timeout", `Scene backend timed out after ${timeoutMs} ms`, true);
+          else err = new ProviderError("network", `Scene backend unreachable: ${(e as Error)?.message ?? e}`, true);
+          if (!err.retryable || yielded > 0 || attempt >= retries) throw err;
+          await delay(retryDelayMs * 2 ** attempt, signal);
+        } finally {
+          dog.dispose();
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Streams from `primary`; if it fails before producing a single scene, streams from `fallback` instead.
+ * Failures after the first scene are rethrown so the player can keep what already arrived.
+ */
+export function withFallback(primary: SceneProvider, fallback: SceneProvider): SceneProvider {
+  return {
+    id: `${primary.id}>${fallback.id}`,
+    async *stream(request, options = {}) {
+      let count = 0;
+      try {
+        for await (const scene of primary.stream(request, options)) {
+          count++;
+          yield scene;
+        }
+        if (count > 0) return;
+        options.onFallback?.(new ProviderError("parse", `${primary.id} provider returned no scenes`));
+      } catch (e) {
+        if (isAbortError(e) || count > 0) throw e;
+        options.onFallback?.(e instanceof ProviderError ? e : new ProviderError("network", String(e)));
+      }
+      yield* fallback.stream(request, options);
+    },
+  };
+}
+
+/**
+ * Runs every streamed scene through validateScene, requiring sources: repaired scenes are passed on,
+ * unusable ones are dropped, and anything past SCENE_COUNT.max scenes is discarded. Findings go to `onDiagnostics`.
+ */
+export function withValidation(provider: SceneProvider): SceneProvider {
+  return {
+    id: provider.id,
+    async *stream(request, options = {}) {
+      let received = 0;
+      let kept = 0;
+      for await (const raw of provider.stream(request, options)) {
+        const index = received++;
+        if (kept >= SCENE_COUNT.max) continue;
+        const { scene, diagnostics } = validateScene(raw, index, { requireSources: true });
+        if (diagnostics.length) options.onDiagnostics?.(diagnostics);
+        if (!scene) continue;
+        kept++;
+        yield scene;
+      }
+      const deck = checkSceneCount(kept, received);
+      if (deck.length) options.onDiagnostics?.(deck);
+    },
+  };
+}
+
+export function createSceneProvider(): SceneProvider {
+  const endpoint = import.meta.env.VITE_SCENE_ENDPOINT;
+  if (!endpoint) return localProvider;
+  const timeoutMs = Number(import.meta.env.VITE_SCENE_TIMEOUT_MS) || undefined;
+  return withFallback(withValidation(httpProvider({ endpoint, timeoutMs })), localProvider);
+}
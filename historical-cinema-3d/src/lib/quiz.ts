@@ -0,0 +1,204 @@
+import type { Scene } from "@/lib/scene";
+import { createRandom, type Random } from "@/lib/random";
+import { normalizeText } from "@/lib/text";
+import { midpoint, sceneDate, type HistoricalDate } from "@/lib/dates";
+
+/*
+ * Classroom quiz: questions built from the deck itself (put the scenes in order, match places to scenes,
+ * recall when a scene happens and what was in it) plus any a scene carries, written by hand or by the
+ * scene provider. Questions hold scene indices and choice indices, not UI text; the quiz panel words them.
+ * Generation is seeded, so the same deck always gets the same quiz.
+ */
+
+/** A multiple-choice question carried by a scene (see Scene.questions). */
+export interface SceneQuestion {
+  prompt: string;
+  choices: string[];
+  /** Index of the right choice. */
+  answer: number;
+  /** Shown once the question is answered. */
+  explanation?: string;
+}
+
+export type ChoiceQuestion =
+  | { kind: "timePeriod" | "keyword"; id: string; scene: number; choices: string[]; answer: number }
+  | ({ kind: "authored"; id: string; scene: number } & SceneQuestion);
+
+export interface OrderQuestion {
+  kind: "order";
+  id: string;
+  /** Scenes as first shown. */
+  items: number[];
+  /** Scenes earliest first. */
+  answer: number[];
+}
+
+export interface MatchQuestion {
+  kind: "match";
+  id: string;
+  /** Scenes, shown by title. */
+  rows: number[];
+  /** Locations, shuffled. */
+  choices: string[];
+  /** The right choice for each row. */
+  answer: number[];
+}
+
+export type QuizQuestion = ChoiceQuestion | OrderQuestion | MatchQuestion;
+
+/** A choice index, or for order and match questions a list (scenes in order; a choice per row). */
+export type QuizResponse = number | number[];
+
+/** When autoplay stops for questions: never, after each scene (its own questions), or once at the end. */
+export const QUIZ_TIMINGS = ["off", "between", "after"] as const;
+export type QuizTiming = (typeof QUIZ_TIMINGS)[number];
+
+/** Most choices a generated question offers. */
+const MAX_CHOICES = 4;
+
+function shuffled<T>(items: readonly T[], rng: Random): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(0, i);
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
+
+/** Distinct by normalized text, first spelling wins. */
+function distinct(values: readonly string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((v) => {
+    const key = normalizeText(v);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function choiceQuestion(kind: "timePeriod" | "keyword", scene: number, right: string, wrong: readonly string[], rng: Random): ChoiceQuestion | null {
+  if (!wrong.length) return null;
+  const choices = shuffled([right, ...shuffled(wrong, rng).slice(0, MAX_CHOICES - 1)], rng);
+  return { kind, id: `${kind}-${scene}`, scene, choices, answer: choices.indexOf(right) };
+}
+
+function timePeriodQuestion(scenes: readonly Scene[], dates: readonly HistoricalDate[], i: number, rng: Random): ChoiceQuestion | null {
+  const own = scenes[i]!.timePeriod;
+  if (!normalizeText(own)) return null;
+  // A period that overlaps this one ("July 1969" for "July 20, 1969") would be right too.
+  const overlaps = (j: number) => {
+    const a = dates[i];
+    const b = dates[j];
+    return a?.kind === "interval" && b?.kind === "interval" && a.start < b.end && b.start < a.end;
+  };
+  const others = distinct(scenes.flatMap((s, j) => (normalizeText(s.timePeriod) === normalizeText(own) || overlaps(j) ? [] : [s.timePeriod])));
+  return choiceQuestion("timePeriod", i, own, others, rng);
+}
+
+function keywordQuestion(scenes: readonly Scene[], i: number, rng: Random): ChoiceQuestion | null {
+  const mine = new Set(scenes[i]!.visualKeywords.map(normalizeText));
+  const elsewhere = distinct(scenes.flatMap((s, j) => (j === i ? [] : s.visualKeywords)));
+  const seenElsewhere = new Set(elsewhere.map(normalizeText));
+  // Only keywords that tell this scene apart: nothing it shares with another scene, either way round.
+  const own = distinct(scenes[i]!.visualKeywords).filter((k) => !seenElsewhere.has(normalizeText(k)));
+  const wrong = elsewhere.filter((k) => !mine.has(normalizeText(k)));
+  return own.length ? choiceQuestion("keyword", i, rng.pick(own), wrong, rng) : null;
+}
+
+function orderQuestion(dates: readonly HistoricalDate[], rng: Random): OrderQuestion | null {
+  const dated = dates.flatMap((d, i) => (d.kind === "interval" ? [{ scene: i, date: d }] : [])).sort((a, b) => midpoint(a.date) - midpoint(b.date));
+  // Only when the order is beyond doubt: "July 1969" and "July 20, 1969" can't be put in order.
+  const clear = dated.every(({ date }, k) => {
+    const next = dated[k + 1]?.date;
+    return !next || date.end + date.uncertainty <= next.start - next.uncertainty;
+  });
+  if (dated.length < 3 || !clear) return null;
+  const answer = dated.map((d) => d.scene);
+  let items = shuffled(answer, rng);
+  if (items.every((s, k) => s === answer[k])) items = [...items.slice(1), items[0]!];
+  return { kind: "order", id: "order", items, answer };
+}
+
+function matchQuestion(scenes: readonly Scene[], rng: Random): MatchQuestion | null {
+  const places = new Set<string>();
+  const titles = new Set<string>();
+  const rows = scenes.flatMap((s, i) => {
+    const place = normalizeText(s.location);
+    const title = normalizeText(s.title);
+    if (!place || places.has(place) || titles.has(title)) return [];
+    places.add(place);
+    titles.add(title);
+    return [i];
+  });
+  if (rows.length < 2) return null;
+  const choices = shuffled(rows.map((i) => scenes[i]!.location), rng);
+  return { kind: "match", id: "match", rows, choices, answer: rows.map((i) => choices.indexOf(scenes[i]!.location)) };
+}
+
+export interface QuizOptions {
+  seed?: number | string;
+  /** Scene dates for the ordering question; parsed from the scenes when left out. */
+  dates?: readonly HistoricalDate[];
+}
+
+/** Each scene's recall questions and its own questions, then ordering and matching over the deck. Skips any question the deck can't support. */
+export function generateQuiz(scenes: readonly Scene[], { seed = 0, dates = scenes.map(sceneDate) }: QuizOptions = {}): QuizQuestion[] {
+  const rng = createRandom(seed);
+  const questions: QuizQuestion[] = [];
+  scenes.forEach((scene, i) => {
+    const time = timePeriodQuestion(scenes, dates, i, rng);
+    const keyword = keywordQuestion(scenes, i, rng);
+    if (time) questions.push(time);
+    if (keyword) questions.push(keyword);
+    scene.questions?.forEach((q, k) => questions.push({ kind: "authored", id: `authored-${i}-${k}`, scene: i, ...q }));
+  });
+  const order = orderQuestion(dates, rng);
+  const match = matchQuestion(scenes, rng);
+  if (order) questions.push(order);
+  if (match) questions.push(match);
+  return questions;
+}
+
+/** The scenes a question is about, in the order the answer has them. */
+export function questionScenes(question: QuizQuestion): number[] {
+  if (question.kind === "order") return question.answer;
+  if (question.kind === "match") return question.rows;
+  return [question.scene];
+}
+
+export function isCorrect(question: QuizQuestion, response: QuizResponse | undefined): boolean {
+  if (response === undefined) return false;
+  if (question.kind === "order" || question.kind === "match") {
+    return Array.isArray(response) && response.length === question.answer.length && response.every((r, k) => r === question.answer[k]);
+  }
+  return response === question.answer;
+}
+
+export function scoreQuiz(questions: readonly QuizQuestion[], answers: Readonly<Record<string, QuizResponse>>): { correct: number; answered: number; total: number } {
+  const answered = questions.filter((q) => answers[q.id] !== undefined);
+  return { correct: answered.filter((q) => isCorrect(q, answers[q.id])).length, answered: answered.length, total: questions.length };
+}
+
+/**
+ * What to ask as autoplay leaves `scene`: between scenes, that scene's own questions; after the last
+ * scene, everything (the deck-wide questions, and whatever was skipped). Callers drop answered ones.
+ */
+export function questionsDue(questions: readonly QuizQuestion[], timing: QuizTiming, scene: number, sceneCount: number): QuizQuestion[] {
+  if (timing === "off") return [];
+  if (scene >= sceneCount - 1) return [...questions];
+  if (timing === "after") return [];
+  return questions.filter((q) => {
+    const about = questionScenes(q);
+    return about.length === 1 && about[0] === scene;
+  });
+}
+
+/** RFC 4180 CSV. Cells that a spreadsheet would run as a formula are quoted with a leading apostrophe. */
+export function toCSV(rows: readonly (readonly (string | number)[])[]): string {
+  const cell = (value: string | number) => {
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(cell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,38 @@
+/** 32-bit FNV-1a hash, used to turn scene text into stable seeds. */
+export function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: tiny, fast, good-enough PRNG returning floats in [0, 1). */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface Random {
+  next(): number;
+  range(min: number, max: number): number;
+  int(min: number, maxInclusive: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+export function createRandom(seed: number | string): Random {
+  const next = mulberry32(typeof seed === "string" ? hashString(seed) : seed);
+  return {
+    next,
+    range: (min, max) => min + (max - min) * next(),
+    int: (min, maxInclusive) => min + Math.floor(next() * (maxInclusive - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)]!,
+  };
+}
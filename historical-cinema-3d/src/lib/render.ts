@@ -0,0 +1,115 @@
+import type { Scene } from "@/lib/scene";
+import type { SceneTiming } from "@/lib/captions";
+import { easing } from "@/lib/camera";
+import {
+  FADE_BLACK_KEYS,
+  FILM_BURN_KEYS,
+  FLY_THROUGH_DISSOLVE,
+  keyframe,
+  resolveTransition,
+  swapsAtMidpoint,
+  type GradientStops,
+  type TransitionSpec,
+} from "@/lib/transitions";
+
+/*
+ * Offline rendering plan. A render is a pure function of (deck, timings, settings, frame number): the
+ * stage is stepped on a fixed frame clock and every per-frame decision is made here, so rendering the
+ * same deck twice produces the same frames.
+ */
+
+export type RenderFormat = "webm" | "png";
+
+export interface RenderSettings {
+  width: number;
+  height: number;
+  fps: number;
+  format: RenderFormat;
+}
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = { width: 1280, height: 720, fps: 30, format: "webm" };
+
+export interface RenderFrame {
+  index: number;
+  /** Seconds from the start of the show; also the value the R3F clock is advanced to. */
+  time: number;
+  /** Scene the 3D stage shows on this frame. */
+  stage: number;
+  /** Camera fly-in (seconds) for the stage scene. */
+  flyIn: number;
+  /** The transition into the current scene and its progress, while one is running. */
+  transition: { spec: TransitionSpec; progress: number } | null;
+}
+
+export function frameCount(timings: readonly SceneTiming[], fps: number): number {
+  return Math.ceil(((timings[timings.length - 1]?.end ?? 0) / 1000) * fps);
+}
+
+export function frameAt(index: number, scenes: readonly Scene[], timings: readonly SceneTiming[], fps: number): RenderFrame {
+  const time = index / fps;
+  let scene = 0;
+  while (scene + 1 < timings.length && timings[scene + 1]!.start <= time * 1000) scene++;
+  // Like live playback, the first scene has nothing to transition from.
+  const spec = scene > 0 ? resolveTransition(scenes[scene]) : { type: "cut" as const, duration: 0 };
+  const local = time - (timings[scene]?.start ?? 0) / 1000;
+  const running = spec.type !== "cut" && local < spec.duration;
+  const progress = running ? local / spec.duration : 1;
+  return {
+    index,
+    time,
+    stage: running && swapsAtMidpoint(spec.type) && progress < 0.5 ? scene - 1 : scene,
+    flyIn: spec.type === "fly-through" ? spec.duration : 0,
+    transition: running ? { spec, progress } : null,
+  };
+}
+
+function radial(ctx: CanvasRenderingContext2D, width: number, height: number, center: readonly [number, number], stops: GradientStops, scale = 1) {
+  const x = center[0] * width;
+  const y = center[1] * height;
+  // CSS "circle"/"ellipse at" gradients default to farthest-corner sizing.
+  const r = Math.hypot(Math.max(x, width - x), Math.max(y, height - y)) * scale;
+  const g = ctx.createRadialGradient(x, y, 0, x, y, r);
+  for (const [offset, color] of stops) g.addColorStop(offset, color);
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * Canvas 2D version of the live transition overlay, drawn over the rendered frame. `snapshot` is the
+ * last frame of the outgoing scene, for dissolves.
+ */
+export function drawTransition(ctx: CanvasRenderingContext2D, transition: RenderFrame["transition"], snapshot: CanvasImageSource | null) {
+  if (!transition) return;
+  const { width, height } = ctx.canvas;
+  const { spec, progress } = transition;
+  ctx.save();
+  switch (spec.type) {
+    case "crossfade":
+    case "fly-through": {
+      if (!snapshot) break;
+      const fly = spec.type === "fly-through";
+      const u = easing.inOutSine(Math.min(1, fly ? progress / FLY_THROUGH_DISSOLVE.portion : progress));
+      const scale = fly ? 1 + (FLY_THROUGH_DISSOLVE.scale - 1) * u : 1;
+      ctx.globalAlpha = 1 - u;
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(scale, scale);
+      ctx.drawImage(snapshot, -width / 2, -height / 2, width, height);
+      break;
+    }
+    case "fade-black":
+      ctx.globalAlpha = keyframe(FADE_BLACK_KEYS.opacity, FADE_BLACK_KEYS.times, progress);
+      ctx.fillStyle = "#000";
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case "film-burn": {
+      const { base, flare } = FILM_BURN_KEYS;
+      ctx.globalAlpha = keyframe(base.opacity, base.times, progress);
+      radial(ctx, width, height, base.center, base.stops);
+      ctx.globalAlpha = keyframe(flare.opacity, flare.times, progress);
+      ctx.globalCompositeOperation = "screen";
+      radial(ctx, width, height, flare.center, flare.stops, keyframe(flare.scale, flare.times, progress));
+      break;
+    }
+  }
+  ctx.restore();
+}
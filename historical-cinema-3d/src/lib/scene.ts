@@ -0,0 +1,62 @@
+import type { LightingOverride } from "@/lib/lighting";
+import type { TransitionOverride } from "@/lib/transitions";
+import type { SceneQuestion } from "@/lib/quiz";
+import type { Citation, Historicity } from "@/lib/sources";
+
+export type EnvName =
+  | "space"
+  | "desert"
+  | "sea"
+  | "forest"
+  | "city"
+  | "tundra"
+  | "interior"
+  | "mountain"
+  | "ceremonial"
+  | "battlefield";
+
+export type CameraStyle =
+  | "dolly-in"
+  | "crane-up"
+  | "orbit-slow"
+  | "handheld"
+  | "locked-off"
+  | "push-pull";
+
+export interface Scene {
+  title: string;
+  timePeriod: string;
+  location: string;
+  oneLine: string;
+  narration: string;
+  visualKeywords: string[];
+  palette: string[];
+  environment: EnvName;
+  cameraStyle: CameraStyle;
+  /** Optional explicit lighting; otherwise inferred from the scene (see lib/lighting). */
+  lighting?: LightingOverride;
+  /** How this scene is entered from the previous one (see lib/transitions). */
+  transition?: TransitionOverride;
+  /** Autoplay holds the scene at least this long, even if the narration is shorter. */
+  minDwellMs?: number;
+  /** Autoplay moves on after this long, even if the narration is still running. */
+  maxDwellMs?: number;
+  /** Multiple-choice questions about the scene for the classroom quiz (see lib/quiz). */
+  questions?: SceneQuestion[];
+  /** Works the scene draws on (see lib/sources). */
+  citations?: Citation[];
+  /** How much of the scene is on record; speculative and mythic scenes are badged on the stage. */
+  historicity?: Historicity;
+  /** What the scene knowingly gets wrong or invents, one note each. */
+  anachronisms?: string[];
+  /** The scene's text in other languages, by BCP 47 tag; the untranslated fields are in the deck's own locale (see lib/i18n). */
+  translations?: Record<Locale, SceneTranslation>;
+}
+
+/** Scene fields that carry language; everything else stages the scene and is shared by all translations. */
+export type LocalizedField = "title" | "timePeriod" | "location" | "oneLine" | "narration" | "visualKeywords" | "questions" | "anachronisms";
+
+export type SceneTranslation = Partial<Pick<Scene, LocalizedField>>;
+
+/** A BCP 47 language tag, e.g. "en-US" or "es-MX". UI catalogs live in src/locales. */
+export type Locale = string;
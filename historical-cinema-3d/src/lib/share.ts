@@ -0,0 +1,134 @@
+import type { Locale } from "@/lib/scene";
+import { parseChronicle, ChronicleError, type Chronicle } from "@/lib/chronicle";
+import type { SceneDiagnostic } from "@/lib/validate";
+import { DEFAULT_LOCALE, canonicalLocale } from "@/lib/i18n";
+import type { QualitySetting } from "@/lib/performance";
+
+/*
+ * Player state in the URL. The query string carries what to play and how
+ * (?event=Moon%20Landing&scene=2&lang=es-ES&q=2&autoplay=0&narration=0&vol=50&amb=0&voice=100; q is 0–2 or "auto",
+ * volumes are percentages); settings at their defaults are left out. A whole deck can ride along in the fragment (#deck=…), deflated and base64url-encoded, so
+ * hand-edited chronicles can be shared without a server; fragments never reach the server either.
+ */
+
+export interface PlayerUrlState {
+  event: string;
+  /** 0-based here, 1-based in the URL. */
+  scene: number;
+  locale: Locale;
+  quality: QualitySetting;
+  autoplay: boolean;
+  narration: boolean;
+  /** Master, ambience and narration voice volumes, 0–100. */
+  volume: number;
+  ambience: number;
+  voiceVolume: number;
+}
+
+export const PLAYER_URL_DEFAULTS: PlayerUrlState = { event: "", scene: 0, locale: DEFAULT_LOCALE, quality: "auto", autoplay: true, narration: true, volume: 80, ambience: 60, voiceVolume: 100 };
+
+function readFlag(value: string | null): boolean | undefined {
+  if (value === null) return undefined;
+  if (/^(1|true|on|yes)$/i.test(value)) return true;
+  if (/^(0|false|off|no)$/i.test(value)) return false;
+  return undefined;
+}
+
+function readPercent(value: string | null): number | undefined {
+  if (value === null || !/^\d{1,3}$/.test(value)) return undefined;
+  const n = Number(value);
+  return n <= 100 ? n : undefined;
+}
+
+/** Whatever valid player state `search` holds; anything missing or malformed is left out. */
+export function parsePlayerQuery(search: string): Partial<PlayerUrlState> {
+  const params = new URLSearchParams(search);
+  const out: Partial<PlayerUrlState> = {};
+  const event = params.get("event")?.trim();
+  if (event) out.event = event;
+  const scene = Number(params.get("scene"));
+  if (Number.isInteger(scene) && scene >= 1) out.scene = scene - 1;
+  const lang = canonicalLocale(params.get("lang"));
+  if (lang) out.locale = lang;
+  const q = params.get("q");
+  const quality = Number(q ?? NaN);
+  if (q === "auto") out.quality = "auto";
+  else if (quality === 0 || quality === 1 || quality === 2) out.quality = quality;
+  const autoplay = readFlag(params.get("autoplay"));
+  if (autoplay !== undefined) out.autoplay = autoplay;
+  const narration = readFlag(params.get("narration"));
+  if (narration !== undefined) out.narration = narration;
+  const volume = readPercent(params.get("vol"));
+  if (volume !== undefined) out.volume = volume;
+  const ambience = readPercent(params.get("amb"));
+  if (ambience !== undefined) out.ambience = ambience;
+  const voiceVolume = readPercent(params.get("voice"));
+  if (voiceVolume !== undefined) out.voiceVolume = voiceVolume;
+  return out;
+}
+
+/** "?…" for `state` (or "" when everything is at its default). */
+export function formatPlayerQuery(state: PlayerUrlState): string {
+  const params = new URLSearchParams();
+  const d = PLAYER_URL_DEFAULTS;
+  if (state.event) params.set("event", state.event);
+  if (state.event && state.scene !== d.scene) params.set("scene", String(state.scene + 1));
+  if (state.locale !== d.locale) params.set("lang", state.locale);
+  if (state.quality !== d.quality) params.set("q", String(state.quality));
+  if (state.autoplay !== d.autoplay) params.set("autoplay", state.autoplay ? "1" : "0");
+  if (state.narration !== d.narration) params.set("narration", state.narration ? "1" : "0");
+  if (state.volume !== d.volume) params.set("vol", String(Math.round(state.volume)));
+  if (state.ambience !== d.ambience) params.set("amb", String(Math.round(state.ambience)));
+  if (state.voiceVolume !== d.voiceVolume) params.set("voice", String(Math.round(state.voiceVolume)));
+  const query = params.toString().replace(/\+/g, "%20");
+  return query ? `?${query}` : "";
+}
+
+const DECK_KEY = "deck";
+/** Payload prefixes: "z" deflate-raw, "j" plain JSON (browsers without CompressionStream). */
+const DEFLATED = "z";
+const PLAIN = "j";
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(transform)).arrayBuffer());
+}
+
+/** "deck=…" fragment (without "#") carrying `chronicle`. */
+export async function encodeDeckFragment(chronicle: Chronicle): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(chronicle));
+  if (typeof CompressionStream === "undefined") return `${DECK_KEY}=${PLAIN}${toBase64Url(json)}`;
+  return `${DECK_KEY}=${DEFLATED}${toBase64Url(await pipe(json, new CompressionStream("deflate-raw")))}`;
+}
+
+/** The chronicle in a "#deck=…" fragment, null when there is none; throws ChronicleError when it can't be read. */
+export async function decodeDeckFragment(hash: string): Promise<{ chronicle: Chronicle; diagnostics: SceneDiagnostic[] } | null> {
+  const payload = new URLSearchParams(hash.replace(/^#/, "")).get(DECK_KEY);
+  if (!payload) return null;
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(payload.slice(1));
+    if (payload[0] === DEFLATED) {
+      if (typeof DecompressionStream === "undefined") throw new ChronicleError("noDecompression");
+      bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+    } else if (payload[0] !== PLAIN) {
+      throw new ChronicleError("unknownEncoding");
+    }
+  } catch (e) {
+    throw e instanceof ChronicleError ? e : new ChronicleError("damagedDeck");
+  }
+  return parseChronicle(new TextDecoder().decode(bytes));
+}
+
+/** Links longer than this may be cut off by mail and chat clients. */
+export const LONG_SHARE_URL = 8000;
@@ -0,0 +1,118 @@
+import type { Locale, Scene } from "@/lib/scene";
+import { normalizeText } from "@/lib/text";
+
+/*
+ * Where a scene's history comes from and how far to trust it: the works it draws on, how much of it is
+ * on record, and what it knowingly gets wrong. The sources panel shows this per scene; the bibliography
+ * exports gather it for the whole deck.
+ */
+
+/** A published work a scene draws on. */
+export interface Citation {
+  title: string;
+  /** "Surname, Given names"; several authors separated by "; ". */
+  author?: string;
+  publisher?: string;
+  year?: number;
+  url?: string;
+}
+
+/**
+ * How much of a scene is on record: documented (attested by sources close to the event), reconstructed
+ * (pieced together from evidence, details filled in), speculative (plausible but unattested) or mythic
+ * (belief and legend, not history).
+ */
+export const HISTORICITY_LEVELS = ["documented", "reconstructed", "speculative", "mythic"] as const;
+export type Historicity = (typeof HISTORICITY_LEVELS)[number];
+
+/** Levels that get a warning badge on the stage, so nobody takes them for the record. */
+export function isSpeculative(level: Historicity | undefined): level is "speculative" | "mythic" {
+  return level === "speculative" || level === "mythic";
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** "Lehner, Mark. The Complete Pyramids. Thames & Hudson, 1997. https://…" */
+export function formatCitation(citation: Citation): string {
+  const imprint = [citation.publisher, citation.year].filter((v) => v !== undefined && v !== "").join(", ");
+  return [citation.author, citation.title, imprint, citation.url]
+    .filter((part): part is string => !!part)
+    .map((part) => oneLine(part).replace(/\.$/, ""))
+    .join(". ");
+}
+
+export interface BibliographyEntry {
+  citation: Citation;
+  /** Indices of the scenes that cite it. */
+  scenes: number[];
+}
+
+/** Every work the deck cites, once, sorted by author (or title) as `locale` sorts. */
+export function collectCitations(scenes: readonly Scene[], locale: Locale = "en-US"): BibliographyEntry[] {
+  const entries = new Map<string, BibliographyEntry>();
+  scenes.forEach((scene, i) => {
+    for (const citation of scene.citations ?? []) {
+      const key = `${normalizeText(citation.author ?? "")}|${normalizeText(citation.title)}`;
+      const entry = entries.get(key);
+      if (!entry) entries.set(key, { citation, scenes: [i] });
+      else if (!entry.scenes.includes(i)) entry.scenes.push(i);
+    }
+  });
+  const sortKey = (c: Citation) => c.author ?? c.title;
+  return [...entries.values()].sort((a, b) => sortKey(a.citation).localeCompare(sortKey(b.citation), locale, { sensitivity: "base" }));
+}
+
+export interface BibliographyLabels {
+  scene: string;
+  historicity: string;
+  unrated: string;
+  anachronisms: string;
+  levels: Record<Historicity, string>;
+}
+
+/** A Markdown bibliography for the deck, followed by each scene's historicity and known anachronisms. */
+export function toBibliography(scenes: readonly Scene[], { title, locale, labels }: { title: string; locale: Locale; labels: BibliographyLabels }): string {
+  const out = [`# ${oneLine(title)}`, ""];
+  collectCitations(scenes, locale).forEach(({ citation, scenes: cited }, i) => {
+    out.push(`${i + 1}. ${formatCitation(citation)}. (${labels.scene} ${cited.map((s) => s + 1).join(", ")})`);
+  });
+  out.push("", `## ${labels.historicity}`, "");
+  scenes.forEach((scene, i) => {
+    out.push(`- ${labels.scene} ${i + 1}: ${oneLine(scene.title)} — ${scene.historicity ? labels.levels[scene.historicity] : labels.unrated}`);
+    if (!scene.anachronisms?.length) return;
+    out.push(`  - ${labels.anachronisms}:`);
+    for (const note of scene.anachronisms) out.push(`    - ${oneLine(note)}`);
+  });
+  return out.join("\n") + "\n";
+}
+
+const BIBTEX_SPECIAL = /[\\{}&%$#_~^]/g;
+
+function bibtexText(value: string): string {
+  return oneLine(value).replace(BIBTEX_SPECIAL, (c) => (c === "\\" ? "\\textbackslash{}" : c === "~" ? "\\textasciitilde{}" : c === "^" ? "\\textasciicircum{}" : `\\${c}`));
+}
+
+/** The deck's citations as BibTeX: @book when there is a publisher, @misc otherwise. Keys are surname + year + first title word. */
+export function toBibTeX(scenes: readonly Scene[], locale: Locale = "en-US"): string {
+  const used = new Map<string, number>();
+  return collectCitations(scenes, locale)
+    .map(({ citation }) => {
+      const surname = normalizeText(citation.author?.split(/[;,]/)[0] ?? "").replace(/ /g, "");
+      const word = normalizeText(citation.title).split(" ").find((w) => w.length > 3) ?? "";
+      const stem = `${surname}${citation.year ?? ""}${word}` || "source";
+      const n = used.get(stem) ?? 0;
+      used.set(stem, n + 1);
+      const key = n ? `${stem}${String.fromCharCode(97 + ((n - 1) % 26))}` : stem;
+      const fields: [string, string | undefined][] = [
+        // Names without a comma are organizations: braced so BibTeX doesn't split them into given and family names.
+        ["author", citation.author?.split(";").map(bibtexText).filter(Boolean).map((name) => (name.includes(",") ? name : `{${name}}`)).join(" and ")],
+        ["title", `{${bibtexText(citation.title)}}`],
+        ["publisher", citation.publisher && bibtexText(citation.publisher)],
+        ["year", citation.year?.toString()],
+        ["url", citation.url],
+      ];
+      const body = fields.flatMap(([name, value]) => (value ? [`  ${name} = {${value}}`] : [])).join(",\n");
+      return `@${citation.publisher ? "book" : "misc"}{${key},\n${body}\n}`;
+    })
+    .join("\n\n") + "\n";
+}
@@ -0,0 +1,208 @@
+import type { Locale, Scene } from "@/lib/scene";
+
+/*
+ * Narration playback. With the Web Speech API available, scenes are read aloud and its boundary events
+ * drive word highlighting; without it (or with narration off) a timer walks the same words at an
+ * estimated reading pace, so pacing and highlighting behave the same either way.
+ */
+
+export interface NarrationWord {
+  text: string;
+  /** Character offsets into the narration, as reported by SpeechSynthesisUtterance boundary events. */
+  start: number;
+  end: number;
+}
+
+export function splitWords(text: string): NarrationWord[] {
+  const words: NarrationWord[] = [];
+  for (const m of text.matchAll(/\S+/g)) words.push({ text: m[0], start: m.index!, end: m.index! + m[0].length });
+  return words;
+}
+
+/** Index of the word containing (or following) `charIndex`. */
+export function wordIndexAt(words: readonly NarrationWord[], charIndex: number): number {
+  for (let i = 0; i < words.length; i++) if (charIndex < words[i]!.end) return i;
+  return words.length - 1;
+}
+
+/** Words per minute at rate 1.0; Spanish voices read slightly more words per minute. */
+const WPM: Record<string, number> = { en: 165, es: 175 };
+
+/** Start time of each word in ms plus the total, at an unhurried narration pace with pauses at punctuation. */
+export function estimateWordTimings(words: readonly NarrationWord[], locale: Locale = "en-US"): { starts: number[]; total: number } {
+  const perWord = 60000 / (WPM[locale.slice(0, 2)] ?? WPM.en!);
+  const starts: number[] = [];
+  let t = 0;
+  for (const w of words) {
+    starts.push(t);
+    t += perWord * (0.55 + (0.45 * w.text.length) / 5);
+    if (/[.!?…]["')\]]*$/.test(w.text)) t += 450;
+    else if (/[,;:—–]["')\]]*$/.test(w.text)) t += 220;
+  }
+  return { starts, total: Math.round(t) };
+}
+
+export function estimateNarrationMs(text: string | undefined, locale: Locale = "en-US"): number {
+  return estimateWordTimings(splitWords(text ?? ""), locale).total;
+}
+
+export interface DwellTimes {
+  minMs: number;
+  maxMs: number;
+  /** Held after the narration ends, before moving on. */
+  tailMs: number;
+}
+
+export const DEFAULT_DWELL: DwellTimes = { minMs: 4000, maxMs: 30000, tailMs: 1500 };
+
+export function resolveDwell(scene: Pick<Scene, "minDwellMs" | "maxDwellMs"> | undefined): DwellTimes {
+  const minMs = scene?.minDwellMs ?? DEFAULT_DWELL.minMs;
+  return { minMs, maxMs: Math.max(minMs, scene?.maxDwellMs ?? DEFAULT_DWELL.maxMs), tailMs: DEFAULT_DWELL.tailMs };
+}
+
+export interface NarrationHandle {
+  pause(): void;
+  resume(): void;
+  /** Stops without calling onEnd. */
+  cancel(): void;
+}
+
+export interface NarrationCallbacks {
+  onWord?(index: number): void;
+  onEnd?(): void;
+  /** Voiced narration only: whether the voice is audible right now (started and not paused or done). */
+  onSpeaking?(speaking: boolean): void;
+}
+
+/** Walks `words` on estimated timings; the stand-in when there is no voice, and the highlighter for voices without boundary events. */
+function timedNarration(words: readonly NarrationWord[], locale: Locale, { onWord, onEnd }: NarrationCallbacks): NarrationHandle {
+  const { starts, total } = estimateWordTimings(words, locale);
+  let elapsed = 0;
+  let resumedAt: number | null = null;
+  let timer: number | undefined;
+  let next = 0;
+  const step = () => {
+    const now = elapsed + (resumedAt === null ? 0 : performance.now() - resumedAt);
+    while (next < starts.length && starts[next]! <= now) onWord?.(next++);
+    if (next < starts.length) timer = window.setTimeout(step, starts[next]! - now);
+    else if (now >= total) onEnd?.();
+    else timer = window.setTimeout(step, total - now);
+  };
+  const handle: NarrationHandle = {
+    pause() {
+      if (resumedAt === null) return;
+      elapsed += performance.now() - resumedAt;
+      resumedAt = null;
+      window.clearTimeout(timer);
+    },
+    resume() {
+      if (resumedAt !== null) return;
+      resumedAt = performance.now();
+      step();
+    },
+    cancel() {
+      resumedAt = null;
+      window.clearTimeout(timer);
+    },
+  };
+  handle.resume();
+  return handle;
+}
+
+export function speechAvailable(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+}
+
+/**
+ * Reads `text` aloud (or silently, on estimated timings, when `voice` is off or unsupported) and reports
+ * the word being spoken. Starts playing immediately; only one voiced narration runs at a time. `volume`
+ * (0–1) applies to the whole utterance: speech engines can't change it mid-sentence.
+ */
+export function narrate(text: string, { locale, voice, volume = 1 }: { locale: Locale; voice: boolean; volume?: number }, callbacks: NarrationCallbacks): NarrationHandle {
+  const words = splitWords(text);
+  if (!voice || !speechAvailable() || !words.length) return timedNarration(words, locale, callbacks);
+
+  const synth = window.speechSynthesis;
+  const estimate = estimateWordTimings(words, locale).total;
+  let finished = false;
+  let cancelled = false;
+  let watchdog: number | undefined;
+  const finish = () => {
+    if (finished || cancelled) return;
+    finished = true;
+    window.clearTimeout(watchdog);
+    highlighter?.cancel();
+    callbacks.onSpeaking?.(false);
+    callbacks.onEnd?.();
+  };
+  // Some engines never fire onend (or stall); don't hold the show forever.
+  const arm = () => {
+    window.clearTimeout(watchdog);
+    watchdog = window.setTimeout(finish, estimate * 2 + 3000);
+  };
+  // Until the voice reports word boundaries (some never do), highlight on estimated timings.
+  let highlighter: NarrationHandle | null = timedNarration(words, locale, { onWord: callbacks.onWord });
+
+  const u = new SpeechSynthesisUtterance(text);
+  u.lang = locale;
+  u.rate = 1.0;
+  u.pitch = 1.0;
+  u.volume = Math.max(0, Math.min(1, volume));
+  u.onstart = () => {
+    if (!cancelled) callbacks.onSpeaking?.(true);
+  };
+  u.onboundary = (e) => {
+    if (e.name && e.name !== "word") return;
+    highlighter?.cancel();
+    highlighter = null;
+    if (!cancelled) callbacks.onWord?.(wordIndexAt(words, e.charIndex));
+  };
+  u.onend = finish;
+  u.onerror = (e) => {
+    // "interrupted"/"canceled" come from our own cancel(); anything else is treated as the end.
+    if (e.error !== "interrupted" && e.error !== "canceled") finish();
+  };
+  try {
+    synth.cancel();
+    synth.speak(u);
+    arm();
+  } catch {
+    highlighter.cancel();
+    return timedNarration(words, locale, callbacks);
+  }
+
+  return {
+    pause() {
+      window.clearTimeout(watchdog);
+      highlighter?.pause();
+      callbacks.onSpeaking?.(false);
+      try {
+        synth.pause();
+      } catch {}
+    },
+    resume() {
+      if (finished) return;
+      arm();
+      highlighter?.resume();
+      callbacks.onSpeaking?.(true);
+      try {
+        synth.resume();
+      } catch {}
+    },
+    cancel() {
+      cancelled = true;
+      window.clearTimeout(watchdog);
+      highlighter?.cancel();
+      callbacks.onSpeaking?.(false);
+      try {
+        synth.cancel();
+      } catch {}
+    },
+  };
+}
+
+/** How long autoplay is expected to hold `scene`: its estimated narration plus the tail, within its dwell bounds. Camera shots are timed to this. */
+export function expectedDwellMs(scene: Pick<Scene, "narration" | "minDwellMs" | "maxDwellMs">, locale: Locale = "en-US"): number {
+  const { minMs, maxMs, tailMs } = resolveDwell(scene);
+  return Math.min(maxMs, Math.max(minMs, estimateNarrationMs(scene.narration, locale) + tailMs));
+}
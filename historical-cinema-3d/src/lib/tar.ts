@@ -0,0 +1,60 @@
+/*
+ * Minimal ustar writer for bundling rendered frames. Entries are streamed into a Blob, so frame data can
+ * stay as PNG Blobs (which browsers may keep on disk) instead of being copied into one big buffer.
+ * Timestamps are fixed at zero so the same input always yields the same archive.
+ */
+
+export interface TarEntry {
+  name: string;
+  data: Blob | Uint8Array | string;
+}
+
+const BLOCK = 512;
+const encoder = new TextEncoder();
+
+function writeField(header: Uint8Array, offset: number, length: number, value: string) {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, "0");
+
+function headerFor(name: string, size: number) {
+  const header = new Uint8Array(BLOCK);
+  // Names longer than 100 bytes go into the 155-byte prefix, split at a slash.
+  let prefix = "";
+  let path = name;
+  if (encoder.encode(path).length > 100) {
+    const cut = name.lastIndexOf("/", 155);
+    if (cut <= 0 || encoder.encode(name.slice(cut + 1)).length > 100) throw new Error(`Tar entry name too long: ${name}`);
+    prefix = name.slice(0, cut);
+    path = name.slice(cut + 1);
+  }
+  writeField(header, 0, 100, path);
+  writeField(header, 100, 8, "0000644");
+  writeField(header, 108, 8, "0000000");
+  writeField(header, 116, 8, "0000000");
+  writeField(header, 124, 12, octal(size, 12));
+  writeField(header, 136, 12, octal(0, 12));
+  writeField(header, 148, 8, "        ");
+  writeField(header, 156, 1, "0");
+  writeField(header, 257, 6, "ustar");
+  writeField(header, 263, 2, "00");
+  writeField(header, 345, 155, prefix);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  writeField(header, 148, 8, octal(sum, 7) + "\0");
+  return header;
+}
+
+export function createTar(entries: readonly TarEntry[]): Blob {
+  const parts: BlobPart[] = [];
+  for (const entry of entries) {
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const size = data instanceof Blob ? data.size : data.byteLength;
+    parts.push(headerFor(entry.name, size), data as BlobPart);
+    const pad = (BLOCK - (size % BLOCK)) % BLOCK;
+    if (pad) parts.push(new Uint8Array(pad));
+  }
+  parts.push(new Uint8Array(BLOCK * 2));
+  return new Blob(parts, { type: "application/x-tar" });
+}
@@ -0,0 +1,62 @@
+/** Lowercases, strips diacritics and collapses punctuation/whitespace to single spaces. */
+export function normalizeText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(row[j - 1]! + 1, prev[j]! + 1, prev[j - 1]! + cost);
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/** Edit distance allowed for a word of this length before two words stop counting as the same. */
+export function typoBudget(word: string): number {
+  return word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2;
+}
+
+/** Very small English singularizer: "flags" → "flag", "torches" → "torch", "bodies" → "body". */
+export function singular(word: string): string {
+  if (word.length <= 3 || word.endsWith("ss")) return word;
+  if (word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (/(ches|shes|xes|sses)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+/** The normalized, singularized words of `value`: "The Torches" → ["the", "torch"]. */
+export function words(value: string): string[] {
+  return normalizeText(value).split(" ").filter(Boolean).map(singular);
+}
+
+/** Equal, or within the typo budget of the shorter word. */
+export function sameWord(a: string, b: string): boolean {
+  return a === b || levenshtein(a, b) <= Math.min(typoBudget(a), typoBudget(b));
+}
+
+/** Where `needle` starts as a run of words in `hay` (each word exact, or `sameWord` when fuzzy), or -1. */
+export function findRun(hay: readonly string[], needle: readonly string[], fuzzy: boolean): number {
+  for (let i = 0; i + needle.length <= hay.length; i++) {
+    if (needle.every((w, j) => (fuzzy ? sameWord(hay[i + j]!, w) : hay[i + j] === w))) return i;
+  }
+  return -1;
+}
+
+/** File-name-safe form of a title: "Apollo 11 (1969)" → "apollo-11-1969". */
+export function slugify(value: string, fallback = "chronicle"): string {
+  return normalizeText(value).replace(/ /g, "-").slice(0, 60) || fallback;
+}
@@ -0,0 +1,79 @@
+import type { Scene } from "@/lib/scene";
+
+export type TransitionType = "cut" | "crossfade" | "fade-black" | "film-burn" | "fly-through";
+
+export const TRANSITION_TYPES: readonly TransitionType[] = ["cut", "crossfade", "fade-black", "film-burn", "fly-through"];
+
+export interface TransitionSpec {
+  type: TransitionType;
+  /** Seconds. */
+  duration: number;
+}
+
+/** What a scene may put in its `transition` field: a type name or a type with a duration. */
+export type TransitionOverride = TransitionType | { type: TransitionType; duration?: number };
+
+export const DEFAULT_TRANSITION_DURATION: Record<TransitionType, number> = {
+  cut: 0,
+  crossfade: 0.8,
+  "fade-black": 1.2,
+  "film-burn": 1.4,
+  "fly-through": 1.6,
+};
+
+export const MAX_TRANSITION_DURATION = 4;
+
+/**
+ * Fade-through-black and film burn hide the swap behind an opaque midpoint, so the new scene is
+ * mounted halfway through. Crossfade and fly-through swap immediately and dissolve from a snapshot.
+ */
+export function swapsAtMidpoint(type: TransitionType): boolean {
+  return type === "fade-black" || type === "film-burn";
+}
+
+/** The transition used to enter `scene`; crossfade unless the scene says otherwise. */
+export function resolveTransition(scene: Pick<Scene, "transition"> | undefined): TransitionSpec {
+  const t = scene?.transition;
+  const type = (typeof t === "string" ? t : t?.type) ?? "crossfade";
+  const duration = typeof t === "object" && t.duration !== undefined ? t.duration : DEFAULT_TRANSITION_DURATION[type];
+  return { type, duration: Math.min(MAX_TRANSITION_DURATION, Math.max(0, duration)) };
+}
+
+export type GradientStops = readonly (readonly [offset: number, color: string])[];
+
+/*
+ * Overlay keyframes, shared by the live DOM overlay (framer-motion) and offline renders (canvas 2D) so
+ * both look the same. `times` are fractions of the transition's duration.
+ */
+export const FADE_BLACK_KEYS = { opacity: [0, 1, 1, 0], times: [0, 0.42, 0.58, 1] } as const;
+
+export const FILM_BURN_KEYS = {
+  base: {
+    opacity: [0, 0.35, 1, 1, 0],
+    times: [0, 0.2, 0.45, 0.55, 1],
+    center: [0.72, 0.38],
+    stops: [[0, "#fffbe8"], [0.28, "#ffb347"], [0.55, "#d9480f"], [1, "#3b0a02"]] as GradientStops,
+  },
+  flare: {
+    opacity: [0, 1, 0.6, 1, 0],
+    scale: [0.6, 1.4, 1.8, 2.2, 2.6],
+    times: [0, 0.25, 0.5, 0.75, 1],
+    center: [0.3, 0.7],
+    stops: [[0, "#ffffffcc"], [0.25, "#ffd08a88"], [0.6, "#ffd08a00"]] as GradientStops,
+  },
+} as const;
+
+/** Fly-throughs only dissolve the first part of the move, zooming into the old frame; the camera carries the rest. */
+export const FLY_THROUGH_DISSOLVE = { portion: 0.45, scale: 1.18 } as const;
+
+/** Piecewise-linear value of a keyframe track at progress `u`. */
+export function keyframe(values: readonly number[], times: readonly number[], u: number): number {
+  if (u <= times[0]!) return values[0]!;
+  for (let i = 1; i < times.length; i++) {
+    if (u <= times[i]!) {
+      const k = (u - times[i - 1]!) / (times[i]! - times[i - 1]! || 1);
+      return values[i - 1]! + (values[i]! - values[i - 1]!) * k;
+    }
+  }
+  return values[values.length - 1]!;
+}
@@ -0,0 +1,56 @@
+import type { Locale } from "@/lib/scene";
+import { ProviderError } from "@/lib/providers";
+
+/*
+ * Recorded narration for offline renders. The browser's speechSynthesis plays straight to the speakers
+ * and can't be captured, so audio is only available when a TTS backend is configured: VITE_TTS_ENDPOINT
+ * receives POST {text, locale} and answers with an audio file (any format decodeAudioData accepts).
+ */
+
+export interface NarrationAudioSource {
+  synthesize(text: string, locale: Locale, signal?: AbortSignal): Promise<ArrayBuffer>;
+}
+
+export function httpNarrationSource(endpoint: string): NarrationAudioSource {
+  return {
+    async synthesize(text, locale, signal) {
+      let res: Response;
+      try {
+        res = await fetch(endpoint, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ text, locale }), signal });
+      } catch (e) {
+        if (signal?.aborted) throw new ProviderError("aborted", "Narration request was cancelled.", false);
+        throw new ProviderError("network", `Could not reach the TTS backend: ${(e as Error).message}`, true);
+      }
+      if (!res.ok) throw new ProviderError("http", `TTS backend answered ${res.status}.`, res.status >= 500);
+      return res.arrayBuffer();
+    },
+  };
+}
+
+export function createNarrationAudioSource(): NarrationAudioSource | null {
+  const endpoint = import.meta.env.VITE_TTS_ENDPOINT;
+  return endpoint ? httpNarrationSource(endpoint) : null;
+}
+
+export const NARRATION_SAMPLE_RATE = 48000;
+
+/** Decodes one clip per scene; null when there is no backend. */
+export async function loadNarrationClips(source: NarrationAudioSource | null, texts: readonly string[], locale: Locale, signal?: AbortSignal): Promise<AudioBuffer[] | null> {
+  if (!source) return null;
+  const decoder = new OfflineAudioContext(1, 1, NARRATION_SAMPLE_RATE);
+  const clips: AudioBuffer[] = [];
+  for (const text of texts) clips.push(await decoder.decodeAudioData(await source.synthesize(text, locale, signal)));
+  return clips;
+}
+
+/** Lays the clips out on one track, each starting at its scene's start (seconds). */
+export async function mixNarration(clips: readonly AudioBuffer[], starts: readonly number[], duration: number): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(duration * NARRATION_SAMPLE_RATE)), NARRATION_SAMPLE_RATE);
+  clips.forEach((clip, i) => {
+    const node = ctx.createBufferSource();
+    node.buffer = clip;
+    node.connect(ctx.destination);
+    node.start(starts[i] ?? 0);
+  });
+  return ctx.startRendering();
+}
@@ -0,0 +1,720 @@
+import type { CameraStyle, EnvName, LocalizedField, Scene, SceneTranslation } from "@/lib/scene";
+import { LIGHTING_PRESETS, type LightingOverride, type LightingPreset, type LightingRig } from "@/lib/lighting";
+import { MAX_TRANSITION_DURATION, TRANSITION_TYPES, type TransitionOverride, type TransitionType } from "@/lib/transitions";
+import { levenshtein, normalizeText, sameWord } from "@/lib/text";
+import { LOCALIZED_FIELDS, canonicalLocale, type MessageValues } from "@/lib/i18n";
+import type { Messages } from "@/lib/catalogs";
+import type { SceneQuestion } from "@/lib/quiz";
+import { HISTORICITY_LEVELS, type Citation, type Historicity } from "@/lib/sources";
+
+export const ENV_NAMES: readonly EnvName[] = [
+  "space",
+  "desert",
+  "sea",
+  "forest",
+  "city",
+  "tundra",
+  "interior",
+  "mountain",
+  "ceremonial",
+  "battlefield",
+];
+
+export const CAMERA_STYLES: readonly CameraStyle[] = ["dolly-in", "crane-up", "orbit-slow", "handheld", "locked-off", "push-pull"];
+
+/** The "3 to 5 scenes" rule from SCENE_PROMPT_TEMPLATE. */
+export const SCENE_COUNT = { min: 3, max: 5 } as const;
+
+export const DEFAULT_PALETTE = ["#0a0a0a", "#dddddd", "#888888", "#ffffff"];
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** Key of the finding's message in the catalogs' "diagnostics" section. */
+export type DiagnosticCode = keyof Messages["diagnostics"];
+
+export interface SceneDiagnostic {
+  severity: DiagnosticSeverity;
+  /** Index of the scene in the deck, or null for deck-level findings. */
+  scene: number | null;
+  /** Field path inside the scene, e.g. "palette[2]". Empty for whole-scene findings. */
+  path: string;
+  code: DiagnosticCode;
+  /** Placeholders in the message. */
+  values?: MessageValues;
+}
+
+type Report = (severity: DiagnosticSeverity, path: string, code: DiagnosticCode, values?: MessageValues) => void;
+
+export interface SceneValidation {
+  /** The repaired scene, or null when the input could not be salvaged. */
+  scene: Scene | null;
+  diagnostics: SceneDiagnostic[];
+}
+
+const ENV_ALIASES: Record<string, EnvName> = {
+  "outer space": "space",
+  orbit: "space",
+  lunar: "space",
+  moon: "space",
+  cosmos: "space",
+  dunes: "desert",
+  sand: "desert",
+  sahara: "desert",
+  ocean: "sea",
+  water: "sea",
+  river: "sea",
+  coast: "sea",
+  beach: "sea",
+  harbor: "sea",
+  woods: "forest",
+  woodland: "forest",
+  jungle: "forest",
+  urban: "city",
+  town: "city",
+  street: "city",
+  village: "city",
+  arctic: "tundra",
+  snow: "tundra",
+  ice: "tundra",
+  glacier: "tundra",
+  indoor: "interior",
+  indoors: "interior",
+  room: "interior",
+  hall: "interior",
+  tomb: "interior",
+  mountains: "mountain",
+  alpine: "mountain",
+  peak: "mountain",
+  highlands: "mountain",
+  temple: "ceremonial",
+  ritual: "ceremonial",
+  ceremony: "ceremonial",
+  coronation: "ceremonial",
+  battle: "battlefield",
+  war: "battlefield",
+  front: "battlefield",
+  trenches: "battlefield",
+  warzone: "battlefield",
+};
+
+const CAMERA_ALIASES: Record<string, CameraStyle> = {
+  dolly: "dolly-in",
+  "push in": "dolly-in",
+  "zoom in": "dolly-in",
+  "track in": "dolly-in",
+  crane: "crane-up",
+  "boom up": "crane-up",
+  jib: "crane-up",
+  rise: "crane-up",
+  orbit: "orbit-slow",
+  "slow orbit": "orbit-slow",
+  arc: "orbit-slow",
+  circle: "orbit-slow",
+  "hand held": "handheld",
+  shaky: "handheld",
+  steadicam: "handheld",
+  "locked off": "locked-off",
+  static: "locked-off",
+  fixed: "locked-off",
+  tripod: "locked-off",
+  still: "locked-off",
+  "push pull": "push-pull",
+  "dolly zoom": "push-pull",
+  vertigo: "push-pull",
+  zolly: "push-pull",
+};
+
+const LIGHTING_ALIASES: Record<string, LightingPreset> = {
+  noon: "day",
+  daylight: "day",
+  midday: "day",
+  sunrise: "dawn",
+  morning: "dawn",
+  sunset: "dusk",
+  evening: "dusk",
+  twilight: "dusk",
+  cloudy: "overcast",
+  storm: "overcast",
+  moonlight: "night",
+  blackout: "night",
+  torch: "torchlight",
+  candlelight: "torchlight",
+  firelight: "torchlight",
+  indoor: "interior",
+  space: "vacuum",
+};
+
+const TRANSITION_ALIASES: Record<string, TransitionType> = {
+  none: "cut",
+  "hard cut": "cut",
+  dissolve: "crossfade",
+  "cross fade": "crossfade",
+  fade: "fade-black",
+  "fade to black": "fade-black",
+  "fade through black": "fade-black",
+  burn: "film-burn",
+  "light leak": "film-burn",
+  flythrough: "fly-through",
+  "fly through": "fly-through",
+  fly: "fly-through",
+};
+
+const HISTORICITY_ALIASES: Record<string, Historicity> = {
+  historical: "documented",
+  factual: "documented",
+  attested: "documented",
+  recorded: "documented",
+  reconstruction: "reconstructed",
+  probable: "reconstructed",
+  inferred: "reconstructed",
+  dramatized: "reconstructed",
+  conjecture: "speculative",
+  conjectural: "speculative",
+  hypothetical: "speculative",
+  fictional: "speculative",
+  imagined: "speculative",
+  myth: "mythic",
+  mythical: "mythic",
+  legend: "mythic",
+  legendary: "mythic",
+  religious: "mythic",
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: "#000000",
+  white: "#ffffff",
+  red: "#ff0000",
+  green: "#008000",
+  blue: "#0000ff",
+  yellow: "#ffff00",
+  orange: "#ffa500",
+  purple: "#800080",
+  gold: "#ffd700",
+  silver: "#c0c0c0",
+  gray: "#808080",
+  grey: "#808080",
+  navy: "#000080",
+  teal: "#008080",
+  brown: "#a52a2a",
+};
+
+/** A value read as one of a fixed set of names. */
+export interface Coerced<T extends string> {
+  value: T;
+  /** Matched only as a near spelling, not as a name or alias; worth a warning, since it may be a different word. */
+  fuzzy: boolean;
+}
+
+function closest<T extends string>(input: string, options: readonly T[], aliases: Record<string, T>): Coerced<T> | null {
+  const alias = (k: string) => (Object.prototype.hasOwnProperty.call(aliases, k) ? aliases[k] : undefined);
+  const key = normalizeText(input);
+  if (!key) return null;
+  const dashed = key.replace(/ /g, "-");
+  const exact = options.find((o) => o === dashed) ?? alias(key);
+  if (exact) return { value: exact, fuzzy: false };
+  for (const word of key.split(" ")) {
+    const hit = options.find((o) => o === word) ?? alias(word);
+    if (hit) return { value: hit, fuzzy: false };
+  }
+  // Typos only, within the same budget props and packs allow: "sky" is not a misspelt "sea".
+  let best: T | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of [...options, ...Object.keys(aliases)]) {
+    const spelled = candidate.replace(/ /g, "-");
+    const d = levenshtein(dashed, spelled);
+    if (d < bestDistance && sameWord(dashed, spelled)) {
+      bestDistance = d;
+      best = (options as readonly string[]).includes(candidate) ? (candidate as T) : aliases[candidate]!;
+    }
+  }
+  return best && { value: best, fuzzy: true };
+}
+
+export function coerceEnvironment(value: unknown): Coerced<EnvName> | null {
+  return typeof value === "string" ? closest(value, ENV_NAMES, ENV_ALIASES) : null;
+}
+
+export function coerceCameraStyle(value: unknown): Coerced<CameraStyle> | null {
+  return typeof value === "string" ? closest(value, CAMERA_STYLES, CAMERA_ALIASES) : null;
+}
+
+export function coerceLightingPreset(value: unknown): Coerced<LightingPreset> | null {
+  return typeof value === "string" ? closest(value, LIGHTING_PRESETS, LIGHTING_ALIASES) : null;
+}
+
+export function coerceTransitionType(value: unknown): Coerced<TransitionType> | null {
+  return typeof value === "string" ? closest(value, TRANSITION_TYPES, TRANSITION_ALIASES) : null;
+}
+
+export function coerceHistoricity(value: unknown): Coerced<Historicity> | null {
+  return typeof value === "string" ? closest(value, HISTORICITY_LEVELS, HISTORICITY_ALIASES) : null;
+}
+
+/** Notes a value read as another name: informational for names and aliases, a warning for a near spelling. */
+function reportCoerced(report: Report, path: string, raw: unknown, coerced: Coerced<string>) {
+  if (coerced.fuzzy) report("warning", path, "closestSpelling", { value: String(raw), match: coerced.value });
+  else if (coerced.value !== raw) report("info", path, "mapped", { value: String(raw), match: coerced.value });
+}
+
+/** Normalizes "#fff", "FFF", "#FFAA00cc", "rgb(1, 2, 3)" and a few color names to "#rrggbb". */
+export function normalizeHex(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const v = value.trim().toLowerCase();
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, v)) return NAMED_COLORS[v]!;
+  const rgb = /^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})/.exec(v);
+  if (rgb) {
+    return "#" + rgb.slice(1, 4).map((c) => Math.min(255, Number(c)).toString(16).padStart(2, "0")).join("");
+  }
+  const hex = /^#?([0-9a-f]{3,8})$/.exec(v)?.[1];
+  if (!hex) return null;
+  if (hex.length === 3 || hex.length === 4) return "#" + [...hex.slice(0, 3)].map((c) => c + c).join("");
+  if (hex.length === 6 || hex.length === 8) return "#" + hex.slice(0, 6);
+  return null;
+}
+
+function firstSentence(text: string): string {
+  return (/^[^.!?]+[.!?]?/.exec(text.trim())?.[0] ?? text).trim();
+}
+
+const SCENE_FIELDS = new Set<string>([
+  "title",
+  "timePeriod",
+  "location",
+  "oneLine",
+  "narration",
+  "visualKeywords",
+  "palette",
+  "environment",
+  "cameraStyle",
+  "lighting",
+  "transition",
+  "minDwellMs",
+  "maxDwellMs",
+  "translations",
+  "questions",
+  "citations",
+  "historicity",
+  "anachronisms",
+]);
+
+const RIG_NUMBERS = ["environmentIntensity", "flicker", "searchlights"] as const;
+const RIG_BOOLEANS = ["skyDome", "shadows"] as const;
+const RIG_LIGHTS = ["ambient", "sun", "fill"] as const;
+
+function validateLighting(raw: unknown, report: Report): LightingOverride | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === "string") {
+    const preset = coerceLightingPreset(raw);
+    if (!preset) report("warning", "lighting", "unknownLighting", { value: raw });
+    else reportCoerced(report, "lighting", raw, preset);
+    return preset?.value;
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    report("warning", "lighting", "lightingShape");
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const out: Partial<LightingRig> & { preset?: LightingPreset } = {};
+  for (const [key, value] of Object.entries(input)) {
+    const path = `lighting.${key}`;
+    if (key === "preset") {
+      const preset = coerceLightingPreset(value);
+      if (preset) {
+        out.preset = preset.value;
+        reportCoerced(report, path, value, preset);
+      } else report("warning", path, "unknownLightingPreset", { value: String(value) });
+    } else if ((RIG_NUMBERS as readonly string[]).includes(key)) {
+      if (typeof value === "number" && Number.isFinite(value)) out[key as (typeof RIG_NUMBERS)[number]] = Math.max(0, value);
+      else report("warning", path, "expectedNumber");
+    } else if ((RIG_BOOLEANS as readonly string[]).includes(key)) {
+      if (typeof value === "boolean") out[key as (typeof RIG_BOOLEANS)[number]] = value;
+      else report("warning", path, "expectedBoolean");
+    } else if (key === "background") {
+      const hex = normalizeHex(value);
+      if (hex) out.background = hex;
+      else report("warning", path, "expectedColor");
+    } else if (key === "sunPosition") {
+      if (Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === "number" && Number.isFinite(v))) {
+        out.sunPosition = value as [number, number, number];
+      } else report("warning", path, "expectedVector");
+    } else if ((RIG_LIGHTS as readonly string[]).includes(key)) {
+      const light = value as { color?: unknown; intensity?: unknown } | null;
+      const color = normalizeHex(light?.color);
+      if (color && typeof light?.intensity === "number") out[key as (typeof RIG_LIGHTS)[number]] = { color, intensity: Math.max(0, light.intensity) };
+      else report("warning", path, "expectedLight");
+    } else {
+      report("info", path, "unknownLightingField");
+    }
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function validateTransition(raw: unknown, report: Report): TransitionOverride | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const input = typeof raw === "object" && !Array.isArray(raw) ? (raw as { type?: unknown; duration?: unknown }) : { type: raw };
+  const coerced = coerceTransitionType(input.type);
+  if (!coerced) {
+    report("warning", "transition", "unknownTransition", { value: String(input.type) });
+    return undefined;
+  }
+  reportCoerced(report, "transition", input.type, coerced);
+  const type = coerced.value;
+  if (input.duration === undefined) return type;
+  if (typeof input.duration !== "number" || !Number.isFinite(input.duration) || input.duration < 0) {
+    report("warning", "transition.duration", "transitionDuration");
+    return type;
+  }
+  if (input.duration > MAX_TRANSITION_DURATION) report("info", "transition.duration", "clampedSeconds", { max: MAX_TRANSITION_DURATION });
+  return { type, duration: Math.min(MAX_TRANSITION_DURATION, input.duration) };
+}
+
+/** Longest dwell a scene may ask for; keeps a bad value from parking autoplay indefinitely. */
+const MAX_DWELL_MS = 120000;
+
+function validateDwell(input: Record<string, unknown>, report: Report): { minDwellMs?: number; maxDwellMs?: number } {
+  const read = (key: "minDwellMs" | "maxDwellMs") => {
+    const value = input[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      report("warning", key, "dwellDuration");
+      return undefined;
+    }
+    if (value > MAX_DWELL_MS) report("info", key, "clampedMs", { max: MAX_DWELL_MS });
+    return Math.round(Math.min(MAX_DWELL_MS, value));
+  };
+  const minDwellMs = read("minDwellMs");
+  let maxDwellMs = read("maxDwellMs");
+  if (minDwellMs !== undefined && maxDwellMs !== undefined && maxDwellMs < minDwellMs) {
+    report("warning", "maxDwellMs", "maxBelowMin", { min: minDwellMs });
+    maxDwellMs = minDwellMs;
+  }
+  return { minDwellMs, maxDwellMs };
+}
+
+function validateTranslations(raw: unknown, report: Report): Scene["translations"] {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    report("warning", "translations", "translationsShape");
+    return undefined;
+  }
+  const out: Record<string, SceneTranslation> = {};
+  for (const [tag, value] of Object.entries(raw)) {
+    const path = `translations.${tag}`;
+    const locale = canonicalLocale(tag);
+    if (!locale) {
+      report("warning", path, "notLanguageTag", { tag });
+      continue;
+    }
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      report("warning", path, "translationShape");
+      continue;
+    }
+    if (locale !== tag) report("info", path, "normalizedTag", { value: tag, locale });
+    const entry: SceneTranslation = {};
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      if (!LOCALIZED_FIELDS.includes(key as LocalizedField)) {
+        report("info", `${path}.${key}`, "notTranslatable");
+      } else if (key === "visualKeywords") {
+        const words = Array.isArray(v) ? v.filter((k): k is string => typeof k === "string").map((k) => k.trim()).filter(Boolean) : [];
+        if (!Array.isArray(v)) report("warning", `${path}.${key}`, "keywordsIgnored");
+        else if (words.length) entry.visualKeywords = [...new Set(words)];
+      } else if (key === "questions") {
+        const questions = validateQuestions(v, report, `${path}.${key}`);
+        if (questions) entry.questions = questions;
+      } else if (key === "anachronisms") {
+        const notes = validateAnachronisms(v, report, `${path}.${key}`);
+        if (notes) entry.anachronisms = notes;
+      } else if (typeof v === "string") {
+        if (v.trim()) entry[key as Exclude<LocalizedField, "visualKeywords" | "questions" | "anachronisms">] = v.trim();
+      } else {
+        report("warning", `${path}.${key}`, "textIgnored");
+      }
+    }
+    if (Object.keys(entry).length) out[locale] = { ...out[locale], ...entry };
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** Most choices a scene's own question may offer. */
+export const MAX_QUESTION_CHOICES = 6;
+
+function validateQuestions(raw: unknown, report: Report, base = "questions"): SceneQuestion[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    report("warning", base, "questionsShape");
+    return undefined;
+  }
+  const out: SceneQuestion[] = [];
+  raw.forEach((item, i) => {
+    const path = `${base}[${i}]`;
+    const input = item && typeof item === "object" && !Array.isArray(item) ? (item as Record<string, unknown>) : null;
+    const prompt = typeof input?.prompt === "string" ? input.prompt.trim() : "";
+    if (!input || !prompt) {
+      report("warning", path, "questionShape");
+      return;
+    }
+    const choices = Array.isArray(input.choices) ? [...new Set(input.choices.filter((c): c is string => typeof c === "string").map((c) => c.trim()).filter(Boolean))] : [];
+    if (choices.length < 2) {
+      report("warning", `${path}.choices`, "tooFewChoices");
+      return;
+    }
+    if (choices.length > MAX_QUESTION_CHOICES) {
+      report("warning", `${path}.choices`, "tooManyChoices", { count: choices.length, max: MAX_QUESTION_CHOICES });
+      return;
+    }
+    // The answer may be the index of the right choice or the choice itself.
+    let answer = typeof input.answer === "number" && Number.isInteger(input.answer) ? input.answer : -1;
+    if (typeof input.answer === "string") {
+      answer = choices.findIndex((c) => normalizeText(c) === normalizeText(input.answer as string));
+      if (answer >= 0) report("info", `${path}.answer`, "mappedAnswer", { value: input.answer as string, index: answer });
+    }
+    if (answer < 0 || answer >= choices.length) {
+      report("warning", `${path}.answer`, "answerNotChoice");
+      return;
+    }
+    const question: SceneQuestion = { prompt, choices, answer };
+    if (typeof input.explanation === "string" && input.explanation.trim()) question.explanation = input.explanation.trim();
+    out.push(question);
+  });
+  return out.length ? out : undefined;
+}
+
+function validateHistoricity(raw: unknown, report: Report, required: boolean): Historicity | undefined {
+  if (raw === undefined || raw === null) {
+    if (required) report("warning", "historicity", "missingHistoricity", { levels: HISTORICITY_LEVELS.join(", ") });
+    return undefined;
+  }
+  const level = coerceHistoricity(raw);
+  if (!level) report("warning", "historicity", "unknownHistoricity", { value: String(raw) });
+  else reportCoerced(report, "historicity", raw, level);
+  return level?.value;
+}
+
+function webUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function validateCitations(raw: unknown, report: Report, required: boolean): Citation[] | undefined {
+  if (raw === undefined || raw === null) {
+    if (required) report("warning", "citations", "missingCitations");
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    report("warning", "citations", "citationsShape");
+    return undefined;
+  }
+  const out: Citation[] = [];
+  raw.forEach((item, i) => {
+    const path = `citations[${i}]`;
+    if (typeof item === "string") {
+      if (item.trim()) {
+        out.push({ title: item.trim() });
+        report("info", path, "bareCitation");
+      }
+      return;
+    }
+    const input = item && typeof item === "object" && !Array.isArray(item) ? (item as Record<string, unknown>) : null;
+    const title = typeof input?.title === "string" ? input.title.trim() : "";
+    if (!input || !title) {
+      report("warning", path, "citationShape");
+      return;
+    }
+    const citation: Citation = { title };
+    const authors = Array.isArray(input.author) ? input.author : [input.author];
+    const author = authors.filter((a): a is string => typeof a === "string").map((a) => a.trim()).filter(Boolean).join("; ");
+    if (author) citation.author = author;
+    if (typeof input.publisher === "string" && input.publisher.trim()) citation.publisher = input.publisher.trim();
+    if (input.year !== undefined && input.year !== null) {
+      const year = typeof input.year === "string" && /^\s*-?\d{1,4}\s*$/.test(input.year) ? Number(input.year) : input.year;
+      if (typeof year === "number" && Number.isInteger(year)) citation.year = year;
+      else report("warning", `${path}.year`, "citationYear");
+    }
+    if (input.url !== undefined && input.url !== null) {
+      // Only web links: the panel renders the URL as a link.
+      const url = typeof input.url === "string" ? webUrl(input.url) : null;
+      if (url) citation.url = url;
+      else report("warning", `${path}.url`, "citationUrl");
+    }
+    out.push(citation);
+  });
+  if (!out.length && required) report("warning", "citations", "noCitations");
+  return out.length ? out : undefined;
+}
+
+function validateAnachronisms(raw: unknown, report: Report, base = "anachronisms"): string[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const list = typeof raw === "string" ? [raw] : raw;
+  if (!Array.isArray(list)) {
+    report("warning", base, "anachronismsShape");
+    return undefined;
+  }
+  const notes = list.filter((n): n is string => typeof n === "string").map((n) => n.trim()).filter(Boolean);
+  if (notes.length < list.length) report("warning", base, "droppedNotes");
+  return notes.length ? [...new Set(notes)] : undefined;
+}
+
+export interface ValidateOptions {
+  /** Scenes from a provider must say where they come from: missing citations or historicity are reported. */
+  requireSources?: boolean;
+}
+
+/** Checks one raw scene object, repairing near-misses and filling defaults. */
+export function validateScene(raw: unknown, index = 0, { requireSources = false }: ValidateOptions = {}): SceneValidation {
+  const diagnostics: SceneDiagnostic[] = [];
+  const report: Report = (severity, path, code, values) => diagnostics.push({ severity, scene: index, path, code, ...(values && { values }) });
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report("error", "", "sceneNotObject");
+    return { scene: null, diagnostics };
+  }
+  const input = raw as Record<string, unknown>;
+
+  const text = (field: string): string => {
+    const v = input[field];
+    if (typeof v === "string") return v.trim();
+    if (typeof v === "number") {
+      report("info", field, "numberToText", { value: v });
+      return String(v);
+    }
+    if (v !== undefined && v !== null) report("warning", field, "expectedText", { type: Array.isArray(v) ? "array" : typeof v });
+    return "";
+  };
+
+  let title = text("title");
+  let narration = text("narration");
+  let oneLine = text("oneLine");
+  if (!title && !narration && !oneLine) {
+    report("error", "", "sceneWithoutText");
+    return { scene: null, diagnostics };
+  }
+  if (!title) {
+    title = `Scene ${index + 1}`;
+    report("warning", "title", "missingTitle", { title });
+  }
+  if (!narration) {
+    report("warning", "narration", "missingNarration", { source: oneLine ? "oneLine" : "title" });
+    narration = oneLine || title;
+  }
+  if (!oneLine) {
+    oneLine = firstSentence(narration);
+    report("info", "oneLine", "missingOneLine");
+  }
+  const timePeriod = text("timePeriod");
+  const location = text("location");
+
+  let visualKeywords: string[] = [];
+  const rawKeywords = input.visualKeywords;
+  if (typeof rawKeywords === "string") {
+    visualKeywords = rawKeywords.split(/[,;\n]/);
+    report("info", "visualKeywords", "splitKeywords");
+  } else if (Array.isArray(rawKeywords)) {
+    rawKeywords.forEach((k, i) => {
+      if (typeof k === "string") visualKeywords.push(k);
+      else report("warning", `visualKeywords[${i}]`, "droppedKeyword");
+    });
+  } else if (rawKeywords !== undefined) {
+    report("warning", "visualKeywords", "keywordsShape");
+  }
+  visualKeywords = [...new Set(visualKeywords.map((k) => k.trim()).filter(Boolean))];
+  if (!visualKeywords.length) report("warning", "visualKeywords", "noKeywords");
+
+  const palette: string[] = [];
+  const rawPalette = Array.isArray(input.palette) ? input.palette : input.palette === undefined ? [] : [input.palette];
+  if (!Array.isArray(input.palette) && input.palette !== undefined) report("warning", "palette", "paletteShape");
+  rawPalette.slice(0, 4).forEach((c, i) => {
+    const hex = normalizeHex(c);
+    if (!hex) {
+      report("warning", `palette[${i}]`, "notAColor", { value: String(c), color: DEFAULT_PALETTE[i]! });
+      palette.push(DEFAULT_PALETTE[i]!);
+    } else {
+      if (hex !== c) report("info", `palette[${i}]`, "normalizedColor", { value: String(c), color: hex });
+      palette.push(hex);
+    }
+  });
+  if (rawPalette.length > 4) report("info", "palette", "paletteTrimmed", { count: rawPalette.length });
+  if (palette.length < 4) {
+    report("warning", "palette", "paletteShort", { count: palette.length });
+    while (palette.length < 4) palette.push(DEFAULT_PALETTE[palette.length]!);
+  }
+
+  const coercedEnvironment = coerceEnvironment(input.environment);
+  let environment: EnvName = "city";
+  if (!coercedEnvironment) {
+    if (input.environment === undefined) report("error", "environment", "missingEnvironment", { value: environment });
+    else report("error", "environment", "unknownEnvironment", { value: String(input.environment), fallback: environment });
+  } else {
+    environment = coercedEnvironment.value;
+    reportCoerced(report, "environment", input.environment, coercedEnvironment);
+  }
+
+  const coercedCamera = coerceCameraStyle(input.cameraStyle);
+  let cameraStyle: CameraStyle = "orbit-slow";
+  if (!coercedCamera) {
+    if (input.cameraStyle === undefined) report("warning", "cameraStyle", "missingCameraStyle", { value: cameraStyle });
+    else report("warning", "cameraStyle", "unknownCameraStyle", { value: String(input.cameraStyle), fallback: cameraStyle });
+  } else {
+    cameraStyle = coercedCamera.value;
+    reportCoerced(report, "cameraStyle", input.cameraStyle, coercedCamera);
+  }
+
+  const lighting = validateLighting(input.lighting, report);
+  const transition = validateTransition(input.transition, report);
+  const { minDwellMs, maxDwellMs } = validateDwell(input, report);
+  const translations = validateTranslations(input.translations, report);
+  const questions = validateQuestions(input.questions, report);
+  const citations = validateCitations(input.citations, report, requireSources);
+  const historicity = validateHistoricity(input.historicity, report, requireSources);
+  const anachronisms = validateAnachronisms(input.anachronisms, report);
+
+  for (const key of Object.keys(input)) {
+    if (!SCENE_FIELDS.has(key)) report("info", key, "unknownField");
+  }
+
+  const scene: Scene = { title, timePeriod, location, oneLine, narration, visualKeywords, palette, environment, cameraStyle };
+  if (lighting) scene.lighting = lighting;
+  if (transition) scene.transition = transition;
+  if (minDwellMs !== undefined) scene.minDwellMs = minDwellMs;
+  if (maxDwellMs !== undefined) scene.maxDwellMs = maxDwellMs;
+  if (translations) scene.translations = translations;
+  if (questions) scene.questions = questions;
+  if (citations) scene.citations = citations;
+  if (historicity) scene.historicity = historicity;
+  if (anachronisms) scene.anachronisms = anachronisms;
+  return { scene, diagnostics };
+}
+
+/** Deck-level findings for a deck of `count` usable scenes (the "3 to 5 scenes" rule). */
+export function checkSceneCount(count: number, received = count): SceneDiagnostic[] {
+  const out: SceneDiagnostic[] = [];
+  if (received > SCENE_COUNT.max) {
+    out.push({ severity: "warning", scene: null, path: "", code: "tooManyScenes", values: { received, max: SCENE_COUNT.max } });
+  }
+  if (count === 0) {
+    out.push({ severity: "error", scene: null, path: "", code: "noScenes" });
+  } else if (count < SCENE_COUNT.min) {
+    out.push({ severity: "warning", scene: null, path: "", code: "tooFewScenes", values: { count, min: SCENE_COUNT.min } });
+  }
+  return out;
+}
+
+/** Validates a whole deck: accepts an array or `{ scenes: [...] }`, clamps it to SCENE_COUNT.max. */
+export function validateDeck(raw: unknown): { scenes: Scene[]; diagnostics: SceneDiagnostic[] } {
+  const list = Array.isArray(raw) ? raw : (raw as { scenes?: unknown } | null)?.scenes;
+  if (!Array.isArray(list)) {
+    return { scenes: [], diagnostics: [{ severity: "error", scene: null, path: "", code: "notSceneList" }] };
+  }
+  const scenes: Scene[] = [];
+  const diagnostics: SceneDiagnostic[] = [];
+  list.slice(0, SCENE_COUNT.max).forEach((item, i) => {
+    const result = validateScene(item, i);
+    diagnostics.push(...result.diagnostics);
+    if (result.scene) scenes.push(result.scene);
+  });
+  diagnostics.push(...checkSceneCount(scenes.length, list.length));
+  return { scenes, diagnostics };
+}
@@ -0,0 +1,31 @@
+/** 16-bit PCM WAV bytes for an AudioBuffer (or anything shaped like one). */
+export function encodeWav(audio: Pick<AudioBuffer, "numberOfChannels" | "sampleRate" | "length" | "getChannelData">): Uint8Array {
+  const channels = audio.numberOfChannels;
+  const frames = audio.length;
+  const bytes = new Uint8Array(44 + frames * channels * 2);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, value: string) => [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  text(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  text(8, "WAVE");
+  text(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  text(36, "data");
+  view.setUint32(40, frames * channels * 2, true);
+  const data = Array.from({ length: channels }, (_, c) => audio.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const s = Math.max(-1, Math.min(1, data[c]![i]!));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return bytes;
+}
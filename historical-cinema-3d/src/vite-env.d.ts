@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SCENE_ENDPOINT?: string;
+  readonly VITE_SCENE_TIMEOUT_MS?: string;
+  readonly VITE_TTS_ENDPOINT?: string;
+}